@@ -0,0 +1,63 @@
+import localCarrier from "./local.carrier";
+
+// A single tracking update for a shipment
+export type TTrackingEvent = {
+  // The time the event happened
+  occurredOn: Date;
+  // Where the shipment was when the event happened
+  location: string;
+  // A description of the event
+  description: string;
+};
+
+/**
+ * An adapter for a delivery carrier. New carriers are added by implementing
+ * this type and registering it with registerCarrier
+ */
+export type TCarrier = {
+  // The unique id stored against shipments that use the carrier
+  id: string;
+  // The name of the carrier shown to customers
+  name: string;
+  /**
+   * Get a link to the carrier's own tracking page
+   * @param trackingNumber The tracking number of the shipment
+   * @returns A url, or null if the carrier has no tracking page
+   */
+  getTrackingUrl: (trackingNumber: string) => string | null;
+  /**
+   * Get the tracking events the carrier has for a shipment
+   * @param trackingNumber The tracking number of the shipment
+   * @returns A list of tracking events. Rejects if the carrier can't be reached
+   */
+  getTrackingEvents: (trackingNumber: string) => Promise<TTrackingEvent[]>;
+};
+
+const carriers: Map<string, TCarrier> = new Map();
+
+/**
+ * Make a carrier available for shipments to use
+ * @param carrier The carrier adapter to register
+ */
+export const registerCarrier = (carrier: TCarrier) => {
+  carriers.set(carrier.id, carrier);
+};
+
+/**
+ * Get a registered carrier
+ * @param carrierId The id of the carrier
+ * @returns The carrier, or undefined if no carrier is registered with the id
+ */
+export const getCarrier = (carrierId: string): TCarrier | undefined => {
+  return carriers.get(carrierId);
+};
+
+/**
+ * Get every registered carrier
+ * @returns A list of all registered carriers
+ */
+export const getAllCarriers = (): TCarrier[] => {
+  return [...carriers.values()];
+};
+
+registerCarrier(localCarrier);
@@ -0,0 +1,32 @@
+import { TCarrier, TTrackingEvent } from "./carriers";
+
+// Tracking events held in memory, keyed by tracking number
+const localTrackingEvents: Map<string, TTrackingEvent[]> = new Map();
+
+/**
+ * Add a tracking event to the local carrier, used for development and tests
+ * in place of a real carrier
+ * @param trackingNumber The tracking number of the shipment
+ * @param event The tracking event to add
+ */
+export const addLocalTrackingEvent = (
+  trackingNumber: string,
+  event: TTrackingEvent
+) => {
+  if (!localTrackingEvents.has(trackingNumber)) {
+    localTrackingEvents.set(trackingNumber, []);
+  }
+  localTrackingEvents.get(trackingNumber)!.push(event);
+};
+
+// A fake carrier that never leaves this process
+const localCarrier: TCarrier = {
+  id: "local",
+  name: "Local carrier",
+  getTrackingUrl: (_) => null,
+  getTrackingEvents: (trackingNumber) => {
+    return Promise.resolve(localTrackingEvents.get(trackingNumber) ?? []);
+  },
+};
+
+export default localCarrier;
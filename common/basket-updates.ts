@@ -0,0 +1,140 @@
+import WebSocket from "ws";
+import basketWebSockets, {
+  basketSocketStates,
+  TBasketSocketState,
+} from "../data/websockets";
+import { getAllProductsInBasket } from "../models/basket.models";
+
+// A change to one product in a basket. A quantity of 0 means it was removed
+type TBasketChange = { productId: number; quantity: number };
+
+// The changes to a basket, and the version of the basket they lead to
+type TBasketDiff = { version: number; changes: TBasketChange[] };
+
+// The id a client sends with a command, sent back in the reply to it
+export type TBasketRequestId = string | number;
+
+/**
+ * Run a step for a customer's basket connections once every step already
+ * queued for them has finished, so each compares the basket with what the
+ * step before it sent
+ * @param state The basket connection state for the customer
+ * @param step The step to run
+ * @returns The result of the step
+ */
+const queueBasketSocketStep = <T>(
+  state: TBasketSocketState,
+  step: () => Promise<T>
+): Promise<T> => {
+  const result = state.queue.then(step);
+  state.queue = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Compare a customer's basket with what was last sent to their connections,
+ * and send the changes to every connection but one
+ * @param customerId The id of the customer for the connection
+ * @param state The basket connection state for the customer
+ * @param exceptSessionId The session not to send the changes to
+ * @returns The changes, with the version they lead to. Rejects on database
+ * errors
+ */
+const broadcastBasketChanges = async (
+  customerId: number,
+  state: TBasketSocketState,
+  exceptSessionId?: string
+): Promise<TBasketDiff> => {
+  const basketContents = await getAllProductsInBasket(customerId);
+  const contents = new Map(
+    basketContents.map(({ productId, quantity }) => [productId, quantity])
+  );
+  const changes: TBasketChange[] = [];
+  contents.forEach((quantity, productId) => {
+    if (state.contents.get(productId) !== quantity) {
+      changes.push({ productId: productId, quantity: quantity });
+    }
+  });
+  state.contents.forEach((_, productId) => {
+    if (!contents.has(productId)) {
+      changes.push({ productId: productId, quantity: 0 });
+    }
+  });
+  state.contents = contents;
+  if (changes.length <= 0) {
+    return { version: state.version, changes: changes };
+  }
+
+  state.version++;
+  const diff: TBasketDiff = { version: state.version, changes: changes };
+  const allCustomerSockets = basketWebSockets.get(customerId);
+  if (allCustomerSockets !== undefined) {
+    console.log(
+      `Sending basket update to ${allCustomerSockets.size} connections for customer: ${customerId}`
+    );
+    allCustomerSockets.forEach((ws, sessionId) => {
+      if (sessionId !== exceptSessionId) {
+        ws.send(JSON.stringify({ type: "basketDiff", ...diff }));
+      }
+    });
+  }
+  return diff;
+};
+
+/**
+ * Send any changes to a customer's basket to all their connected clients
+ * @param customerId The id of the customer for the connection
+ * @param exceptSessionId A session not to send the changes to, as it is told
+ * of them in the reply to its own command
+ * @returns The changes, with the version they lead to, or null if the
+ * customer has no connections. Rejects on database errors
+ */
+export const sendBasketChangesToAllCustomerClients = (
+  customerId: number,
+  exceptSessionId?: string
+): Promise<TBasketDiff | null> => {
+  const state = basketSocketStates.get(customerId);
+  if (state === undefined) {
+    return Promise.resolve(null);
+  }
+  return queueBasketSocketStep(state, () =>
+    broadcastBasketChanges(customerId, state, exceptSessionId)
+  );
+};
+
+/**
+ * Send a client the whole of a customer's basket, to start from or to resync
+ * with. Other connections are sent any changes first, so every connection is
+ * on the same version
+ * @param customerId The id of the customer for the connection
+ * @param sessionId The session of the client
+ * @param ws The client's connection
+ * @param requestId The id of the resync command being answered, if any
+ * Rejects on database errors
+ */
+export const sendBasketSnapshot = (
+  customerId: number,
+  sessionId: string,
+  ws: WebSocket,
+  requestId?: TBasketRequestId
+): Promise<void> => {
+  const state = basketSocketStates.get(customerId);
+  if (state === undefined) {
+    return Promise.resolve();
+  }
+  return queueBasketSocketStep(state, async () => {
+    await broadcastBasketChanges(customerId, state, sessionId);
+    const basket: TBasketChange[] = [];
+    state.contents.forEach((quantity, productId) => {
+      basket.push({ productId: productId, quantity: quantity });
+    });
+    ws.send(
+      JSON.stringify({
+        type: "basketSnapshot",
+        requestId: requestId,
+        version: state.version,
+        basket: basket,
+      })
+    );
+  });
+};
@@ -0,0 +1,8 @@
+import { CookieOptions } from "express";
+
+export const COOKIE_OPTIONS: CookieOptions = {
+  httpOnly: true,
+  domain: process.env.COOKIE_DOMAIN,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax",
+};
@@ -0,0 +1,34 @@
+export type TCsvValue = string | number | boolean | Date | null;
+
+/**
+ * Write a single CSV value. Values holding commas, quotes or new lines are
+ * quoted, and text starting with a formula character is prefixed with ' so
+ * spreadsheets don't run it
+ * @param value The value to write
+ * @returns The value as it appears in the CSV
+ */
+const toCsvValue = (value: TCsvValue): string => {
+  if (value === null) {
+    return "";
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write rows as CSV, with a header row first
+ * @param headers The name of each column
+ * @param rows The values for each row, in the same order as the headers
+ * @returns The CSV text, with rows separated by CRLF
+ */
+export const toCsv = (headers: string[], rows: TCsvValue[][]): string => {
+  return [headers, ...rows]
+    .map((row) => row.map(toCsvValue).join(","))
+    .join("\r\n");
+};
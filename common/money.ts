@@ -0,0 +1,126 @@
+/*
+ * Money is worked out in whole minor units (pence), so adding up prices never
+ * drifts the way floating point does. Amounts are stored as exact decimals,
+ * and returned from the API as numbers in major units with at most two
+ * decimal places. The rounding rules are:
+ *
+ * - Anything calculated from a rate, such as a percentage off, tax, or a cost
+ *   per kg, is rounded to the nearest minor unit, with halves rounded away
+ *   from zero. Each is rounded once, on the line or order it applies to.
+ * - When one amount is shared across several lines, such as a discount code or
+ *   a bundle saving, the lines get their share rounded down and the minor
+ *   units left over go to the lines with the largest remainders, earliest line
+ *   first on ties. The shares always add up to the amount exactly.
+ * - Totals are only ever sums of amounts that have already been rounded, so a
+ *   total always matches its breakdown.
+ */
+
+// A whole number of minor units, e.g. pence
+export type TMoney = number;
+
+// The number of minor units in each major unit
+const MINOR_UNITS_PER_MAJOR = 100;
+
+/**
+ * SQL reading a money or numeric expression as a number of major units, rounded
+ * to the minor unit. Unlike casting through money, this does not depend on the
+ * database's locale
+ * @param expression The SQL expression holding the amount
+ * @returns The SQL for the amount
+ */
+export const majorUnitsSql = (expression: string): string =>
+  `round((${expression})::numeric, 2)::float8`;
+
+/**
+ * SQL reading a money or numeric expression as a whole number of minor units
+ * @param expression The SQL expression holding the amount
+ * @returns The SQL for the amount
+ */
+export const minorUnitsSql = (expression: string): string =>
+  `round((${expression})::numeric * ${MINOR_UNITS_PER_MAJOR})::integer`;
+
+/**
+ * Round a calculated amount to the nearest minor unit, halves away from zero
+ * @param amount The amount in minor units, possibly fractional
+ * @returns The rounded amount
+ */
+export const roundMoney = (amount: number): TMoney => {
+  // Multiplying by a rate can leave an amount a hair below a half, so allow
+  // for that before rounding
+  const rounded = Math.round(Math.abs(amount) + 1e-9);
+  return amount < 0 ? -rounded : rounded;
+};
+
+/**
+ * Convert an amount in major units to minor units
+ * @param amount The amount in major units, e.g. 12.99
+ * @returns The amount in minor units, e.g. 1299
+ */
+export const toMinorUnits = (amount: number): TMoney => {
+  return roundMoney(amount * MINOR_UNITS_PER_MAJOR);
+};
+
+/**
+ * Convert an amount in minor units to major units
+ * @param amount The amount in minor units, e.g. 1299
+ * @returns The amount in major units, e.g. 12.99
+ */
+export const toMajorUnits = (amount: TMoney): number => {
+  return amount / MINOR_UNITS_PER_MAJOR;
+};
+
+/**
+ * Write an amount as an exact decimal, for storing it or printing it
+ * @param amount The amount in minor units
+ * @returns The amount in major units with two decimal places, e.g. "12.99"
+ */
+export const formatMoney = (amount: TMoney): string => {
+  const sign = amount < 0 ? "-" : "";
+  const minorUnits = Math.abs(amount);
+  const majorUnits = Math.floor(minorUnits / MINOR_UNITS_PER_MAJOR);
+  const remainder = String(minorUnits % MINOR_UNITS_PER_MAJOR).padStart(2, "0");
+  return `${sign}${majorUnits}.${remainder}`;
+};
+
+/**
+ * Add up amounts
+ * @param amounts The amounts in minor units
+ * @returns The total in minor units
+ */
+export const sumMoney = (amounts: TMoney[]): TMoney => {
+  return amounts.reduce((prev, current) => prev + current, 0);
+};
+
+/**
+ * Share an amount across several parts by their weights. Each part gets its
+ * share rounded down, then the minor units left over go to the parts with the
+ * largest remainders, earliest part first on ties
+ * @param amount The amount to share in minor units, at least 0
+ * @param weights The weight of each part as a whole number, at least 0, such
+ * as what is left to pay on each line in minor units
+ * @returns The share for each part, in the same order as the weights. The
+ * shares add up to the amount, or are all 0 if every weight is 0
+ */
+export const allocateMoney = (amount: TMoney, weights: number[]): TMoney[] => {
+  const totalWeight = sumMoney(weights);
+  if (totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+  const shares = weights.map((weight) =>
+    Math.floor((amount * weight) / totalWeight)
+  );
+  let leftOver = amount - sumMoney(shares);
+  weights
+    .map((weight, index) => ({
+      index,
+      remainder: (amount * weight) % totalWeight,
+    }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftOver > 0 && weights[index] > 0) {
+        shares[index] += 1;
+        leftOver -= 1;
+      }
+    });
+  return shares;
+};
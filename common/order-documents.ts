@@ -0,0 +1,206 @@
+import PDFDocument from "pdfkit";
+import { Writable } from "stream";
+import { formatMoney, toMinorUnits } from "./money";
+
+type TDocumentAddress = {
+  firstAddressLine: string;
+  secondAddressLine?: string;
+  countryState: string;
+  areaCode: string;
+  countryName?: string;
+};
+
+type TDocumentLine = {
+  productName: string;
+  quantity: number;
+  price: number;
+  taxRate: number;
+  tax: number;
+};
+
+export type TInvoiceDocument = {
+  invoiceNumber: number;
+  issuedOn: Date;
+  orderId: number;
+  placedOn: Date;
+  shippingAddress: TDocumentAddress | null;
+  lines: TDocumentLine[];
+  // The promotions applied, with the amount each took off
+  promotions: { name: string; amount: number }[];
+  // The discount codes used, with the amount each took off. The amount is
+  // null for orders placed before it was recorded
+  discountCodes: { code: string; amount: number | null }[];
+  total: number;
+  tax: number;
+  pricesIncludeTax: boolean;
+  shippingMethod: string | null;
+  shipping: number;
+  pricePaid: number;
+};
+
+export type TCreditNoteDocument = {
+  creditNoteNumber: number;
+  issuedOn: Date;
+  orderId: number;
+  invoiceNumber: number;
+  reason: string;
+  amount: number;
+};
+
+/**
+ * Format an amount of money for a document
+ * @param amount The amount to format in major units
+ * @returns The amount to two decimal places
+ */
+const formatAmount = (amount: number): string => {
+  return formatMoney(toMinorUnits(amount));
+};
+
+/**
+ * Write the heading shared by every order document
+ * @param doc The document to write to
+ * @param title The title of the document
+ * @param details Label and value pairs shown under the title
+ */
+const writeDocumentHeading = (
+  doc: PDFKit.PDFDocument,
+  title: string,
+  details: [string, string][]
+) => {
+  doc.fontSize(20).text("chop", { align: "right" });
+  doc.fontSize(16).text(title);
+  doc.moveDown(0.5).fontSize(10);
+  details.forEach(([label, value]) => {
+    doc.text(`${label}: ${value}`);
+  });
+  doc.moveDown();
+};
+
+/**
+ * Write an invoice for an order as a PDF
+ * @param invoice The invoice to write
+ * @param output The stream the PDF is written to
+ */
+export const writeInvoicePdf = (
+  invoice: TInvoiceDocument,
+  output: Writable
+) => {
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  doc.pipe(output);
+
+  writeDocumentHeading(doc, "Invoice", [
+    ["Invoice number", `INV-${invoice.invoiceNumber}`],
+    ["Issued on", invoice.issuedOn.toDateString()],
+    ["Order", `${invoice.orderId}`],
+    ["Order placed on", invoice.placedOn.toDateString()],
+  ]);
+
+  if (invoice.shippingAddress !== null) {
+    const address = invoice.shippingAddress;
+    doc.fontSize(12).text("Shipping address");
+    doc.fontSize(10);
+    [
+      address.firstAddressLine,
+      address.secondAddressLine,
+      address.countryState,
+      address.areaCode,
+      address.countryName,
+    ]
+      .filter((line) => line !== undefined && line !== null && line !== "")
+      .forEach((line) => doc.text(line as string));
+    doc.moveDown();
+  }
+
+  doc.fontSize(12).text("Items");
+  doc.fontSize(10);
+  invoice.lines.forEach((line) => {
+    doc.text(
+      `${line.quantity} x ${line.productName} @ ${formatAmount(
+        line.price
+      )} = ${formatAmount(line.price * line.quantity)} (tax ${
+        line.taxRate
+      }%: ${formatAmount(line.tax)})`
+    );
+  });
+  doc.moveDown();
+
+  doc.text(`Subtotal: ${formatAmount(invoice.total)}`, { align: "right" });
+  invoice.promotions.forEach((promotion) => {
+    doc.text(
+      `Promotion (${promotion.name}): -${formatAmount(promotion.amount)}`,
+      { align: "right" }
+    );
+  });
+  if (invoice.discountCodes.every((discount) => discount.amount !== null)) {
+    invoice.discountCodes.forEach((discount) => {
+      doc.text(
+        `Discount code (${discount.code}): -${formatAmount(discount.amount!)}`,
+        { align: "right" }
+      );
+    });
+  } else {
+    // Older orders only have the total discount, which is what is left once
+    // tax added on top of the prices, shipping and promotions are taken out
+    const taxAdded = invoice.pricesIncludeTax ? 0 : invoice.tax;
+    const promotionsTotal = invoice.promotions.reduce(
+      (prev, promotion) => prev + promotion.amount,
+      0
+    );
+    doc.text(
+      `Discount codes (${invoice.discountCodes
+        .map((discount) => discount.code)
+        .join(", ")}): -${formatAmount(
+        invoice.total +
+          taxAdded +
+          invoice.shipping -
+          promotionsTotal -
+          invoice.pricePaid
+      )}`,
+      { align: "right" }
+    );
+  }
+  if (invoice.shippingMethod !== null) {
+    doc.text(
+      `Shipping (${invoice.shippingMethod}): ${formatAmount(invoice.shipping)}`,
+      { align: "right" }
+    );
+  }
+  doc.text(
+    invoice.pricesIncludeTax
+      ? `Includes tax: ${formatAmount(invoice.tax)}`
+      : `Tax: ${formatAmount(invoice.tax)}`,
+    { align: "right" }
+  );
+  doc.fontSize(12).text(`Amount paid: ${formatAmount(invoice.pricePaid)}`, {
+    align: "right",
+  });
+
+  doc.end();
+};
+
+/**
+ * Write a credit note for an order as a PDF
+ * @param creditNote The credit note to write
+ * @param output The stream the PDF is written to
+ */
+export const writeCreditNotePdf = (
+  creditNote: TCreditNoteDocument,
+  output: Writable
+) => {
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  doc.pipe(output);
+
+  writeDocumentHeading(doc, "Credit note", [
+    ["Credit note number", `CN-${creditNote.creditNoteNumber}`],
+    ["Issued on", creditNote.issuedOn.toDateString()],
+    ["Order", `${creditNote.orderId}`],
+    ["Against invoice", `INV-${creditNote.invoiceNumber}`],
+    ["Reason", creditNote.reason],
+  ]);
+
+  doc.fontSize(12).text(`Amount credited: ${formatAmount(creditNote.amount)}`, {
+    align: "right",
+  });
+
+  doc.end();
+};
@@ -0,0 +1,288 @@
+import {
+  EDiscountScopeType,
+  EDiscountType,
+  TDiscountCodeValidation,
+  TDiscountScope,
+} from "../models/discount.models";
+import { TPromotion } from "../models/promotions.models";
+import { applyPromotions, TAppliedPromotion } from "./promotions";
+import {
+  allocateMoney,
+  roundMoney,
+  sumMoney,
+  TMoney,
+  toMinorUnits,
+} from "./money";
+
+export type TPricedLine = {
+  // The quantity of the product being bought
+  quantity: number;
+  // The price of a single item of the product in minor units
+  pricePerItem: TMoney;
+  // The weight of a single item of the product in kg, if known
+  weightKg?: number;
+};
+
+// How the cost of a shipping method is worked out
+export enum EShippingRateType {
+  // The base cost, whatever the order weighs
+  flat = "flat",
+  // The base cost plus a cost for each kg the order weighs
+  weight = "weight",
+}
+
+// The amounts are in major units, as they are stored
+export type TShippingRate = {
+  rateType: EShippingRateType;
+  // The cost every order pays
+  baseCost: number;
+  // The cost for each kg, only used by weight based rates
+  costPerKg: number;
+  // Orders costing at least this much after discounts ship for free, null if never free
+  freeOver: number | null;
+};
+
+export type TDiscountEffect = {
+  // The discount code used
+  code: string;
+  // How the code takes money off the order
+  discountType: EDiscountType;
+  // The percentage taken off the subtotal, 0 for fixed amount codes
+  percent: number;
+  // The amount taken off the order in minor units
+  amount: TMoney;
+};
+
+/**
+ * Add up the price of every line in an order
+ * @param lines The lines in the order
+ * @returns The order subtotal before discounts in minor units
+ */
+export const getSubtotalForLines = (lines: TPricedLine[]): TMoney => {
+  return sumMoney(lines.map((line) => line.pricePerItem * line.quantity));
+};
+
+export type TOrderLine = TPricedLine & {
+  // The id of the product
+  productId: number;
+  // The id of the base product the product is a variant of
+  baseProductId: number;
+  // The id of the product's brand, null if it has none
+  brandId: number | null;
+  // The ids of the product types assigned to the base product
+  productTypeIds: number[];
+};
+
+/**
+ * Check if a line in an order is covered by a discount code's scopes
+ * @param line The line in the order
+ * @param scopes The scopes for the discount code
+ * @returns True if the code can be used on the line
+ */
+export const isLineInDiscountScope = (
+  line: TOrderLine,
+  scopes: TDiscountScope[]
+): boolean => {
+  const matches = (scope: TDiscountScope) => {
+    switch (scope.scopeType) {
+      case EDiscountScopeType.product:
+        return line.productId === scope.targetId;
+      case EDiscountScopeType.baseProduct:
+        return line.baseProductId === scope.targetId;
+      case EDiscountScopeType.brand:
+        return line.brandId === scope.targetId;
+      case EDiscountScopeType.productType:
+        return line.productTypeIds.includes(scope.targetId);
+    }
+  };
+  const includedScopes = scopes.filter((scope) => !scope.excluded);
+  return (
+    (includedScopes.length <= 0 || includedScopes.some(matches)) &&
+    !scopes.some((scope) => scope.excluded && matches(scope))
+  );
+};
+
+type TOrderDiscounts = {
+  // The amount taken off by each code
+  discounts: TDiscountEffect[];
+  // The amount taken off each line by all the codes, in the same order as the lines
+  lineDiscounts: TMoney[];
+};
+
+/**
+ * Work out how much each discount code takes off an order. Codes only take
+ * money off the lines in their scope. Percentage codes are taken from the
+ * price of those lines after promotions, so stacked codes do not compound,
+ * and the codes never take off more than the lines cost between them. Each
+ * code's amount is rounded to the minor unit, then shared across its lines by
+ * what is left to pay on them
+ * @param lines The lines in the order
+ * @param discountCodes The discount codes to apply, already validated for use
+ * @param promotionDiscounts The amount promotions take off each line in minor units
+ * @returns The amount taken off by each code and from each line
+ */
+export const getDiscountEffects = (
+  lines: TOrderLine[],
+  discountCodes: TDiscountCodeValidation[],
+  promotionDiscounts: TMoney[]
+): TOrderDiscounts => {
+  const lineTotals = lines.map(
+    (line, index) =>
+      line.pricePerItem * line.quantity - promotionDiscounts[index]
+  );
+  const lineDiscounts = lines.map(() => 0);
+  const discounts = discountCodes.map((code) => {
+    const inScope = lines.map((line) =>
+      isLineInDiscountScope(line, code.scopes)
+    );
+    const scopeSubtotal = sumMoney(
+      lineTotals.filter((_, index) => inScope[index])
+    );
+    const lineRemaining = lineTotals.map((lineTotal, index) =>
+      inScope[index] ? lineTotal - lineDiscounts[index] : 0
+    );
+    const amount = Math.min(
+      sumMoney(lineRemaining),
+      code.discountType === EDiscountType.fixed
+        ? toMinorUnits(code.amountOff)
+        : roundMoney((code.percent * scopeSubtotal) / 100)
+    );
+    allocateMoney(amount, lineRemaining).forEach((share, index) => {
+      lineDiscounts[index] += share;
+    });
+    return {
+      code: code.code,
+      discountType: code.discountType,
+      percent: code.percent,
+      amount: amount,
+    };
+  });
+  return { discounts: discounts, lineDiscounts: lineDiscounts };
+};
+
+/**
+ * Work out the cost of shipping an order
+ * @param rate The rate for the chosen shipping method
+ * @param weightKg The weight of the whole order in kg
+ * @param goodsTotal The cost of the goods in the order after discounts in minor units
+ * @returns The cost of shipping in minor units, with the weight based part
+ * rounded to the minor unit
+ */
+export const getShippingCost = (
+  rate: TShippingRate,
+  weightKg: number,
+  goodsTotal: TMoney
+): TMoney => {
+  if (rate.freeOver !== null && goodsTotal >= toMinorUnits(rate.freeOver)) {
+    return 0;
+  }
+  return rate.rateType === EShippingRateType.weight
+    ? toMinorUnits(rate.baseCost) +
+        roundMoney(toMinorUnits(rate.costPerKg) * weightKg)
+    : toMinorUnits(rate.baseCost);
+};
+
+/**
+ * Add up the weight of every line in an order
+ * @param lines The lines in the order
+ * @returns The weight of the order in kg, lines with no weight count as 0
+ */
+export const getWeightForLines = (lines: TPricedLine[]): number => {
+  return lines.reduce(
+    (prevWeight, currentItem) =>
+      prevWeight + (currentItem.weightKg ?? 0) * currentItem.quantity,
+    0
+  );
+};
+
+export type TTaxedLine = TOrderLine & {
+  // The tax rate for the line as a percentage
+  taxRate: number;
+};
+
+// Every amount is in minor units
+export type TOrderPricing = {
+  // The price of all the lines before promotions and discounts
+  subtotal: TMoney;
+  // The promotions that apply to the order
+  promotions: TAppliedPromotion[];
+  // The amount each discount code takes off the order
+  discounts: TDiscountEffect[];
+  // The amount taken off each line by promotions and discount codes, in the same order as the lines
+  lineDiscounts: TMoney[];
+  // The tax for each line, in the same order as the lines
+  lineTaxes: TMoney[];
+  // The tax for the whole order
+  tax: TMoney;
+  // True if the line prices already include tax
+  pricesIncludeTax: boolean;
+  // The cost of shipping the order
+  shipping: TMoney;
+  // The amount to be paid for the order
+  total: TMoney;
+};
+
+/**
+ * Work out the full price of an order. Promotions are applied first, then
+ * discount codes on what is left. Both are shared across the lines they apply
+ * to, so tax is only charged on what is actually paid for each line. Tax is
+ * rounded to the minor unit on each line, and the order's tax is the sum of
+ * the lines, so the total always matches the breakdown
+ * @param lines The lines in the order, with their tax rates
+ * @param promotions The active promotions
+ * @param discountCodes The discount codes to apply, already validated for use
+ * @param pricesIncludeTax True if the line prices already include tax,
+ * false if tax is added on top of them
+ * @param shippingRate The rate for the chosen shipping method, null if none
+ * has been chosen yet. Shipping is not taxed
+ * @returns The price breakdown for the order
+ */
+export const priceOrder = (
+  lines: TTaxedLine[],
+  promotions: TPromotion[],
+  discountCodes: TDiscountCodeValidation[],
+  pricesIncludeTax: boolean,
+  shippingRate: TShippingRate | null = null
+): TOrderPricing => {
+  const subtotal = getSubtotalForLines(lines);
+  const promotionEffects = applyPromotions(lines, promotions);
+  const codeEffects = getDiscountEffects(
+    lines,
+    discountCodes,
+    promotionEffects.lineDiscounts
+  );
+  const lineDiscounts = lines.map(
+    (_, index) =>
+      promotionEffects.lineDiscounts[index] + codeEffects.lineDiscounts[index]
+  );
+  const discountedSubtotal = subtotal - sumMoney(lineDiscounts);
+
+  const lineTaxes = lines.map((line, index) => {
+    const linePaid = line.pricePerItem * line.quantity - lineDiscounts[index];
+    return roundMoney(
+      pricesIncludeTax
+        ? (linePaid * line.taxRate) / (100 + line.taxRate)
+        : (linePaid * line.taxRate) / 100
+    );
+  });
+  const tax = sumMoney(lineTaxes);
+  const goodsTotal = pricesIncludeTax
+    ? discountedSubtotal
+    : discountedSubtotal + tax;
+  const shipping =
+    shippingRate !== null
+      ? getShippingCost(shippingRate, getWeightForLines(lines), goodsTotal)
+      : 0;
+
+  return {
+    subtotal: subtotal,
+    promotions: promotionEffects.promotions,
+    discounts: codeEffects.discounts,
+    lineDiscounts: lineDiscounts,
+    lineTaxes: lineTaxes,
+    tax: tax,
+    pricesIncludeTax: pricesIncludeTax,
+    shipping: shipping,
+    total: goodsTotal + shipping,
+  };
+};
@@ -0,0 +1,97 @@
+import { EAccountTypes } from "../security/security";
+
+// The names of the statuses found in the order_statuses table
+export enum EOrderStatus {
+  // Created at checkout with its stock taken, while the payment is taken.
+  // Removed if the payment fails or the order is left for too long
+  pendingPayment = "Pending payment",
+  // The payment was captured, so the order is confirmed
+  placed = "Placed",
+  packed = "Packed",
+  partiallyShipped = "Partially shipped",
+  shipped = "Shipped",
+  delivered = "Delivered",
+  cancelled = "Cancelled",
+}
+
+type TOrderStatusTransition = {
+  from: EOrderStatus;
+  to: EOrderStatus;
+};
+
+/**
+ * The status changes each account type is allowed to make to an order.
+ * Any change not listed is rejected
+ */
+const ORDER_STATUS_TRANSITIONS: Map<EAccountTypes, TOrderStatusTransition[]> =
+  new Map([
+    [
+      EAccountTypes.customer,
+      [{ from: EOrderStatus.placed, to: EOrderStatus.cancelled }],
+    ],
+    [
+      EAccountTypes.warehouse,
+      [
+        { from: EOrderStatus.placed, to: EOrderStatus.packed },
+        { from: EOrderStatus.packed, to: EOrderStatus.placed },
+        { from: EOrderStatus.packed, to: EOrderStatus.shipped },
+        { from: EOrderStatus.packed, to: EOrderStatus.partiallyShipped },
+        { from: EOrderStatus.partiallyShipped, to: EOrderStatus.shipped },
+      ],
+    ],
+    [
+      EAccountTypes.support,
+      [
+        { from: EOrderStatus.shipped, to: EOrderStatus.delivered },
+        { from: EOrderStatus.placed, to: EOrderStatus.cancelled },
+        { from: EOrderStatus.packed, to: EOrderStatus.cancelled },
+      ],
+    ],
+    [
+      EAccountTypes.sales,
+      [{ from: EOrderStatus.shipped, to: EOrderStatus.delivered }],
+    ],
+    [
+      EAccountTypes.admin,
+      [
+        { from: EOrderStatus.placed, to: EOrderStatus.packed },
+        { from: EOrderStatus.packed, to: EOrderStatus.placed },
+        { from: EOrderStatus.packed, to: EOrderStatus.shipped },
+        { from: EOrderStatus.packed, to: EOrderStatus.partiallyShipped },
+        { from: EOrderStatus.partiallyShipped, to: EOrderStatus.shipped },
+        { from: EOrderStatus.shipped, to: EOrderStatus.delivered },
+        { from: EOrderStatus.placed, to: EOrderStatus.cancelled },
+        { from: EOrderStatus.packed, to: EOrderStatus.cancelled },
+      ],
+    ],
+  ]);
+
+/**
+ * Get all the status changes an account type is allowed to make
+ * @param accountType The type of account making the change
+ * @returns A list of allowed status changes, empty if the account type
+ * cannot change an order's status
+ */
+export const getOrderStatusTransitionsForAccountType = (
+  accountType: EAccountTypes
+): TOrderStatusTransition[] => {
+  return ORDER_STATUS_TRANSITIONS.get(accountType) ?? [];
+};
+
+/**
+ * Check if an account type is allowed to move an order between two statuses
+ * @param accountType The type of account making the change
+ * @param currentStatus The name of the status the order is currently in
+ * @param newStatus The name of the status to move the order to
+ * @returns True if the change is allowed, false otherwise
+ */
+export const isOrderStatusTransitionAllowed = (
+  accountType: EAccountTypes,
+  currentStatus: string,
+  newStatus: string
+): boolean => {
+  return getOrderStatusTransitionsForAccountType(accountType).some(
+    (transition) =>
+      transition.from === currentStatus && transition.to === newStatus
+  );
+};
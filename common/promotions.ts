@@ -0,0 +1,251 @@
+import { EPromotionType, TPromotion } from "../models/promotions.models";
+import { isLineInDiscountScope, TOrderLine } from "./order-pricing";
+import {
+  allocateMoney,
+  roundMoney,
+  sumMoney,
+  TMoney,
+  toMinorUnits,
+} from "./money";
+
+export type TAppliedPromotion = {
+  // The id of the promotion
+  promotionId: number;
+  // The name of the promotion
+  name: string;
+  // How the promotion takes money off the basket
+  promotionType: EPromotionType;
+  // The number of groups or bundles the promotion was applied to
+  timesApplied: number;
+  // The amount the promotion takes off the basket in minor units
+  amount: TMoney;
+  // The products the promotion used, with the number of items of each
+  products: { productId: number; quantity: number }[];
+};
+
+export type TPromotionEffects = {
+  // The promotions applied, in the order they were chosen
+  promotions: TAppliedPromotion[];
+  // The amount taken off each line by the promotions, in the same order as the lines
+  lineDiscounts: TMoney[];
+};
+
+type TPromotionEvaluation = {
+  // The number of groups or bundles the promotion applies to
+  timesApplied: number;
+  // The amount the promotion takes off, in the same order as the lines
+  lineDiscounts: TMoney[];
+  // The number of items the promotion uses from each line
+  usedQuantities: number[];
+};
+
+/**
+ * Work out what a buyXGetY promotion takes off the items that are left.
+ * Matching items are sorted from most to least expensive and split into
+ * groups, with the cheapest items in each group discounted. The discount on
+ * each line is rounded to the minor unit
+ * @param lines The lines in the basket
+ * @param available The number of items on each line no other promotion has used
+ * @param promotion The promotion
+ * @returns What the promotion takes off each line
+ */
+const evaluateBuyXGetY = (
+  lines: TOrderLine[],
+  available: number[],
+  promotion: TPromotion
+): TPromotionEvaluation => {
+  const usedQuantities = lines.map(() => 0);
+  const discountedQuantities = lines.map(() => 0);
+  const groupSize = promotion.buyQuantity + promotion.getQuantity;
+  if (promotion.getQuantity <= 0 || groupSize <= 0) {
+    return {
+      timesApplied: 0,
+      lineDiscounts: lines.map(() => 0),
+      usedQuantities,
+    };
+  }
+
+  // One entry per item, with ties broken by product id so the result is always the same
+  const items = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => isLineInDiscountScope(line, promotion.scopes))
+    .flatMap(({ line, index }) =>
+      Array.from({ length: available[index] }, () => index)
+    )
+    .sort(
+      (a, b) =>
+        lines[b].pricePerItem - lines[a].pricePerItem ||
+        lines[a].productId - lines[b].productId
+    );
+  const timesApplied = Math.floor(items.length / groupSize);
+  items.slice(0, timesApplied * groupSize).forEach((index, position) => {
+    usedQuantities[index] += 1;
+    if (position % groupSize >= promotion.buyQuantity) {
+      discountedQuantities[index] += 1;
+    }
+  });
+  const lineDiscounts = lines.map((line, index) =>
+    roundMoney(
+      (line.pricePerItem *
+        discountedQuantities[index] *
+        promotion.getPercentOff) /
+        100
+    )
+  );
+  return { timesApplied, lineDiscounts, usedQuantities };
+};
+
+/**
+ * Work out what a bundle promotion takes off the items that are left. Each
+ * bundle's saving is shared across its items by their price, to the minor unit
+ * @param lines The lines in the basket
+ * @param available The number of items on each line no other promotion has used
+ * @param promotion The promotion
+ * @returns What the promotion takes off each line
+ */
+const evaluateBundle = (
+  lines: TOrderLine[],
+  available: number[],
+  promotion: TPromotion
+): TPromotionEvaluation => {
+  const lineDiscounts = lines.map(() => 0);
+  const usedQuantities = lines.map(() => 0);
+  const bundleLines = promotion.bundleItems.map((item) => ({
+    item,
+    index: lines.findIndex((line) => line.productId === item.productId),
+  }));
+  if (
+    bundleLines.length <= 0 ||
+    bundleLines.some(({ index, item }) => index < 0 || item.quantity <= 0)
+  ) {
+    return { timesApplied: 0, lineDiscounts, usedQuantities };
+  }
+
+  const timesApplied = Math.min(
+    ...bundleLines.map(({ item, index }) =>
+      Math.floor(available[index] / item.quantity)
+    )
+  );
+  const bundleLineTotals = bundleLines.map(
+    ({ item, index }) => lines[index].pricePerItem * item.quantity
+  );
+  const saving =
+    sumMoney(bundleLineTotals) - toMinorUnits(promotion.bundlePrice);
+  if (timesApplied <= 0 || saving <= 0) {
+    return { timesApplied: 0, lineDiscounts, usedQuantities };
+  }
+  const shares = allocateMoney(saving * timesApplied, bundleLineTotals);
+  bundleLines.forEach(({ item, index }, position) => {
+    usedQuantities[index] += item.quantity * timesApplied;
+    lineDiscounts[index] += shares[position];
+  });
+  return { timesApplied, lineDiscounts, usedQuantities };
+};
+
+type TPromotionChoice = {
+  // The promotions chosen, in the order they are applied
+  promotions: TAppliedPromotion[];
+  // The amount taken off each line by the promotions chosen
+  lineDiscounts: TMoney[];
+  // The total the promotions chosen take off
+  amount: TMoney;
+};
+
+/**
+ * Find the set of promotions saving the most on the items that are left, by
+ * trying each promotion that saves anything as the next one applied. Each
+ * promotion is applied to as many groups or bundles as it can. Only a strictly
+ * bigger saving replaces the best found, so ties go to the set applying the
+ * oldest promotions first
+ * @param lines The lines in the basket
+ * @param available The number of items on each line no promotion has used yet
+ * @param remaining The promotions not applied yet, oldest first
+ * @param searched The best choice already found for each state, so no state is
+ * searched twice
+ * @returns The best choice of promotions for the items that are left
+ */
+const findBestPromotions = (
+  lines: TOrderLine[],
+  available: number[],
+  remaining: TPromotion[],
+  searched: Map<string, TPromotionChoice>
+): TPromotionChoice => {
+  const state = `${remaining.map((promotion) => promotion.id)}|${available}`;
+  const searchedChoice = searched.get(state);
+  if (searchedChoice !== undefined) {
+    return searchedChoice;
+  }
+
+  let best: TPromotionChoice = {
+    promotions: [],
+    lineDiscounts: lines.map(() => 0),
+    amount: 0,
+  };
+  remaining.forEach((promotion) => {
+    const evaluation =
+      promotion.promotionType === EPromotionType.bundle
+        ? evaluateBundle(lines, available, promotion)
+        : evaluateBuyXGetY(lines, available, promotion);
+    const amount = sumMoney(evaluation.lineDiscounts);
+    if (amount <= 0) {
+      return;
+    }
+    const rest = findBestPromotions(
+      lines,
+      available.map(
+        (quantity, index) => quantity - evaluation.usedQuantities[index]
+      ),
+      remaining.filter((other) => other.id !== promotion.id),
+      searched
+    );
+    if (amount + rest.amount > best.amount) {
+      best = {
+        promotions: [
+          {
+            promotionId: promotion.id,
+            name: promotion.name,
+            promotionType: promotion.promotionType,
+            timesApplied: evaluation.timesApplied,
+            amount: amount,
+            products: evaluation.usedQuantities.flatMap((used, index) =>
+              used > 0
+                ? [{ productId: lines[index].productId, quantity: used }]
+                : []
+            ),
+          },
+          ...rest.promotions,
+        ],
+        lineDiscounts: evaluation.lineDiscounts.map(
+          (discount, index) => discount + rest.lineDiscounts[index]
+        ),
+        amount: amount + rest.amount,
+      };
+    }
+  });
+  searched.set(state, best);
+  return best;
+};
+
+/**
+ * Work out which promotions apply to a basket. Each item can only be used by
+ * one promotion, so promotions sharing products conflict. Every order of the
+ * promotions that save anything is tried, and the set saving the most in total
+ * is applied. Only a few promotions apply to any one basket, so the search
+ * stays small. Ties go to the oldest promotions, so the same basket always
+ * gets the same result
+ * @param lines The lines in the basket
+ * @param promotions The active promotions
+ * @returns The promotions applied and what they take off each line
+ */
+export const applyPromotions = (
+  lines: TOrderLine[],
+  promotions: TPromotion[]
+): TPromotionEffects => {
+  const best = findBestPromotions(
+    lines,
+    lines.map((line) => line.quantity),
+    [...promotions].sort((a, b) => a.id - b.id),
+    new Map()
+  );
+  return { promotions: best.promotions, lineDiscounts: best.lineDiscounts };
+};
@@ -4,6 +4,8 @@ export enum EResponseStatusCodes {
   BAD_REQUEST_CODE = 400,
   UNAUTHORIZED_CODE = 401,
   CONFLICT_CODE = 409,
+  PAYMENT_REQUIRED_CODE = 402,
+  BAD_GATEWAY_CODE = 502,
 }
 
 export enum ETextResponse {
@@ -36,6 +38,7 @@ export enum ETextResponse {
   PRODUCT_UPDATED = "Product updated",
   PRODUCT_DELETED = "Product deleted",
   PRODUCT_PRICE_SET = "Product price set",
+  PRODUCT_WEIGHT_INVALID = "Product weight must be a number of kg, or null",
   // Product favourites
   PRODUCT_FAVOURITE_SET = "Product marked as favourite",
   PRODUCT_ALREADY_FAVOURITE = "Product already marked as favourite",
@@ -62,6 +65,7 @@ export enum ETextResponse {
   // Customer basket
   PRODUCT_ALREADY_IN_BASKET = "Product already in basket",
   PRODUCT_NOT_IN_BASKET = "Product not in basket",
+  BASKET_COMMAND_INVALID = "Basket command invalid",
   // Authentication
   INVALID_AUTH_TOKEN = "Invalid token",
   ACCOUNT_DETAILS_INVALID = "Account details invalid",
@@ -88,6 +92,70 @@ export enum ETextResponse {
   // Orders
   BASKET_INVALID_FOR_ORDER = "Basket contains products no longer available",
   ORDER_CONFIRMED = "Order placed",
+  IDEMPOTENCY_KEY_INVALID = "Idempotency key invalid",
+  IDEMPOTENCY_KEY_REUSED = "Idempotency key was already used for a different checkout",
+  PAYMENT_DECLINED = "Payment was declined",
+  PAYMENT_FAILED = "Payment could not be taken, no order was placed",
+  CHECKOUT_IN_PROGRESS = "Checkout with this idempotency key is still taking payment",
+  SHIPPING_METHOD_INVALID = "Shipping method is not available for the shipping address",
+  STOCK_RESERVATION_RELEASED = "Stock held for checkout released",
+  STOCK_RESERVATION_NOT_EXIST = "No stock is held for checkout",
+  ORDER_ID_NOT_EXIST = "Order does not exist",
+  ORDER_STATUS_ID_NOT_EXIST = "Order status does not exist",
+  ORDER_STATUS_UPDATED = "Order status updated",
+  ORDER_STATUS_CHANGE_NOT_ALLOWED = "Order cannot be moved to that status",
+  ORDER_CANCELLED = "Order cancelled",
+  ORDER_CANNOT_BE_CANCELLED = "Order can no longer be cancelled",
+  ORDER_SEARCH_INVALID = "Order search filters invalid",
+  ORDER_SEARCH_CURSOR_INVALID = "Order search cursor invalid, or made for a different sort",
+  // Fulfilment
+  SHIPMENT_CREATED = "Shipment created",
+  SHIPMENT_ITEMS_INVALID = "Items are not in the order or exceed the quantity remaining",
+  SHIPMENT_ORDER_NOT_PACKED = "Order must be packed before it can be shipped",
+  SHIPMENT_ID_NOT_EXIST = "Shipment does not exist",
+  SHIPMENT_TRACKING_UPDATED = "Shipment tracking updated",
+  SHIPMENT_TRACKING_NOT_SET = "Shipment has no carrier tracking recorded",
+  TRACKING_EVENT_ADDED = "Tracking event added",
+  CARRIER_NOT_SUPPORTED = "Carrier is not supported",
+  // Invoices
+  CREDIT_NOTE_ID_NOT_EXIST = "Credit note does not exist",
+  // Order returns
+  RETURN_REQUESTED = "Return requested",
+  RETURN_ID_NOT_EXIST = "Return does not exist",
+  RETURN_ORDER_NOT_DELIVERED = "Only delivered orders can be returned",
+  RETURN_ITEMS_INVALID = "Items are not in the order or exceed the quantity ordered",
+  RETURN_STATUS_INVALID = "Return status invalid",
+  RETURN_STATUS_UPDATED = "Return status updated",
+  RETURN_STATUS_CHANGE_NOT_ALLOWED = "Return cannot be moved to that status",
+  // Shipping methods
+  SHIPPING_METHOD_CREATED = "Shipping method created",
+  SHIPPING_METHOD_UPDATED = "Shipping method updated",
+  SHIPPING_METHOD_DEACTIVATED = "Shipping method deactivated",
+  SHIPPING_METHOD_NOT_EXIST = "Shipping method does not exist",
+  SHIPPING_METHOD_DETAILS_INVALID = "Shipping method details invalid",
+  // Promotions
+  PROMOTION_CREATED = "Promotion created",
+  PROMOTION_UPDATED = "Promotion updated",
+  PROMOTION_DEACTIVATED = "Promotion deactivated",
+  PROMOTION_NOT_EXIST = "Promotion does not exist",
+  PROMOTION_DETAILS_INVALID = "Promotion details invalid",
+  // Tax rules
+  TAX_RULE_UPDATED = "Tax rule updated",
+  TAX_RULE_DELETED = "Tax rule deleted",
+  TAX_RULE_NOT_EXIST = "Country has no tax rule",
+  TAX_RULE_OR_PRODUCT_TYPE_NOT_EXIST = "Country has no tax rule, or product type does not exist",
+  TAX_RATE_INVALID = "Tax rate must be between 0 and 100",
   // Discount codes
   DISCOUNT_CODE_NOT_EXIST = "Discount code does not exist",
+  DISCOUNT_CODE_REJECTED = "Discount code cannot be used",
+  DISCOUNT_MINIMUM_SPEND_NOT_MET = "Basket is worth less than a discount code's minimum spend",
+  DISCOUNT_CODE_CREATED = "Discount code created",
+  DISCOUNT_CODE_UPDATED = "Discount code updated",
+  DISCOUNT_CODE_DEACTIVATED = "Discount code deactivated",
+  DISCOUNT_CODE_ALREADY_EXISTS = "Discount code already exists",
+  DISCOUNT_CODE_DETAILS_INVALID = "Discount code details invalid",
+  DISCOUNT_CODE_BATCH_NOT_EXIST = "Discount code batch does not exist",
+  DISCOUNT_CODE_BATCH_DEACTIVATED = "Discount code batch deactivated",
+  DISCOUNT_CODE_BATCH_DETAILS_INVALID = "Discount code batch details invalid",
+  DISCOUNT_REPORT_QUERY_INVALID = "Discount report query invalid",
 }
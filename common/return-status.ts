@@ -0,0 +1,62 @@
+import { EAccountTypes } from "../security/security";
+
+// The statuses a return request can be in
+export enum EReturnStatus {
+  requested = "Requested",
+  approved = "Approved",
+  rejected = "Rejected",
+  received = "Received",
+  refunded = "Refunded",
+}
+
+type TReturnStatusTransition = {
+  from: EReturnStatus;
+  to: EReturnStatus;
+};
+
+/**
+ * The status changes each account type is allowed to make to a return.
+ * Any change not listed is rejected
+ */
+const RETURN_STATUS_TRANSITIONS: Map<EAccountTypes, TReturnStatusTransition[]> =
+  new Map([
+    [
+      EAccountTypes.support,
+      [
+        { from: EReturnStatus.requested, to: EReturnStatus.approved },
+        { from: EReturnStatus.requested, to: EReturnStatus.rejected },
+        { from: EReturnStatus.received, to: EReturnStatus.refunded },
+      ],
+    ],
+    [
+      EAccountTypes.warehouse,
+      [{ from: EReturnStatus.approved, to: EReturnStatus.received }],
+    ],
+    [
+      EAccountTypes.admin,
+      [
+        { from: EReturnStatus.requested, to: EReturnStatus.approved },
+        { from: EReturnStatus.requested, to: EReturnStatus.rejected },
+        { from: EReturnStatus.approved, to: EReturnStatus.received },
+        { from: EReturnStatus.received, to: EReturnStatus.refunded },
+      ],
+    ],
+  ]);
+
+/**
+ * Check if an account type is allowed to move a return between two statuses
+ * @param accountType The type of account making the change
+ * @param currentStatus The status the return is currently in
+ * @param newStatus The status to move the return to
+ * @returns True if the change is allowed, false otherwise
+ */
+export const isReturnStatusTransitionAllowed = (
+  accountType: EAccountTypes,
+  currentStatus: string,
+  newStatus: string
+): boolean => {
+  return (RETURN_STATUS_TRANSITIONS.get(accountType) ?? []).some(
+    (transition) =>
+      transition.from === currentStatus && transition.to === newStatus
+  );
+};
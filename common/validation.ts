@@ -1,3 +1,5 @@
+import { EDiscountScopeType } from "../models/discount.models";
+
 export const isArrayOfNumbers = (possibleArrayOfNumbers: any): boolean => {
   return (
     Array.isArray(possibleArrayOfNumbers) &&
@@ -15,3 +17,58 @@ export const isArrayOfStrings = (possibleArrayOfStrings: any): boolean => {
     )
   );
 };
+
+export const isArrayOfProductQuantities = (
+  possibleArrayOfProductQuantities: any
+): boolean => {
+  return (
+    Array.isArray(possibleArrayOfProductQuantities) &&
+    possibleArrayOfProductQuantities.every(
+      (possibleProductQuantity) =>
+        typeof possibleProductQuantity === "object" &&
+        possibleProductQuantity !== null &&
+        typeof possibleProductQuantity.productId === "number" &&
+        Number.isInteger(possibleProductQuantity.quantity)
+    )
+  );
+};
+
+export const isArrayOfDiscountScopes = (
+  possibleArrayOfScopes: any
+): boolean => {
+  return (
+    Array.isArray(possibleArrayOfScopes) &&
+    possibleArrayOfScopes.every(
+      (possibleScope) =>
+        typeof possibleScope === "object" &&
+        possibleScope !== null &&
+        Object.values(EDiscountScopeType).includes(possibleScope.scopeType) &&
+        Number.isInteger(possibleScope.targetId) &&
+        (possibleScope.excluded === undefined ||
+          typeof possibleScope.excluded === "boolean")
+    )
+  );
+};
+
+export const isValidDate = (possibleDate: any): boolean => {
+  return (
+    typeof possibleDate === "string" && !Number.isNaN(Date.parse(possibleDate))
+  );
+};
+
+export const isUndefinedOrString = (possibleString: any): boolean => {
+  return possibleString === undefined || typeof possibleString === "string";
+};
+
+export const isUndefinedOrNumericString = (possibleNumber: any): boolean => {
+  return (
+    possibleNumber === undefined ||
+    (typeof possibleNumber === "string" &&
+      possibleNumber !== "" &&
+      !Number.isNaN(Number(possibleNumber)))
+  );
+};
+
+export const isUndefinedOrValidDate = (possibleDate: any): boolean => {
+  return possibleDate === undefined || isValidDate(possibleDate);
+};
@@ -1,4 +1,4 @@
-import { CookieOptions, Request, Response } from "express";
+import { Request, Response } from "express";
 import { v4 as uuidv4 } from "uuid";
 import {
   EAccountTypes,
@@ -16,13 +16,9 @@ import {
   getUserWithEmail,
   isAccountOfType,
 } from "../models/auth/auth.models";
-
-export const COOKIE_OPTIONS: CookieOptions = {
-  httpOnly: true,
-  domain: process.env.COOKIE_DOMAIN,
-  secure: process.env.NODE_ENV === "production",
-  sameSite: "lax",
-};
+import { mergeGuestBasketIntoCustomerBasket } from "../models/basket.models";
+import { sendBasketChangesToAllCustomerClients } from "../common/basket-updates";
+import { COOKIE_OPTIONS } from "../common/cookies";
 
 /**
  * Create an account
@@ -79,7 +75,8 @@ export const create_account_controller = (
 };
 
 /**
- * Login to an account
+ * Login to an account. When a customer logs in, the guest basket for their
+ * session is merged into their basket
  * @param req The request object
  * @param res The response object
  * @param accountTableType The enum for the table the account is attempting to login to
@@ -98,11 +95,35 @@ export const login_to_account_controller = async (
           .then((validated) => {
             if (validated) {
               isAccountOfType(accountTableType, account.id)
-                .then((accountOfType) => {
+                .then(async (accountOfType) => {
                   if (accountOfType.isAccountType) {
                     const accountType =
                       account_table_to_account_type(accountTableType);
                     if (accountType !== undefined) {
+                      if (
+                        accountType === EAccountTypes.customer &&
+                        typeof req.sessionId === "string"
+                      ) {
+                        // A failed merge is logged and leaves the guest basket to expire, rather than stopping the login
+                        const merged = await mergeGuestBasketIntoCustomerBasket(
+                          req.sessionId,
+                          accountOfType.accountTypeId
+                        ).catch((err) => {
+                          console.error(
+                            `Guest basket could not be merged for customer: ${accountOfType.accountTypeId}`,
+                            err
+                          );
+                          return false;
+                        });
+                        if (merged) {
+                          // Show the merged basket on the customer's open basket connections
+                          sendBasketChangesToAllCustomerClients(
+                            accountOfType.accountTypeId
+                          ).catch((err) => {
+                            console.error(err);
+                          });
+                        }
+                      }
                       res.cookie(
                         "auth",
                         createJWTForUser(
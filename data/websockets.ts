@@ -1,4 +1,22 @@
 import WebSocket from "ws";
 const basketWebSockets: Map<number, Map<string, WebSocket>> = new Map();
 
+export type TBasketSocketState = {
+  // Goes up by one for every change sent, so clients can tell if they missed one
+  version: number;
+  // The basket contents as last sent, product id to quantity
+  contents: Map<number, number>;
+  // Basket changes are worked out one at a time, in the order they were made
+  queue: Promise<unknown>;
+};
+
+// The basket last sent to each customer's basket connections, by customer id
+export const basketSocketStates: Map<number, TBasketSocketState> = new Map();
+
+// Customer order update connections, by customer id then session id
+export const orderWebSockets: Map<number, Map<string, WebSocket>> = new Map();
+
+// Staff connections for the feed of newly placed orders, by session id
+export const staffOrderWebSockets: Map<string, WebSocket> = new Map();
+
 export default basketWebSockets;
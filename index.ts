@@ -23,6 +23,15 @@ import basketRouter from "./routes/v1/basket.routes";
 import { TAccountAuth } from "./security/security";
 import { EResponseStatusCodes } from "./common/response-types";
 import discountRouter from "./routes/v1/discounts.routes";
+import orderReturnsRouter from "./routes/v1/order-returns.routes";
+import fulfilmentRouter from "./routes/v1/fulfilment.routes";
+import taxRouter from "./routes/v1/tax.routes";
+import shippingMethodRouter from "./routes/v1/shipping-methods.routes";
+import promotionRouter from "./routes/v1/promotions.routes";
+import { removeExpiredStockReservations } from "./models/stock-reservations.models";
+import { removeExpiredGuestBaskets } from "./models/basket.models";
+import { issuePendingCreditNotes } from "./models/invoices.models";
+import { removeStalePendingOrders } from "./models/orders.models";
 
 // Swagger Docs
 const swaggerSpecv1 = swaggerJSDoc({
@@ -118,7 +127,12 @@ app.use("/v1/basket", basketRouter);
 app.use("/v1/product-types", productTypeRouter);
 app.use("/v1/brands", brandRouter);
 app.use("/v1/images", imageRouter);
+app.use("/v1/orders/returns", orderReturnsRouter);
 app.use("/v1/orders", orderRouter);
+app.use("/v1/fulfilment", fulfilmentRouter);
+app.use("/v1/tax-rules", taxRouter);
+app.use("/v1/shipping-methods", shippingMethodRouter);
+app.use("/v1/promotions", promotionRouter);
 
 // Docs
 app.use(
@@ -142,7 +156,31 @@ const server = app.listen(port, () => {
   console.log(`[chop server]: Server is running on port: ${port}`);
 });
 
+// Expired stock holds no longer count against stock, but are cleared out regularly
+const stockReservationCleanup = setInterval(() => {
+  removeExpiredStockReservations().catch(() => {});
+}, 60 * 1000);
+
+// Guest baskets that have not been touched for a while are removed
+const guestBasketCleanup = setInterval(() => {
+  removeExpiredGuestBaskets().catch(() => {});
+}, 60 * 60 * 1000);
+
+// Orders that could not be finished after their payment are removed, giving back their stock
+const stalePendingOrderCleanup = setInterval(() => {
+  removeStalePendingOrders().catch(() => {});
+}, 5 * 60 * 1000);
+
+// Refunds the payment provider could not be reached for are tried again
+const pendingRefundRetry = setInterval(() => {
+  issuePendingCreditNotes().catch(() => {});
+}, 5 * 60 * 1000);
+
 server.on("close", () => {
   console.log("[chop server]: Server is exiting");
+  clearInterval(stockReservationCleanup);
+  clearInterval(guestBasketCleanup);
+  clearInterval(stalePendingOrderCleanup);
+  clearInterval(pendingRefundRetry);
   pool.end();
 });
@@ -117,6 +117,45 @@ export const getAllAddressesForCustomer = (
   });
 };
 
+/**
+ * Get a single shipping address for a customer
+ * @param customerId The id of the customer the address belongs to
+ * @param addressId The id of the address
+ * @returns A promise of a customer address or null if the address does not
+ * exist for the customer. Rejects on database errors
+ */
+export const getShippingAddress = (
+  customerId: number,
+  addressId: number
+): Promise<TCustomerAddress | null> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT 
+      shipping_addresses.id, 
+      area_code AS "areaCode", 
+      first_address_line AS "firstAddressLine", 
+      second_address_line AS "secondAddressLine", 
+      state AS "countryState", 
+      country_id AS "countryId", 
+      shipping_countries.name AS "countryName"
+    FROM shipping_addresses 
+    LEFT JOIN shipping_countries on shipping_countries.id = shipping_addresses.country_id
+    WHERE shipping_addresses.id = $1 AND customer_id = $2
+    `,
+      [addressId, customerId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rowCount > 0 ? (res.rows[0] as TCustomerAddress) : null);
+        }
+      }
+    );
+  });
+};
+
 /**
  * Set default shipping address for customer
  * @param customerId The id of the customer
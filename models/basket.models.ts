@@ -3,6 +3,12 @@ import {
   UNIQUE_CONSTRAINT_FAILED,
 } from "../common/postgresql-error-codes";
 import pool, { EDatabaseResponses, ICustomError } from "../data/data";
+import { reservedByOthersQuery } from "./stock-reservations.models";
+import { PRODUCT_SCOPE_COLUMNS } from "./discount.models";
+import { getActivePromotions } from "./promotions.models";
+import { applyPromotions, TAppliedPromotion } from "../common/promotions";
+import { TOrderLine } from "../common/order-pricing";
+import { minorUnitsSql, sumMoney, toMajorUnits } from "../common/money";
 
 type TCustomerBasketEntry = {
   productId: number;
@@ -168,3 +174,515 @@ export const clearBasket = (
     );
   });
 };
+
+// Why a product from an earlier order was not added to the basket
+export enum EReorderSkipReason {
+  // The product is no longer sold
+  unavailable = "unavailable",
+  // There is no more stock than is already in the basket
+  outOfStock = "outOfStock",
+}
+
+type TReorderedLine = {
+  productId: number;
+  productName: string;
+  // The quantity in the earlier order
+  orderedQuantity: number;
+  // The quantity added to the basket
+  addedQuantity: number;
+  // The quantity now in the basket
+  basketQuantity: number;
+};
+
+type TSkippedReorderLine = {
+  productId: number;
+  productName: string;
+  // The quantity in the earlier order
+  orderedQuantity: number;
+  reason: EReorderSkipReason;
+};
+
+type TReorderResult = {
+  // Lines added to the basket in full
+  added: TReorderedLine[];
+  // Lines added with less than was ordered, as there is not enough stock
+  adjusted: TReorderedLine[];
+  // Lines that could not be added at all
+  skipped: TSkippedReorderLine[];
+};
+
+/**
+ * Add the products from an earlier order to a customer's basket. Quantities
+ * are merged with what is already in the basket, and clamped to the stock
+ * available
+ * @param customerId The id of the customer
+ * @param orderId The id of the order to copy
+ * @returns What was added, adjusted or skipped for each product in the order,
+ * or null if the order does not belong to the customer. Rejects on database errors
+ */
+export const reorderIntoBasket = (
+  customerId: number,
+  orderId: number
+): Promise<TReorderResult | null> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const orderValidate = await client.query(
+          "SELECT id FROM orders WHERE id = $1 AND customer_id = $2",
+          [orderId, customerId]
+        );
+        if (orderValidate.rowCount <= 0) {
+          await client.query("ROLLBACK");
+          return resolve(null);
+        }
+
+        // Read with the transaction, so the lines and stock come from the same snapshot
+        const orderLinesResponse = await client.query(
+          `
+        SELECT
+          product_orders.product_id AS "productId",
+          product_view.name AS "productName",
+          product_orders.quantity
+        FROM product_orders
+        LEFT JOIN product_view ON product_view.id = product_orders.product_id
+        WHERE product_orders.order_id = $1
+        `,
+          [orderId]
+        );
+        const orderLines: {
+          productId: number;
+          productName: string;
+          quantity: number;
+        }[] = orderLinesResponse.rows;
+        const stockResponse = await client.query(
+          `
+        SELECT
+          product_view.id AS "productId",
+          product_view.available,
+          product_view.stock_count - (${reservedByOthersQuery(
+            "$1",
+            "product_view.id"
+          )}) AS "stockCount",
+          COALESCE(products_in_basket.quantity, 0) AS "basketQuantity"
+        FROM product_view
+        LEFT JOIN products_in_basket ON products_in_basket.product_id = product_view.id
+          AND products_in_basket.customer_id = $1
+        WHERE product_view.id = ANY($2)
+        `,
+          [customerId, orderLines.map((line) => line.productId)]
+        );
+        const stockLevels: Map<
+          number,
+          { available: boolean; stockCount: number; basketQuantity: number }
+        > = new Map(stockResponse.rows.map((row) => [row.productId, row]));
+
+        const result: TReorderResult = { added: [], adjusted: [], skipped: [] };
+        for (const line of orderLines) {
+          const stock = stockLevels.get(line.productId);
+          if (stock === undefined || !stock.available) {
+            result.skipped.push({
+              productId: line.productId,
+              productName: line.productName,
+              orderedQuantity: line.quantity,
+              reason: EReorderSkipReason.unavailable,
+            });
+            continue;
+          }
+          const wantedQuantity = stock.basketQuantity + line.quantity;
+          const basketQuantity = Math.min(wantedQuantity, stock.stockCount);
+          if (basketQuantity <= stock.basketQuantity) {
+            result.skipped.push({
+              productId: line.productId,
+              productName: line.productName,
+              orderedQuantity: line.quantity,
+              reason: EReorderSkipReason.outOfStock,
+            });
+            continue;
+          }
+
+          await client.query(
+            `
+          INSERT INTO products_in_basket(customer_id, product_id, quantity) VALUES ($1, $2, $3)
+          ON CONFLICT (customer_id, product_id) DO UPDATE SET quantity = EXCLUDED.quantity
+          `,
+            [customerId, line.productId, basketQuantity]
+          );
+          (basketQuantity < wantedQuantity
+            ? result.adjusted
+            : result.added
+          ).push({
+            productId: line.productId,
+            productName: line.productName,
+            orderedQuantity: line.quantity,
+            addedQuantity: basketQuantity - stock.basketQuantity,
+            basketQuantity: basketQuantity,
+          });
+        }
+        await client.query("COMMIT");
+        resolve(result);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        reject(err);
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+type TBasketPromotions = {
+  // The promotions that apply to the basket
+  promotions: TAppliedPromotion[];
+  // The basket lines, with the amount the promotions take off each
+  lines: { productId: number; quantity: number; discount: number }[];
+  // The amount the promotions take off the basket
+  saving: number;
+};
+
+/**
+ * Work out which promotions apply to the contents of a basket
+ * @param basketContents The products in the basket
+ * @returns The promotions that apply, and what they take off each line.
+ * Rejects on database errors
+ */
+const getPromotionsForBasketContents = async (
+  basketContents: TCustomerBasketEntry[]
+): Promise<TBasketPromotions> => {
+  const productsResponse = await pool.query(
+    `
+  SELECT
+    products.id AS "productId",
+    ${minorUnitsSql("product_view.price")} AS "pricePerItem",
+    ${PRODUCT_SCOPE_COLUMNS}
+  FROM products
+  JOIN product_view ON product_view.id = products.id
+  LEFT JOIN base_products ON products.base_product_id = base_products.id
+  WHERE products.id = ANY($1)
+  `,
+    [basketContents.map((entry) => entry.productId)]
+  );
+  const lines: TOrderLine[] = basketContents.flatMap((entry) => {
+    const product = productsResponse.rows.find(
+      (row) => row.productId === entry.productId
+    );
+    return product !== undefined
+      ? [{ ...product, quantity: entry.quantity }]
+      : [];
+  });
+  const effects = applyPromotions(lines, await getActivePromotions());
+  return {
+    promotions: effects.promotions.map((promotion) => ({
+      ...promotion,
+      amount: toMajorUnits(promotion.amount),
+    })),
+    lines: lines.map((line, index) => ({
+      productId: line.productId,
+      quantity: line.quantity,
+      discount: toMajorUnits(effects.lineDiscounts[index]),
+    })),
+    saving: toMajorUnits(sumMoney(effects.lineDiscounts)),
+  };
+};
+
+/**
+ * Work out which promotions apply to a customer's basket, for showing
+ * alongside it. Checkout applies the same promotions when pricing the order
+ * @param customerId The id of the customer
+ * @returns The promotions that apply, and what they take off each line.
+ * Rejects on database errors
+ */
+export const getBasketPromotions = async (
+  customerId: number
+): Promise<TBasketPromotions> => {
+  return getPromotionsForBasketContents(
+    await getAllProductsInBasket(customerId)
+  );
+};
+
+// How long a guest basket is kept after it was last changed
+const GUEST_BASKET_DAYS = Number(process.env.GUEST_BASKET_DAYS) || 30;
+
+/**
+ * Mark a guest basket as just changed, so it is not expired
+ * @param sessionId The session id the basket belongs to
+ */
+const touchGuestBasket = async (sessionId: string) => {
+  await pool.query(
+    "UPDATE products_in_guest_basket SET updated_on = now() WHERE session_id = $1",
+    [sessionId]
+  );
+};
+
+/**
+ * Get all products in a guest's basket
+ * @param sessionId The session id the basket belongs to
+ * @returns A list of all items in the guest's basket.
+ * Rejects on database errors
+ */
+export const getAllProductsInGuestBasket = (
+  sessionId: string
+): Promise<TCustomerBasketEntry[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT product_id as "productId", quantity FROM products_in_guest_basket WHERE session_id = $1
+    `,
+      [sessionId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Add a new product to a guest's basket
+ * @param sessionId The session id the basket belongs to
+ * @param productId The id of the product
+ * @param quantity The amount to add to the basket
+ * @returns EDatabaseResponses.OK if the product is added,
+ * EDatabaseResponses.FOREIGN_KEY_VIOLATION if the product does not exist,
+ * EDatabaseResponses.CONFLICT if the product is already in the basket.
+ * Rejects on database errors
+ */
+export const addProductToGuestBasket = (
+  sessionId: string,
+  productId: number,
+  quantity: number
+): Promise<EDatabaseResponses> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      await pool.query(
+        "INSERT INTO products_in_guest_basket(session_id, product_id, quantity) VALUES ($1, $2, $3)",
+        [sessionId, productId, quantity]
+      );
+      await touchGuestBasket(sessionId);
+      resolve(EDatabaseResponses.OK);
+    } catch (err) {
+      if ((err as ICustomError).code === UNIQUE_CONSTRAINT_FAILED) {
+        resolve(EDatabaseResponses.CONFLICT);
+      } else if ((err as ICustomError).code === FOREIGN_KEY_VIOLATION) {
+        resolve(EDatabaseResponses.FOREIGN_KEY_VIOLATION);
+      } else {
+        console.error(err);
+        reject(err);
+      }
+    }
+  });
+};
+
+/**
+ * Remove a product from a guest's basket
+ * @param sessionId The session id the basket belongs to
+ * @param productId The id of the product
+ * @returns EDatabaseResponses.OK if product removed from basket,
+ * EDatabaseResponses.DOES_NOT_EXIST if the product is not in the basket.
+ * Rejects on database errors
+ */
+export const removeProductFromGuestBasket = (
+  sessionId: string,
+  productId: number
+): Promise<EDatabaseResponses> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const deleteResponse = await pool.query(
+        "DELETE FROM products_in_guest_basket WHERE session_id = $1 AND product_id = $2",
+        [sessionId, productId]
+      );
+      await touchGuestBasket(sessionId);
+      resolve(
+        deleteResponse.rowCount > 0
+          ? EDatabaseResponses.OK
+          : EDatabaseResponses.DOES_NOT_EXIST
+      );
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Update the quantity of a product in a guest's basket
+ * @param sessionId The session id the basket belongs to
+ * @param productId The id of the product
+ * @param newQuantity The new quantity to have of the product (> 0)
+ * @returns EDatabaseResponses.OK if the product quantity is updated,
+ * EDatabaseResponses.DOES_NOT_EXIST if the product is not in the basket to update.
+ * Rejects on database errors
+ */
+export const updateQuantityOfProductInGuestBasket = (
+  sessionId: string,
+  productId: number,
+  newQuantity: number
+): Promise<EDatabaseResponses> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const updateResponse = await pool.query(
+        "UPDATE products_in_guest_basket SET quantity = $1 WHERE session_id = $2 AND product_id = $3",
+        [newQuantity, sessionId, productId]
+      );
+      await touchGuestBasket(sessionId);
+      resolve(
+        updateResponse.rowCount > 0
+          ? EDatabaseResponses.OK
+          : EDatabaseResponses.DOES_NOT_EXIST
+      );
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Work out which promotions apply to a guest's basket, for showing alongside it
+ * @param sessionId The session id the basket belongs to
+ * @returns The promotions that apply, and what they take off each line.
+ * Rejects on database errors
+ */
+export const getGuestBasketPromotions = async (
+  sessionId: string
+): Promise<TBasketPromotions> => {
+  return getPromotionsForBasketContents(
+    await getAllProductsInGuestBasket(sessionId)
+  );
+};
+
+/**
+ * Move a guest's basket into a customer's basket once they log in. Quantities
+ * of products in both are added together, and every quantity in the merged
+ * basket, including lines only the customer had, is capped at the stock
+ * available to the customer. Products that are no longer sold or have no
+ * stock are left out. The guest basket is removed afterwards
+ * @param sessionId The session id the guest basket belongs to
+ * @param customerId The id of the customer
+ * @returns True if the customer's basket changed.
+ * Rejects on database errors
+ */
+export const mergeGuestBasketIntoCustomerBasket = (
+  sessionId: string,
+  customerId: number
+): Promise<boolean> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const guestResponse = await client.query(
+          `
+        DELETE FROM products_in_guest_basket WHERE session_id = $1
+        RETURNING product_id AS "productId", quantity
+        `,
+          [sessionId]
+        );
+        if (guestResponse.rowCount <= 0) {
+          await client.query("ROLLBACK");
+          return resolve(false);
+        }
+
+        const guestLines: TCustomerBasketEntry[] = guestResponse.rows;
+        const guestQuantities = new Map(
+          guestLines.map((line) => [line.productId, line.quantity])
+        );
+        // Every line in either basket is checked against the stock available
+        const stockResponse = await client.query(
+          `
+        SELECT
+          product_view.id AS "productId",
+          product_view.available,
+          GREATEST(product_view.stock_count - (${reservedByOthersQuery(
+            "$1",
+            "product_view.id"
+          )}), 0) AS "stockCount",
+          COALESCE(products_in_basket.quantity, 0) AS "basketQuantity"
+        FROM product_view
+        LEFT JOIN products_in_basket ON products_in_basket.product_id = product_view.id
+          AND products_in_basket.customer_id = $1
+        WHERE product_view.id = ANY($2) OR products_in_basket.product_id IS NOT NULL
+        `,
+          [customerId, guestLines.map((line) => line.productId)]
+        );
+        const stockLevels: {
+          productId: number;
+          available: boolean;
+          stockCount: number;
+          basketQuantity: number;
+        }[] = stockResponse.rows;
+
+        let changed = false;
+        for (const stock of stockLevels) {
+          const wantedQuantity =
+            stock.basketQuantity + (guestQuantities.get(stock.productId) ?? 0);
+          const basketQuantity = stock.available
+            ? Math.min(wantedQuantity, stock.stockCount)
+            : 0;
+          if (basketQuantity === stock.basketQuantity) {
+            continue;
+          }
+          if (basketQuantity <= 0) {
+            await client.query(
+              "DELETE FROM products_in_basket WHERE customer_id = $1 AND product_id = $2",
+              [customerId, stock.productId]
+            );
+          } else {
+            await client.query(
+              `
+            INSERT INTO products_in_basket(customer_id, product_id, quantity) VALUES ($1, $2, $3)
+            ON CONFLICT (customer_id, product_id) DO UPDATE SET quantity = EXCLUDED.quantity
+            `,
+              [customerId, stock.productId, basketQuantity]
+            );
+          }
+          changed = true;
+        }
+        await client.query("COMMIT");
+        resolve(changed);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        reject(err);
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Remove guest baskets that have not changed for GUEST_BASKET_DAYS
+ * @returns The number of basket lines removed. Rejects on database errors
+ */
+export const removeExpiredGuestBaskets = (): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    DELETE FROM products_in_guest_basket
+    WHERE updated_on <= now() - make_interval(days => $1)
+    `,
+      [GUEST_BASKET_DAYS],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rowCount);
+        }
+      }
+    );
+  });
+};
@@ -0,0 +1,358 @@
+import { randomBytes } from "crypto";
+import { PoolClient } from "pg";
+import pool, { EDatabaseResponses } from "../data/data";
+import { EOrderStatus } from "../common/order-status";
+import { TDiscountCodeDetails } from "./discount.models";
+import { majorUnitsSql } from "../common/money";
+
+// The most codes a single batch can hold
+export const MAX_DISCOUNT_CODE_BATCH_SIZE = 10000;
+
+// Characters used in generated codes, leaving out ones that are easy to misread
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+// The number of random characters after the batch prefix
+const CODE_RANDOM_LENGTH = 10;
+// The number of codes inserted per query
+const CODE_INSERT_CHUNK_SIZE = 1000;
+// Attempts at replacing codes that collided with existing ones before giving up
+const CODE_GENERATION_ATTEMPTS = 5;
+
+type TDiscountCodeBatchStats = {
+  // The id of the batch
+  id: number;
+  // The prefix every code in the batch starts with
+  prefix: string;
+  // The date the batch was created
+  createdOn: Date;
+  // The number of codes in the batch
+  codesIssued: number;
+  // The number of codes used on an order that was not cancelled
+  codesRedeemed: number;
+  // The share of codes redeemed, between 0 and 1
+  redemptionRate: number;
+  // The number of codes that can still be used
+  codesActive: number;
+  // The amount paid for the orders the codes were used on, each order counted once
+  revenue: number;
+};
+
+type TDiscountCodeBatchCode = {
+  // The code customers enter
+  code: string;
+  // If the code can still be used
+  active: boolean;
+  // The order the code was used on, null if it has not been redeemed
+  orderId: number | null;
+  // The date the order was placed, null if it has not been redeemed
+  redeemedOn: Date | null;
+};
+
+/**
+ * Generate random codes for a batch
+ * @param prefix The prefix for every code
+ * @param count The number of codes to generate
+ * @returns A list of distinct codes
+ */
+const generateBatchCodes = (prefix: string, count: number): string[] => {
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    // The alphabet has 32 characters, so each byte maps onto it evenly
+    const random = Array.from(
+      randomBytes(CODE_RANDOM_LENGTH),
+      (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+    ).join("");
+    codes.add(`${prefix}-${random}`);
+  }
+  return Array.from(codes);
+};
+
+/**
+ * Insert generated codes for a batch, skipping any that already exist
+ * @param client A client with an open transaction
+ * @param batchId The id of the batch
+ * @param codes The codes to insert
+ * @param details The rules shared by every code in the batch
+ * @returns The ids of the codes inserted
+ */
+const insertBatchCodes = async (
+  client: PoolClient,
+  batchId: number,
+  codes: string[],
+  details: TDiscountCodeDetails
+): Promise<number[]> => {
+  const insertedIds: number[] = [];
+  for (let start = 0; start < codes.length; start += CODE_INSERT_CHUNK_SIZE) {
+    const insertResponse = await client.query(
+      `
+    INSERT INTO discount_codes(
+      code, batch_id, discount_type, percent_off, amount_off, min_spend, starts_on, ends_on,
+      max_uses_per_customer, first_order_only, number_of_uses, stackable, active
+    )
+    SELECT unnest($1::text[]), $2, $3, $4, $5, $6, $7, $8, $9, $10, 1, $11, $12
+    ON CONFLICT (code) DO NOTHING
+    RETURNING id
+    `,
+      [
+        codes.slice(start, start + CODE_INSERT_CHUNK_SIZE),
+        batchId,
+        details.discountType,
+        details.percent,
+        details.amountOff,
+        details.minSpend,
+        details.startsOn,
+        details.endsOn,
+        details.maxUsesPerCustomer,
+        details.firstOrderOnly,
+        details.stackable,
+        details.active,
+      ]
+    );
+    insertedIds.push(...insertResponse.rows.map((row) => row.id));
+  }
+  return insertedIds;
+};
+
+/**
+ * Create a batch of single use discount codes that share one set of rules.
+ * Each code is a normal discount code with one use, so it validates at
+ * checkout like any other code
+ * @param prefix The prefix every code starts with
+ * @param count The number of codes to create, at most MAX_DISCOUNT_CODE_BATCH_SIZE
+ * @param details The rules, flags and scopes shared by every code. The number
+ * of uses is ignored, as each code can be used once
+ * @returns The id of the batch. Rejects on database errors, or if unique codes
+ * could not be generated
+ */
+export const createDiscountCodeBatch = (
+  prefix: string,
+  count: number,
+  details: TDiscountCodeDetails
+): Promise<number> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const batchCreatedResponse = await client.query(
+          "INSERT INTO discount_code_batches(prefix, code_count) VALUES ($1, $2) RETURNING id",
+          [prefix, count]
+        );
+        const batchId: number = batchCreatedResponse.rows[0].id;
+
+        // Codes that collide with existing ones are skipped, then replaced
+        const codeIds: number[] = [];
+        for (
+          let attempt = 0;
+          attempt < CODE_GENERATION_ATTEMPTS && codeIds.length < count;
+          attempt++
+        ) {
+          codeIds.push(
+            ...(await insertBatchCodes(
+              client,
+              batchId,
+              generateBatchCodes(prefix, count - codeIds.length),
+              details
+            ))
+          );
+        }
+        if (codeIds.length < count) {
+          throw new Error(`Could not generate ${count} unique codes`);
+        }
+
+        await Promise.all(
+          details.scopes.map(async (scope) => {
+            await client.query(
+              `
+            INSERT INTO discount_code_scopes(discount_code_id, scope_type, target_id, excluded)
+            SELECT unnest($1::integer[]), $2, $3, $4
+            `,
+              [codeIds, scope.scopeType, scope.targetId, scope.excluded]
+            );
+          })
+        );
+        await client.query("COMMIT");
+        resolve(batchId);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        reject(err);
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+// The redemption stats for each batch, used alongside discount_code_batches
+const BATCH_STATS_QUERY = `
+  SELECT
+    discount_code_batches.id,
+    discount_code_batches.prefix,
+    discount_code_batches.created_on AS "createdOn",
+    COUNT(DISTINCT discount_codes.id)::integer AS "codesIssued",
+    COUNT(DISTINCT discount_codes.id) FILTER (WHERE orders.id IS NOT NULL)::integer AS "codesRedeemed",
+    COUNT(DISTINCT discount_codes.id) FILTER (
+      WHERE discount_codes.active AND discount_codes.number_of_uses != 0
+    )::integer AS "codesActive",
+    COALESCE((
+      SELECT ${majorUnitsSql(
+        "sum(batch_orders.price_paid::numeric)"
+      )} FROM orders AS batch_orders
+      WHERE batch_orders.status_id != (SELECT id FROM order_statuses WHERE status = $1)
+      AND batch_orders.id IN (
+        SELECT discount_codes_for_order.order_id FROM discount_codes_for_order
+        JOIN discount_codes ON discount_codes.id = discount_codes_for_order.discount_code_id
+        WHERE discount_codes.batch_id = discount_code_batches.id
+      )
+    ), 0) AS "revenue"
+  FROM discount_code_batches
+  LEFT JOIN discount_codes ON discount_codes.batch_id = discount_code_batches.id
+  LEFT JOIN discount_codes_for_order ON discount_codes_for_order.discount_code_id = discount_codes.id
+  LEFT JOIN orders ON orders.id = discount_codes_for_order.order_id
+    AND orders.status_id != (SELECT id FROM order_statuses WHERE status = $1)
+`;
+
+/**
+ * Add the redemption rate to a batch's stats
+ * @param row The stats row from BATCH_STATS_QUERY
+ * @returns The batch stats
+ */
+const toBatchStats = (
+  row: Omit<TDiscountCodeBatchStats, "redemptionRate">
+): TDiscountCodeBatchStats => ({
+  ...row,
+  redemptionRate: row.codesIssued > 0 ? row.codesRedeemed / row.codesIssued : 0,
+});
+
+/**
+ * Get every discount code batch with its redemption stats. Cancelled orders
+ * give their codes back, so are not counted
+ * @returns A list of batches, newest first. Rejects on database errors
+ */
+export const getDiscountCodeBatches = (): Promise<
+  TDiscountCodeBatchStats[]
+> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    ${BATCH_STATS_QUERY}
+    GROUP BY discount_code_batches.id
+    ORDER BY discount_code_batches.created_on DESC
+    `,
+      [EOrderStatus.cancelled],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows.map(toBatchStats));
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get the redemption stats for a discount code batch
+ * @param batchId The id of the batch
+ * @returns The batch stats, or null if the batch does not exist.
+ * Rejects on database errors
+ */
+export const getDiscountCodeBatch = (
+  batchId: number
+): Promise<TDiscountCodeBatchStats | null> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    ${BATCH_STATS_QUERY}
+    WHERE discount_code_batches.id = $2
+    GROUP BY discount_code_batches.id
+    `,
+      [EOrderStatus.cancelled, batchId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rowCount > 0 ? toBatchStats(res.rows[0]) : null);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get every code in a discount code batch, with the order it was used on
+ * @param batchId The id of the batch
+ * @returns A list of codes in code order, or null if the batch does not exist.
+ * Rejects on database errors
+ */
+export const getDiscountCodeBatchCodes = (
+  batchId: number
+): Promise<TDiscountCodeBatchCode[] | null> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const batchResponse = await pool.query(
+        "SELECT id FROM discount_code_batches WHERE id = $1",
+        [batchId]
+      );
+      if (batchResponse.rowCount <= 0) {
+        return resolve(null);
+      }
+      const codesResponse = await pool.query(
+        `
+      SELECT DISTINCT ON (discount_codes.code)
+        discount_codes.code,
+        (discount_codes.active AND discount_codes.number_of_uses != 0) AS "active",
+        orders.id AS "orderId",
+        orders.placed_on AS "redeemedOn"
+      FROM discount_codes
+      LEFT JOIN discount_codes_for_order ON discount_codes_for_order.discount_code_id = discount_codes.id
+      LEFT JOIN orders ON orders.id = discount_codes_for_order.order_id
+        AND orders.status_id != (SELECT id FROM order_statuses WHERE status = $2)
+      WHERE discount_codes.batch_id = $1
+      ORDER BY discount_codes.code, orders.placed_on DESC NULLS LAST
+      `,
+        [batchId, EOrderStatus.cancelled]
+      );
+      resolve(codesResponse.rows);
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Stop every code in a discount code batch being used
+ * @param batchId The id of the batch
+ * @returns EDatabaseResponses.OK if the codes are deactivated,
+ * EDatabaseResponses.DOES_NOT_EXIST if the batch does not exist.
+ * Rejects on database errors
+ */
+export const deactivateDiscountCodeBatch = (
+  batchId: number
+): Promise<EDatabaseResponses> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const batchResponse = await pool.query(
+        "SELECT id FROM discount_code_batches WHERE id = $1",
+        [batchId]
+      );
+      if (batchResponse.rowCount <= 0) {
+        return resolve(EDatabaseResponses.DOES_NOT_EXIST);
+      }
+      await pool.query(
+        "UPDATE discount_codes SET active = false WHERE batch_id = $1",
+        [batchId]
+      );
+      resolve(EDatabaseResponses.OK);
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
@@ -0,0 +1,227 @@
+import pool from "../data/data";
+import { EOrderStatus } from "../common/order-status";
+import {
+  majorUnitsSql,
+  roundMoney,
+  toMajorUnits,
+  toMinorUnits,
+} from "../common/money";
+
+// The length of each period redemptions are grouped into
+export enum EReportInterval {
+  day = "day",
+  week = "week",
+  month = "month",
+}
+
+export type TReportDateRange = {
+  // Only orders placed on or after this date, null for no limit
+  from: Date | null;
+  // Only orders placed before this date, null for no limit
+  to: Date | null;
+};
+
+type TCodeRedemptionPeriod = {
+  // The start of the period
+  period: Date;
+  // The code, or the batch prefix followed by -* for generated codes
+  code: string;
+  // The number of orders the code was used on in the period
+  redemptions: number;
+  // The amount the code took off those orders
+  amountGivenAway: number;
+};
+
+type TCodePerformance = {
+  // The code, or the batch prefix followed by -* for generated codes
+  code: string;
+  // The id of the batch for generated codes, null otherwise
+  batchId: number | null;
+  // The number of orders the code was used on
+  redemptions: number;
+  // The amount the code took off those orders
+  amountGivenAway: number;
+  // The amount paid for those orders
+  revenue: number;
+  // Customers whose first order used the code
+  newCustomers: number;
+  // Customers who had ordered before using the code
+  returningCustomers: number;
+};
+
+type TOrderValueComparison = {
+  // True for orders that used at least one code
+  withCode: boolean;
+  // The number of orders
+  orders: number;
+  // The amount paid for the orders
+  revenue: number;
+  // The average amount paid per order to the minor unit, 0 if there were none
+  averageOrderValue: number;
+};
+
+// The orders a report covers: every order in the date range that was not
+// cancelled, with whether it was the customer's first. Takes the cancelled
+// status as $1 and the date range as $2 and $3
+const REPORT_ORDERS_QUERY = `
+  report_orders AS (
+    SELECT
+      orders.id,
+      orders.customer_id,
+      orders.placed_on,
+      orders.price_paid::numeric AS price_paid,
+      NOT EXISTS (
+        SELECT 1 FROM orders AS earlier_orders
+        JOIN order_statuses AS earlier_statuses ON earlier_statuses.id = earlier_orders.status_id
+        WHERE earlier_orders.customer_id = orders.customer_id
+        AND earlier_orders.placed_on < orders.placed_on
+        AND earlier_statuses.status != $1
+      ) AS first_order
+    FROM orders
+    JOIN order_statuses ON order_statuses.id = orders.status_id
+    WHERE order_statuses.status != $1
+    AND ($2::timestamptz IS NULL OR orders.placed_on >= $2::timestamptz)
+    AND ($3::timestamptz IS NULL OR orders.placed_on < $3::timestamptz)
+  )
+`;
+
+// The name a code is reported under. Generated codes are grouped by batch
+const REPORT_CODE_COLUMN = `COALESCE(discount_code_batches.prefix || '-*', discount_codes.code)`;
+
+/**
+ * Get the number of times each code was used in each period
+ * @param range The dates the orders were placed between
+ * @param interval The length of each period
+ * @returns A list of redemptions, oldest period first. Orders placed before
+ * the amount each code took off was recorded count as 0 given away.
+ * Rejects on database errors
+ */
+export const getCodeRedemptionsOverTime = (
+  range: TReportDateRange,
+  interval: EReportInterval
+): Promise<TCodeRedemptionPeriod[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    WITH ${REPORT_ORDERS_QUERY}
+    SELECT
+      date_trunc($4::text, report_orders.placed_on) AS "period",
+      ${REPORT_CODE_COLUMN} AS "code",
+      COUNT(*)::integer AS "redemptions",
+      COALESCE(${majorUnitsSql(
+        "sum(discount_codes_for_order.amount::numeric)"
+      )}, 0) AS "amountGivenAway"
+    FROM discount_codes_for_order
+    JOIN report_orders ON report_orders.id = discount_codes_for_order.order_id
+    JOIN discount_codes ON discount_codes.id = discount_codes_for_order.discount_code_id
+    LEFT JOIN discount_code_batches ON discount_code_batches.id = discount_codes.batch_id
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+    `,
+      [EOrderStatus.cancelled, range.from, range.to, interval],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get how each code performed: what it gave away, the revenue from the orders
+ * it was used on, and how many of its customers were new
+ * @param range The dates the orders were placed between
+ * @returns A list of codes, most redeemed first. Rejects on database errors
+ */
+export const getCodePerformance = (
+  range: TReportDateRange
+): Promise<TCodePerformance[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    WITH ${REPORT_ORDERS_QUERY}
+    SELECT
+      ${REPORT_CODE_COLUMN} AS "code",
+      discount_code_batches.id AS "batchId",
+      COUNT(*)::integer AS "redemptions",
+      COALESCE(${majorUnitsSql(
+        "sum(discount_codes_for_order.amount::numeric)"
+      )}, 0) AS "amountGivenAway",
+      ${majorUnitsSql("sum(report_orders.price_paid)")} AS "revenue",
+      COUNT(DISTINCT report_orders.customer_id) FILTER (WHERE report_orders.first_order)::integer AS "newCustomers",
+      COUNT(DISTINCT report_orders.customer_id) FILTER (WHERE NOT report_orders.first_order)::integer AS "returningCustomers"
+    FROM discount_codes_for_order
+    JOIN report_orders ON report_orders.id = discount_codes_for_order.order_id
+    JOIN discount_codes ON discount_codes.id = discount_codes_for_order.discount_code_id
+    LEFT JOIN discount_code_batches ON discount_code_batches.id = discount_codes.batch_id
+    GROUP BY 1, 2
+    ORDER BY "redemptions" DESC, "code"
+    `,
+      [EOrderStatus.cancelled, range.from, range.to],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Compare the orders that used a discount code with the ones that didn't
+ * @param range The dates the orders were placed between
+ * @returns The orders with a code, then the orders without one.
+ * Rejects on database errors
+ */
+export const getOrderValueComparison = (
+  range: TReportDateRange
+): Promise<TOrderValueComparison[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    WITH ${REPORT_ORDERS_QUERY}
+    SELECT
+      EXISTS (
+        SELECT 1 FROM discount_codes_for_order
+        WHERE discount_codes_for_order.order_id = report_orders.id
+      ) AS "withCode",
+      COUNT(*)::integer AS "orders",
+      ${majorUnitsSql("sum(report_orders.price_paid)")} AS "revenue"
+    FROM report_orders
+    GROUP BY 1
+    `,
+      [EOrderStatus.cancelled, range.from, range.to],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          // Both groups are always reported, even without any orders
+          resolve(
+            [true, false].map((withCode) => {
+              const row = res.rows.find((entry) => entry.withCode === withCode);
+              const orders: number = row?.orders ?? 0;
+              const revenue: number = row?.revenue ?? 0;
+              return {
+                withCode: withCode,
+                orders: orders,
+                revenue: revenue,
+                averageOrderValue:
+                  orders > 0
+                    ? toMajorUnits(roundMoney(toMinorUnits(revenue) / orders))
+                    : 0,
+              };
+            })
+          );
+        }
+      }
+    );
+  });
+};
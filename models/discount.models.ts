@@ -1,47 +1,506 @@
+import { Pool, PoolClient } from "pg";
 import pool, { EDatabaseResponses, ICustomError } from "../data/data";
+import { UNIQUE_CONSTRAINT_FAILED } from "../common/postgresql-error-codes";
+import { EOrderStatus } from "../common/order-status";
+import { majorUnitsSql } from "../common/money";
+
+// How a discount code takes money off an order
+export enum EDiscountType {
+  // A percentage of the order subtotal
+  percent = "percent",
+  // A fixed amount, never more than the order subtotal
+  fixed = "fixed",
+}
+
+// Why a discount code can't be used
+export enum EDiscountRejectionReason {
+  // No code exists with that name
+  notFound = "notFound",
+  // The code has been deactivated
+  inactive = "inactive",
+  // The code's validity window has not started yet
+  notStarted = "notStarted",
+  // The code's validity window has ended
+  expired = "expired",
+  // The code has no uses left
+  usedUp = "usedUp",
+  // The customer has used the code as many times as they are allowed
+  customerLimitReached = "customerLimitReached",
+  // The code is only for a customer's first order
+  firstOrderOnly = "firstOrderOnly",
+  // The basket is worth less than the code's minimum spend
+  minimumSpendNotMet = "minimumSpendNotMet",
+  // The code can't be used alongside other codes
+  notStackable = "notStackable",
+}
+
+// What a discount code's scope is matched against
+export enum EDiscountScopeType {
+  // A single product
+  product = "product",
+  // Every product variant of a base product
+  baseProduct = "baseProduct",
+  // Every product from a brand
+  brand = "brand",
+  // Every product assigned a product type
+  productType = "productType",
+}
+
+export type TDiscountScope = {
+  // What the scope is matched against
+  scopeType: EDiscountScopeType;
+  // The id of the product, base product, brand or product type
+  targetId: number;
+  // True if matching products are excluded from the discount rather than included
+  excluded: boolean;
+};
+
+export type TDiscountRules = {
+  // How the code takes money off the order
+  discountType: EDiscountType;
+  // The percentage taken off the order, 0 for fixed amount codes
+  percent: number;
+  // The amount taken off the order, 0 for percentage codes
+  amountOff: number;
+  // The smallest order subtotal the code can be used on, null for any
+  minSpend: number | null;
+  // The code can't be used before this date, null if it can always be used
+  startsOn: Date | null;
+  // The code can't be used after this date, null if it never expires
+  endsOn: Date | null;
+  // The number of orders each customer can use the code on, null for unlimited
+  maxUsesPerCustomer: number | null;
+  // If the code can only be used on a customer's first order
+  firstOrderOnly: boolean;
+  // If the discount can be used in conjunction with other offers
+  stackable: boolean;
+  // The products the code is restricted to or excludes. Without any included
+  // scopes the code covers every product that is not excluded
+  scopes: TDiscountScope[];
+};
 
 /**
  * Type used when validating a discount code
  */
-export type TDiscountCodeValidation = {
+export type TDiscountCodeValidation = TDiscountRules & {
   // The id of the discount code
   id: number;
   // The code that was validated
   code: string;
   // If the discount code is currently valid
   valid: boolean;
-  // The amount the discount code applies to the total order
-  percent: number;
-  // If the discount can be used in conjunction with other offers
-  stackable: boolean;
+  // Why the code can't be used, null if it is valid
+  rejectionReason: EDiscountRejectionReason | null;
+};
+
+// The columns holding a discount code's rules
+const DISCOUNT_RULE_COLUMNS = `
+  COALESCE(discount_codes.discount_type, 'percent') AS "discountType",
+  COALESCE(discount_codes.percent_off, 0)::float8 AS "percent",
+  COALESCE(${majorUnitsSql("discount_codes.amount_off")}, 0) AS "amountOff",
+  ${majorUnitsSql("discount_codes.min_spend")} AS "minSpend",
+  discount_codes.starts_on AS "startsOn",
+  discount_codes.ends_on AS "endsOn",
+  discount_codes.max_uses_per_customer AS "maxUsesPerCustomer",
+  discount_codes.first_order_only AS "firstOrderOnly",
+  discount_codes.stackable,
+  COALESCE((
+    SELECT json_agg(json_build_object(
+      'scopeType', discount_code_scopes.scope_type,
+      'targetId', discount_code_scopes.target_id,
+      'excluded', discount_code_scopes.excluded
+    ) ORDER BY discount_code_scopes.id)
+    FROM discount_code_scopes
+    WHERE discount_code_scopes.discount_code_id = discount_codes.id
+  ), '[]'::json) AS "scopes"
+`;
+
+// The columns saying which scopes a product falls in, used alongside the
+// products table joined to base_products
+export const PRODUCT_SCOPE_COLUMNS = `
+  products.base_product_id AS "baseProductId",
+  base_products.brand_id AS "brandId",
+  ARRAY(
+    SELECT assigned_product_type.type_id FROM assigned_product_type
+    WHERE assigned_product_type.product_id = products.base_product_id
+  ) AS "productTypeIds"
+`;
+
+/**
+ * Replace the scopes for a discount code
+ * @param client A client with an open transaction
+ * @param discountCodeId The id of the discount code
+ * @param scopes The new scopes for the code
+ */
+const setDiscountCodeScopes = async (
+  client: PoolClient,
+  discountCodeId: number,
+  scopes: TDiscountScope[]
+) => {
+  await client.query(
+    "DELETE FROM discount_code_scopes WHERE discount_code_id = $1",
+    [discountCodeId]
+  );
+  await Promise.all(
+    scopes.map(async (scope) => {
+      await client.query(
+        "INSERT INTO discount_code_scopes(discount_code_id, scope_type, target_id, excluded) VALUES ($1, $2, $3, $4)",
+        [discountCodeId, scope.scopeType, scope.targetId, scope.excluded]
+      );
+    })
+  );
 };
 
 /**
- * Validate that a discount code exists
+ * Validate that a discount code exists and can be used
  * @param code The code to validate
- * @returns A TDiscountCodeValidation
+ * @param customerId If set, the customer's own limits and basket are checked too
+ * @param db A client with an open transaction, or the pool if not given
+ * @returns A TDiscountCodeValidation, or null if the code does not exist.
+ * Rejects on database errors
  */
-export const validateDiscountCode = (
-  code: string
+export const validateDiscountCode = async (
+  code: string,
+  customerId?: number,
+  db: Pool | PoolClient = pool
 ): Promise<TDiscountCodeValidation | null> => {
+  const res = await db.query(
+    `
+  SELECT 
+    discount_codes.id,
+    discount_codes.code,
+    ${DISCOUNT_RULE_COLUMNS},
+    discount_codes.active,
+    discount_codes.number_of_uses AS "numberOfUses",
+    (discount_codes.starts_on IS NOT NULL AND discount_codes.starts_on > now()) AS "notStarted",
+    (discount_codes.ends_on IS NOT NULL AND discount_codes.ends_on < now()) AS "expired",
+    (
+      SELECT COUNT(*) FROM discount_codes_for_order
+      JOIN orders ON orders.id = discount_codes_for_order.order_id
+      JOIN order_statuses ON order_statuses.id = orders.status_id
+      WHERE discount_codes_for_order.discount_code_id = discount_codes.id
+      AND orders.customer_id = $2 AND order_statuses.status != $3
+    )::integer AS "customerUses",
+    (
+      SELECT COUNT(*) FROM orders
+      JOIN order_statuses ON order_statuses.id = orders.status_id
+      WHERE orders.customer_id = $2 AND order_statuses.status != $3
+    )::integer AS "customerOrders",
+    (
+      SELECT ${majorUnitsSql(
+        "sum(product_view.price::numeric * products_in_basket.quantity)"
+      )}
+      FROM products_in_basket
+      JOIN product_view ON product_view.id = products_in_basket.product_id
+      WHERE products_in_basket.customer_id = $2
+    ) AS "basketSubtotal"
+  FROM discount_codes
+  WHERE discount_codes.code = $1
+`,
+    [code, customerId ?? null, EOrderStatus.cancelled]
+  );
+  if (res.rowCount <= 0) {
+    return null;
+  }
+  const {
+    active,
+    numberOfUses,
+    notStarted,
+    expired,
+    customerUses,
+    customerOrders,
+    basketSubtotal,
+    ...discountCode
+  } = res.rows[0];
+  // Cancelled orders give their uses back, so are not counted
+  let rejectionReason: EDiscountRejectionReason | null = null;
+  if (!active) {
+    rejectionReason = EDiscountRejectionReason.inactive;
+  } else if (notStarted) {
+    rejectionReason = EDiscountRejectionReason.notStarted;
+  } else if (expired) {
+    rejectionReason = EDiscountRejectionReason.expired;
+  } else if (numberOfUses === 0) {
+    rejectionReason = EDiscountRejectionReason.usedUp;
+  } else if (customerId !== undefined) {
+    if (
+      discountCode.maxUsesPerCustomer !== null &&
+      customerUses >= discountCode.maxUsesPerCustomer
+    ) {
+      rejectionReason = EDiscountRejectionReason.customerLimitReached;
+    } else if (discountCode.firstOrderOnly && customerOrders > 0) {
+      rejectionReason = EDiscountRejectionReason.firstOrderOnly;
+    } else if (
+      discountCode.minSpend !== null &&
+      (basketSubtotal ?? 0) < discountCode.minSpend
+    ) {
+      rejectionReason = EDiscountRejectionReason.minimumSpendNotMet;
+    }
+  }
+  return {
+    ...discountCode,
+    valid: rejectionReason === null,
+    rejectionReason: rejectionReason,
+  };
+};
+
+export type TDiscountCodeDetails = TDiscountRules & {
+  // The number of times the code can be used, null for unlimited
+  numberOfUses: number | null;
+  // If the code can currently be used
+  active: boolean;
+};
+
+type TDiscountCodeEntry = TDiscountCodeDetails & {
+  // The id of the discount code
+  id: number;
+  // The code customers enter
+  code: string;
+  // The number of orders the code has been used on
+  timesUsed: number;
+};
+
+type TDiscountCodeOrder = {
+  // The id of the order
+  id: number;
+  // The id of the customer who placed the order
+  customerId: number;
+  // The current status of the order
+  status: string;
+  // The amount paid for the order
+  pricePaid: number;
+  // The date the order was placed
+  placedOn: Date;
+};
+
+/**
+ * Get every discount code, for staff. Codes generated in batches are left
+ * out, as there can be thousands of them
+ * @returns A list of discount codes with their remaining uses.
+ * Rejects on database errors
+ */
+export const getDiscountCodes = (): Promise<TDiscountCodeEntry[]> => {
   return new Promise((resolve, reject) => {
     pool.query(
       `
-    SELECT 
-      id,
-      code,
-      (number_of_uses != 0 AND active) as "valid", 
-      percent_off AS "percent", 
-      stackable 
+    SELECT
+      discount_codes.id,
+      discount_codes.code,
+      ${DISCOUNT_RULE_COLUMNS},
+      CASE WHEN discount_codes.number_of_uses < 0 THEN NULL ELSE discount_codes.number_of_uses END AS "numberOfUses",
+      discount_codes.active,
+      (
+        SELECT COUNT(*) FROM discount_codes_for_order
+        WHERE discount_codes_for_order.discount_code_id = discount_codes.id
+      )::integer AS "timesUsed"
     FROM discount_codes
-    WHERE code = $1
-`,
-      [code],
+    WHERE discount_codes.batch_id IS NULL
+    ORDER BY discount_codes.code
+    `,
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Create a new discount code
+ * @param code The code customers enter
+ * @param details The rules, uses, flags and scopes for the code
+ * @returns EDatabaseResponses.OK if the code is created,
+ * EDatabaseResponses.CONFLICT if the code already exists.
+ * Rejects on database errors
+ */
+export const createDiscountCode = (
+  code: string,
+  details: TDiscountCodeDetails
+): Promise<EDatabaseResponses> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const codeCreatedResponse = await client.query(
+          `
+        INSERT INTO discount_codes(
+          code, discount_type, percent_off, amount_off, min_spend, starts_on, ends_on,
+          max_uses_per_customer, first_order_only, number_of_uses, stackable, active
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING id
+        `,
+          [
+            code,
+            details.discountType,
+            details.percent,
+            details.amountOff,
+            details.minSpend,
+            details.startsOn,
+            details.endsOn,
+            details.maxUsesPerCustomer,
+            details.firstOrderOnly,
+            // Unlimited uses are stored as a negative number
+            details.numberOfUses ?? -1,
+            details.stackable,
+            details.active,
+          ]
+        );
+        await setDiscountCodeScopes(
+          client,
+          codeCreatedResponse.rows[0].id,
+          details.scopes
+        );
+        await client.query("COMMIT");
+        resolve(EDatabaseResponses.OK);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        if ((err as ICustomError).code === UNIQUE_CONSTRAINT_FAILED) {
+          resolve(EDatabaseResponses.CONFLICT);
+        } else {
+          console.error(err);
+          reject(err);
+        }
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Update a discount code. Orders that already used the code are not changed
+ * @param discountCodeId The id of the discount code
+ * @param details The new rules, uses, flags and scopes for the code
+ * @returns EDatabaseResponses.OK if the code is updated,
+ * EDatabaseResponses.DOES_NOT_EXIST if the code does not exist.
+ * Rejects on database errors
+ */
+export const updateDiscountCode = (
+  discountCodeId: number,
+  details: TDiscountCodeDetails
+): Promise<EDatabaseResponses> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const codeUpdatedResponse = await client.query(
+          `
+        UPDATE discount_codes SET
+          discount_type = $1, percent_off = $2, amount_off = $3, min_spend = $4, starts_on = $5, ends_on = $6,
+          max_uses_per_customer = $7, first_order_only = $8, number_of_uses = $9, stackable = $10, active = $11
+        WHERE id = $12
+        `,
+          [
+            details.discountType,
+            details.percent,
+            details.amountOff,
+            details.minSpend,
+            details.startsOn,
+            details.endsOn,
+            details.maxUsesPerCustomer,
+            details.firstOrderOnly,
+            details.numberOfUses ?? -1,
+            details.stackable,
+            details.active,
+            discountCodeId,
+          ]
+        );
+        if (codeUpdatedResponse.rowCount <= 0) {
+          await client.query("ROLLBACK");
+          return resolve(EDatabaseResponses.DOES_NOT_EXIST);
+        }
+        await setDiscountCodeScopes(client, discountCodeId, details.scopes);
+        await client.query("COMMIT");
+        resolve(EDatabaseResponses.OK);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        reject(err);
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Stop a discount code being used. The code is kept, as orders that used it
+ * still refer to it
+ * @param discountCodeId The id of the discount code
+ * @returns EDatabaseResponses.OK if the code is deactivated,
+ * EDatabaseResponses.DOES_NOT_EXIST if the code does not exist.
+ * Rejects on database errors
+ */
+export const deactivateDiscountCode = (
+  discountCodeId: number
+): Promise<EDatabaseResponses> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      "UPDATE discount_codes SET active = false WHERE id = $1",
+      [discountCodeId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(
+            res.rowCount > 0
+              ? EDatabaseResponses.OK
+              : EDatabaseResponses.DOES_NOT_EXIST
+          );
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get every order a discount code was used on
+ * @param discountCodeId The id of the discount code
+ * @returns A list of orders, newest first, or null if the code does not exist.
+ * Rejects on database errors
+ */
+export const getOrdersUsingDiscountCode = (
+  discountCodeId: number
+): Promise<TDiscountCodeOrder[] | null> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      orders.id,
+      orders.customer_id AS "customerId",
+      order_statuses.status,
+      ${majorUnitsSql("orders.price_paid")} AS "pricePaid",
+      orders.placed_on AS "placedOn"
+    FROM discount_codes
+    LEFT JOIN discount_codes_for_order ON discount_codes_for_order.discount_code_id = discount_codes.id
+    LEFT JOIN orders ON orders.id = discount_codes_for_order.order_id
+    LEFT JOIN order_statuses ON order_statuses.id = orders.status_id
+    WHERE discount_codes.id = $1
+    ORDER BY orders.placed_on DESC
+    `,
+      [discountCodeId],
       (err, res) => {
         if (err) {
+          console.error(err);
           reject(err);
+        } else if (res.rowCount <= 0) {
+          resolve(null);
         } else {
-          resolve(res.rowCount > 0 ? res.rows[0] : null);
+          // A code that was never used still gives back one empty row
+          resolve(res.rows.filter((row) => row.id !== null));
         }
       }
     );
@@ -0,0 +1,310 @@
+import { EOrderStatus } from "../common/order-status";
+import pool from "../data/data";
+import { TAccountAuth } from "../security/security";
+import { EOrderStatusUpdateResponse, moveOrderToStatus } from "./orders.models";
+
+// Order statuses that still have products waiting to be shipped
+const STATUSES_AWAITING_FULFILMENT = [
+  EOrderStatus.placed,
+  EOrderStatus.packed,
+  EOrderStatus.partiallyShipped,
+];
+
+// The quantity of each order line that has not been sent in a shipment yet
+const REMAINING_ORDER_LINES_QUERY = `
+  SELECT
+    product_orders.order_id,
+    product_orders.product_id,
+    product_orders.quantity - COALESCE((
+      SELECT sum(order_shipment_items.quantity)
+      FROM order_shipment_items
+      JOIN order_shipments ON order_shipments.id = order_shipment_items.shipment_id
+      WHERE order_shipments.order_id = product_orders.order_id
+      AND order_shipment_items.product_id = product_orders.product_id
+    ), 0)::integer AS remaining
+  FROM product_orders
+`;
+
+type TFulfilmentQueueEntry = {
+  // The id of the order
+  id: number;
+  // The current status of the order
+  status: string;
+  // The date the order was placed
+  placedOn: Date;
+  // The number of items in the order still to be shipped
+  itemsRemaining: number;
+};
+
+type TPickListEntry = {
+  // The id of the product to pick
+  productId: number;
+  // The name of the product to pick
+  productName: string;
+  // The total quantity to pick across all orders
+  quantity: number;
+  // The orders the product is being picked for
+  orderIds: number[];
+};
+
+export type TShipmentItem = {
+  // The id of the product shipped
+  productId: number;
+  // The amount of the product shipped
+  quantity: number;
+};
+
+type TShipment = {
+  // The id of the shipment
+  id: number;
+  // The date the shipment was sent
+  shippedOn: Date;
+  // The products sent in the shipment
+  items: TShipmentItem[];
+};
+
+/**
+ * Get the orders that still have products waiting to be shipped
+ * @returns A list of orders, oldest first. Rejects on database errors
+ */
+export const getFulfilmentQueue = (): Promise<TFulfilmentQueueEntry[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      orders.id,
+      order_statuses.status,
+      orders.placed_on AS "placedOn",
+      sum(remaining_lines.remaining)::integer AS "itemsRemaining"
+    FROM orders
+    JOIN order_statuses ON orders.status_id = order_statuses.id
+    JOIN (${REMAINING_ORDER_LINES_QUERY}) AS remaining_lines ON remaining_lines.order_id = orders.id
+    WHERE order_statuses.status = ANY($1)
+    GROUP BY orders.id, order_statuses.status
+    HAVING sum(remaining_lines.remaining) > 0
+    ORDER BY orders.placed_on ASC
+    `,
+      [STATUSES_AWAITING_FULFILMENT],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get a pick list of products still to be shipped, grouped by product across
+ * orders
+ * @param orderIds The orders to build the pick list for. Every order in the
+ * fulfilment queue is used if not supplied
+ * @returns A list of products to pick. Rejects on database errors
+ */
+export const getPickList = (orderIds?: number[]): Promise<TPickListEntry[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      remaining_lines.product_id AS "productId",
+      product_view.name AS "productName",
+      sum(remaining_lines.remaining)::integer AS "quantity",
+      array_agg(remaining_lines.order_id ORDER BY remaining_lines.order_id) AS "orderIds"
+    FROM (${REMAINING_ORDER_LINES_QUERY}) AS remaining_lines
+    JOIN orders ON orders.id = remaining_lines.order_id
+    JOIN order_statuses ON orders.status_id = order_statuses.id
+    LEFT JOIN product_view ON product_view.id = remaining_lines.product_id
+    WHERE order_statuses.status = ANY($1)
+    AND remaining_lines.remaining > 0
+    AND ($2::integer[] IS NULL OR remaining_lines.order_id = ANY($2))
+    GROUP BY remaining_lines.product_id, product_view.name
+    ORDER BY product_view.name ASC
+    `,
+      [STATUSES_AWAITING_FULFILMENT, orderIds ?? null],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+export enum ECreateShipmentResponse {
+  // The shipment was created
+  OK,
+  // No order exists with the id
+  ORDER_NOT_EXIST,
+  // An item is not in the order, or more is being shipped than is remaining
+  ITEMS_INVALID,
+  // The order is not in a status that can be shipped from
+  TRANSITION_NOT_ALLOWED,
+}
+
+/**
+ * Ship some, or all, of the products remaining in an order. Anything not
+ * shipped stays on the order as backordered, and the order is moved to
+ * partially shipped or shipped to match
+ * @param orderId The id of the order
+ * @param items The products and quantities being shipped
+ * @param actor The account creating the shipment
+ * @returns An ECreateShipmentResponse. Rejects on database errors
+ */
+export const createShipmentForOrder = (
+  orderId: number,
+  items: TShipmentItem[],
+  actor: TAccountAuth
+): Promise<ECreateShipmentResponse> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        let createResponse = ECreateShipmentResponse.OK;
+        const orderResponse = await client.query(
+          `
+        SELECT order_statuses.status
+        FROM orders
+        LEFT JOIN order_statuses ON orders.status_id = order_statuses.id
+        WHERE orders.id = $1
+        FOR UPDATE OF orders
+        `,
+          [orderId]
+        );
+        if (orderResponse.rowCount <= 0) {
+          createResponse = ECreateShipmentResponse.ORDER_NOT_EXIST;
+        } else {
+          const remainingResponse = await client.query(
+            `SELECT product_id AS "productId", remaining FROM (${REMAINING_ORDER_LINES_QUERY}) AS remaining_lines WHERE order_id = $1`,
+            [orderId]
+          );
+          const remainingLines: { productId: number; remaining: number }[] =
+            remainingResponse.rows;
+          const itemsValid =
+            items.length > 0 &&
+            new Set(items.map((item) => item.productId)).size ===
+              items.length &&
+            items.every((item) => {
+              const line = remainingLines.find(
+                (entry) => entry.productId === item.productId
+              );
+              return (
+                line !== undefined &&
+                item.quantity > 0 &&
+                item.quantity <= line.remaining
+              );
+            });
+          if (!itemsValid) {
+            createResponse = ECreateShipmentResponse.ITEMS_INVALID;
+          } else {
+            const unitsRemaining =
+              remainingLines.reduce((prev, line) => prev + line.remaining, 0) -
+              items.reduce((prev, item) => prev + item.quantity, 0);
+            const newStatusName =
+              unitsRemaining > 0
+                ? EOrderStatus.partiallyShipped
+                : EOrderStatus.shipped;
+            // An order already partially shipped stays that way until the last shipment
+            if (orderResponse.rows[0].status !== newStatusName) {
+              const newStatusResponse = await client.query(
+                "SELECT id, status FROM order_statuses WHERE status = $1",
+                [newStatusName]
+              );
+              const statusResponse =
+                newStatusResponse.rowCount > 0
+                  ? await moveOrderToStatus(
+                      client,
+                      orderId,
+                      newStatusResponse.rows[0],
+                      actor
+                    )
+                  : EOrderStatusUpdateResponse.STATUS_NOT_EXIST;
+              if (statusResponse !== EOrderStatusUpdateResponse.OK) {
+                createResponse = ECreateShipmentResponse.TRANSITION_NOT_ALLOWED;
+              }
+            }
+            if (createResponse === ECreateShipmentResponse.OK) {
+              const shipmentCreatedResponse = await client.query(
+                "INSERT INTO order_shipments(order_id, account_id) VALUES ($1, $2) RETURNING id",
+                [orderId, actor.user_id]
+              );
+              await Promise.all(
+                items.map(async (item) => {
+                  await client.query(
+                    "INSERT INTO order_shipment_items(shipment_id, product_id, quantity) VALUES ($1, $2, $3)",
+                    [
+                      shipmentCreatedResponse.rows[0].id,
+                      item.productId,
+                      item.quantity,
+                    ]
+                  );
+                })
+              );
+            }
+          }
+        }
+        if (createResponse === ECreateShipmentResponse.OK) {
+          await client.query("COMMIT");
+        } else {
+          await client.query("ROLLBACK");
+        }
+        resolve(createResponse);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        reject(err);
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Get the shipments that have been sent for an order
+ * @param orderId The id of the order
+ * @param customerId If set, the order must belong to this customer
+ * @returns A list of shipments, oldest first. Rejects on database errors
+ */
+export const getShipmentsForOrder = (
+  orderId: number,
+  customerId?: number
+): Promise<TShipment[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      order_shipments.id,
+      order_shipments.shipped_on AS "shippedOn",
+      json_agg(json_build_object(
+        'productId', order_shipment_items.product_id,
+        'quantity', order_shipment_items.quantity
+      )) AS "items"
+    FROM order_shipments
+    JOIN orders ON orders.id = order_shipments.order_id
+    LEFT JOIN order_shipment_items ON order_shipment_items.shipment_id = order_shipments.id
+    WHERE order_shipments.order_id = $1 AND ($2::integer IS NULL OR orders.customer_id = $2)
+    GROUP BY order_shipments.id
+    ORDER BY order_shipments.shipped_on ASC
+    `,
+      [orderId, customerId ?? null],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
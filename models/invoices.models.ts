@@ -0,0 +1,241 @@
+import { PoolClient } from "pg";
+import pool from "../data/data";
+import {
+  formatMoney,
+  majorUnitsSql,
+  minorUnitsSql,
+  TMoney,
+} from "../common/money";
+import { recordOrderRefund, refundOrderPayment } from "./payments.models";
+
+type TInvoice = {
+  // The sequential number of the invoice
+  invoiceNumber: number;
+  // The id of the order the invoice is for
+  orderId: number;
+  // The date the invoice was issued
+  issuedOn: Date;
+};
+
+type TCreditNote = {
+  // The id of the credit note
+  id: number;
+  // The sequential number of the credit note
+  creditNoteNumber: number;
+  // The id of the order the credit note is against
+  orderId: number;
+  // The id of the return that was refunded, null if the order was cancelled
+  returnId: number | null;
+  // The amount credited back to the customer
+  amount: number;
+  // The reason the credit note was issued
+  reason: string;
+  // The date the credit note was issued
+  issuedOn: Date;
+};
+
+/**
+ * Get the invoice for an order, issuing the next invoice number to the order
+ * the first time it is asked for
+ * @param orderId The id of the order
+ * @returns The invoice for the order. Rejects on database errors
+ */
+export const getOrIssueInvoiceForOrder = (
+  orderId: number
+): Promise<TInvoice> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      // The invoice number comes from a sequence, so numbers are never reused
+      await pool.query(
+        "INSERT INTO order_invoices(order_id) VALUES ($1) ON CONFLICT (order_id) DO NOTHING",
+        [orderId]
+      );
+      const invoiceResponse = await pool.query(
+        `
+      SELECT
+        invoice_number AS "invoiceNumber",
+        order_id AS "orderId",
+        issued_on AS "issuedOn"
+      FROM order_invoices
+      WHERE order_id = $1
+      `,
+        [orderId]
+      );
+      resolve(invoiceResponse.rows[0]);
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+// The states a refund asked for against an order moves through
+enum ERefundStatus {
+  // Waiting to be sent to the payment provider
+  pending = "pending",
+  // Sent to the payment provider, waiting for its answer
+  processing = "processing",
+  // Refunded, with its credit note issued
+  refunded = "refunded",
+  // The payment provider declined the refund
+  declined = "declined",
+}
+
+/**
+ * Ask for a credit note against an order inside an already open transaction.
+ * The refund is saved as pending, and is made with the payment provider by
+ * issuePendingCreditNotes once the transaction is committed, so no locks are
+ * held while the provider answers
+ * @param client The client with the open transaction
+ * @param orderId The id of the order being credited
+ * @param amount The amount credited back to the customer in minor units
+ * @param reason The reason for the credit note
+ * @param returnId The id of the return being refunded, if any
+ */
+export const requestCreditNote = async (
+  client: PoolClient,
+  orderId: number,
+  amount: TMoney,
+  reason: string,
+  returnId?: number
+) => {
+  await client.query(
+    "INSERT INTO order_refunds(order_id, return_id, amount, reason, status) VALUES ($1, $2, $3, $4, $5)",
+    [
+      orderId,
+      returnId ?? null,
+      formatMoney(amount),
+      reason,
+      ERefundStatus.pending,
+    ]
+  );
+};
+
+/**
+ * Make a pending refund with the payment provider, then issue its credit note.
+ * A refund the provider can't be reached for is left pending to be tried
+ * again. A refund made that can't then be recorded is left processing, to be
+ * checked against the provider
+ * @param refundId The id of the pending refund
+ */
+const issueCreditNoteForRefund = async (refundId: number) => {
+  // Claim the refund, so it is only sent to the provider once
+  const claimResponse = await pool.query(
+    `
+  UPDATE order_refunds SET status = $2
+  WHERE id = $1 AND status = $3
+  RETURNING
+    order_id AS "orderId",
+    return_id AS "returnId",
+    ${minorUnitsSql("amount")} AS "amount",
+    reason
+  `,
+    [refundId, ERefundStatus.processing, ERefundStatus.pending]
+  );
+  if (claimResponse.rowCount <= 0) {
+    return;
+  }
+  const refund = claimResponse.rows[0];
+
+  let refunded: boolean;
+  try {
+    refunded = await refundOrderPayment(refund.orderId, refund.amount);
+  } catch (err) {
+    console.error(err);
+    await pool.query("UPDATE order_refunds SET status = $1 WHERE id = $2", [
+      ERefundStatus.pending,
+      refundId,
+    ]);
+    return;
+  }
+  if (!refunded) {
+    await pool.query("UPDATE order_refunds SET status = $1 WHERE id = $2", [
+      ERefundStatus.declined,
+      refundId,
+    ]);
+    return;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await recordOrderRefund(client, refund.orderId, refund.amount);
+    await client.query("UPDATE order_refunds SET status = $1 WHERE id = $2", [
+      ERefundStatus.refunded,
+      refundId,
+    ]);
+    await client.query(
+      "INSERT INTO order_credit_notes(order_id, return_id, amount, reason) VALUES ($1, $2, $3, $4)",
+      [
+        refund.orderId,
+        refund.returnId,
+        formatMoney(refund.amount),
+        refund.reason,
+      ]
+    );
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    console.error(`Refund ${refundId} was made but could not be recorded`);
+    throw err;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Make the pending refunds for an order, or for every order, and issue their
+ * credit notes. Called once the transaction asking for them is committed, and
+ * regularly to try again refunds the provider could not be reached for.
+ * Errors are logged
+ * @param orderId The id of the order, or undefined for every order
+ */
+export const issuePendingCreditNotes = async (orderId?: number) => {
+  try {
+    const pendingResponse = await pool.query(
+      "SELECT id FROM order_refunds WHERE status = $1 AND ($2::integer IS NULL OR order_id = $2) ORDER BY id ASC",
+      [ERefundStatus.pending, orderId ?? null]
+    );
+    for (const refund of pendingResponse.rows) {
+      await issueCreditNoteForRefund(refund.id);
+    }
+  } catch (err) {
+    console.error(err);
+  }
+};
+
+/**
+ * Get the credit notes issued against an order
+ * @param orderId The id of the order
+ * @returns A list of credit notes, oldest first. Rejects on database errors
+ */
+export const getCreditNotesForOrder = (
+  orderId: number
+): Promise<TCreditNote[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      id,
+      credit_note_number AS "creditNoteNumber",
+      order_id AS "orderId",
+      return_id AS "returnId",
+      ${majorUnitsSql("amount")} AS "amount",
+      reason,
+      issued_on AS "issuedOn"
+    FROM order_credit_notes
+    WHERE order_id = $1
+    ORDER BY issued_on ASC
+    `,
+      [orderId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
@@ -0,0 +1,486 @@
+import {
+  EReturnStatus,
+  isReturnStatusTransitionAllowed,
+} from "../common/return-status";
+import { EOrderStatus } from "../common/order-status";
+import {
+  allocateMoney,
+  formatMoney,
+  majorUnitsSql,
+  minorUnitsSql,
+  roundMoney,
+  sumMoney,
+} from "../common/money";
+import pool from "../data/data";
+import { EAccountTypes } from "../security/security";
+import { issuePendingCreditNotes, requestCreditNote } from "./invoices.models";
+
+export type TReturnItem = {
+  // The id of the product being returned
+  productId: number;
+  // The amount of the product being returned
+  quantity: number;
+};
+
+type TReturnEntry = {
+  // The id of the return
+  id: number;
+  // The id of the order the return is for
+  orderId: number;
+  // The current status of the return
+  status: EReturnStatus;
+  // The reason the customer gave for the return
+  reason: string;
+  // The amount to refund, after the discounts taken off the returned items
+  refundAmount: number;
+  // The date the return was requested
+  requestedOn: Date;
+};
+
+type TReturnStatusHistoryEntry = {
+  // The status the return was moved to
+  status: EReturnStatus;
+  // The date the status was changed
+  changedOn: Date;
+};
+
+type TReturnDetails = TReturnEntry & {
+  items: (TReturnItem & { productName: string; price: number })[];
+  history: TReturnStatusHistoryEntry[];
+};
+
+export enum EReturnRequestResponse {
+  // The return was requested
+  OK,
+  // The order does not exist, or does not belong to the customer
+  ORDER_NOT_EXIST,
+  // Only delivered orders can be returned
+  ORDER_NOT_DELIVERED,
+  // An item is not in the order, or more is being returned than was ordered
+  ITEMS_INVALID,
+}
+
+/**
+ * Request a return for items from a delivered order. The refund amount is
+ * calculated from the price paid for each item, after the discounts taken off
+ * its line
+ * @param customerId The id of the customer requesting the return
+ * @param accountId The account id of the customer requesting the return
+ * @param orderId The id of the order the items are from
+ * @param reason The reason for the return
+ * @param items The products and quantities to return
+ * @returns An EReturnRequestResponse. Rejects on database errors
+ */
+export const requestReturnForOrder = (
+  customerId: number,
+  accountId: number,
+  orderId: number,
+  reason: string,
+  items: TReturnItem[]
+): Promise<EReturnRequestResponse> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        let requestResponse = EReturnRequestResponse.OK;
+        // Lock the order so two requests can't return the same items
+        await client.query("SELECT id FROM orders WHERE id = $1 FOR UPDATE", [
+          orderId,
+        ]);
+        const orderResponse = await client.query(
+          `
+        SELECT
+          order_statuses.status,
+          ${minorUnitsSql("orders.price_paid")} AS "pricePaid"
+        FROM orders
+        LEFT JOIN order_statuses ON orders.status_id = order_statuses.id
+        WHERE orders.id = $1 AND orders.customer_id = $2
+        `,
+          [orderId, customerId]
+        );
+        if (orderResponse.rowCount <= 0) {
+          requestResponse = EReturnRequestResponse.ORDER_NOT_EXIST;
+        } else if (orderResponse.rows[0].status !== EOrderStatus.delivered) {
+          requestResponse = EReturnRequestResponse.ORDER_NOT_DELIVERED;
+        } else {
+          // The quantity of each product that can still be returned, ignoring rejected returns
+          const returnableResponse = await client.query(
+            `
+          SELECT
+            product_orders.product_id AS "productId",
+            ${minorUnitsSql(
+              "product_orders.item_price_at_purchase"
+            )} AS "price",
+            product_orders.quantity,
+            ${minorUnitsSql("product_orders.discount_amount")} AS "discount",
+            ${minorUnitsSql(`
+              product_orders.item_price_at_purchase::numeric * product_orders.quantity
+              - COALESCE(product_orders.discount_amount::numeric, 0)
+              + CASE WHEN orders.prices_include_tax THEN 0 ELSE COALESCE(product_orders.tax_amount::numeric, 0) END
+            `)} AS "linePaid",
+            product_orders.quantity - COALESCE((
+              SELECT sum(order_return_items.quantity)
+              FROM order_return_items
+              JOIN order_returns ON order_returns.id = order_return_items.return_id
+              WHERE order_returns.order_id = product_orders.order_id
+              AND order_return_items.product_id = product_orders.product_id
+              AND order_returns.status != $2
+            ), 0)::integer AS "returnable",
+            ${minorUnitsSql(`COALESCE((
+              SELECT sum(order_return_items.refund_amount::numeric)
+              FROM order_return_items
+              JOIN order_returns ON order_returns.id = order_return_items.return_id
+              WHERE order_returns.order_id = product_orders.order_id
+              AND order_return_items.product_id = product_orders.product_id
+              AND order_returns.status != $2
+            ), 0)`)} AS "refunded"
+          FROM product_orders
+          JOIN orders ON orders.id = product_orders.order_id
+          WHERE product_orders.order_id = $1
+          `,
+            [orderId, EReturnStatus.rejected]
+          );
+          const returnable: {
+            productId: number;
+            price: number;
+            quantity: number;
+            discount: number | null;
+            linePaid: number;
+            returnable: number;
+            refunded: number;
+          }[] = returnableResponse.rows;
+          const itemsValid =
+            items.length > 0 &&
+            new Set(items.map((item) => item.productId)).size ===
+              items.length &&
+            items.every((item) => {
+              const line = returnable.find(
+                (entry) => entry.productId === item.productId
+              );
+              return (
+                line !== undefined &&
+                item.quantity > 0 &&
+                item.quantity <= line.returnable
+              );
+            });
+          if (!itemsValid) {
+            requestResponse = EReturnRequestResponse.ITEMS_INVALID;
+          } else {
+            // Refund what was paid for each item after its line's discounts.
+            // Older orders did not record line discounts, so the order's
+            // price paid is shared across the lines by their totals instead.
+            // An item's refund is its line's paid amount for every item
+            // returned so far, less what the line's earlier returns refund,
+            // so the returns of a line never add up to more than was paid
+            const orderShares = allocateMoney(
+              orderResponse.rows[0].pricePaid,
+              returnable.map((line) => line.price * line.quantity)
+            );
+            const itemRefunds = items.map((item) => {
+              const lineIndex = returnable.findIndex(
+                (entry) => entry.productId === item.productId
+              );
+              const line = returnable[lineIndex];
+              const linePaid =
+                line.discount === null ? orderShares[lineIndex] : line.linePaid;
+              const returned = line.quantity - line.returnable + item.quantity;
+              return Math.max(
+                roundMoney((linePaid * returned) / line.quantity) -
+                  line.refunded,
+                0
+              );
+            });
+            const refundAmount = sumMoney(itemRefunds);
+
+            const returnCreatedResponse = await client.query(
+              "INSERT INTO order_returns(order_id, reason, status, refund_amount) VALUES ($1, $2, $3, $4) RETURNING id",
+              [
+                orderId,
+                reason,
+                EReturnStatus.requested,
+                formatMoney(refundAmount),
+              ]
+            );
+            const returnId = returnCreatedResponse.rows[0].id;
+            await Promise.all(
+              items.map(async (item, index) => {
+                await client.query(
+                  "INSERT INTO order_return_items(return_id, product_id, quantity, refund_amount) VALUES ($1, $2, $3, $4)",
+                  [
+                    returnId,
+                    item.productId,
+                    item.quantity,
+                    formatMoney(itemRefunds[index]),
+                  ]
+                );
+              })
+            );
+            await client.query(
+              "INSERT INTO order_return_status_history(return_id, status, account_id) VALUES ($1, $2, $3)",
+              [returnId, EReturnStatus.requested, accountId]
+            );
+          }
+        }
+        await client.query("COMMIT");
+        resolve(requestResponse);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        reject(err);
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Get the returns requested for an order
+ * @param orderId The id of the order
+ * @param customerId The id of the customer the order belongs to
+ * @returns A list of returns for the order. Rejects on database errors
+ */
+export const getReturnsForOrder = (
+  orderId: number,
+  customerId: number
+): Promise<TReturnEntry[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      order_returns.id,
+      order_returns.order_id AS "orderId",
+      order_returns.status,
+      order_returns.reason,
+      ${majorUnitsSql("order_returns.refund_amount")} AS "refundAmount",
+      order_returns.requested_on AS "requestedOn"
+    FROM order_returns
+    JOIN orders ON orders.id = order_returns.order_id
+    WHERE order_returns.order_id = $1 AND orders.customer_id = $2
+    ORDER BY order_returns.requested_on DESC
+    `,
+      [orderId, customerId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get all returns currently in a status, for staff to work through
+ * @param status The status of the returns to get
+ * @returns A list of returns, oldest first. Rejects on database errors
+ */
+export const getReturnsWithStatus = (
+  status: EReturnStatus
+): Promise<TReturnEntry[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      id,
+      order_id AS "orderId",
+      status,
+      reason,
+      ${majorUnitsSql("refund_amount")} AS "refundAmount",
+      requested_on AS "requestedOn"
+    FROM order_returns
+    WHERE status = $1
+    ORDER BY requested_on ASC
+    `,
+      [status],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get the details of a single return, including its items and status history
+ * @param returnId The id of the return
+ * @param customerId If set, the return must be for an order placed by this customer
+ * @returns The return details, or null if the return does not exist.
+ * Rejects on database errors
+ */
+export const getReturnDetails = (
+  returnId: number,
+  customerId?: number
+): Promise<TReturnDetails | null> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const returnResponse = await pool.query(
+        `
+      SELECT
+        order_returns.id,
+        order_returns.order_id AS "orderId",
+        order_returns.status,
+        order_returns.reason,
+        ${majorUnitsSql("order_returns.refund_amount")} AS "refundAmount",
+        order_returns.requested_on AS "requestedOn"
+      FROM order_returns
+      JOIN orders ON orders.id = order_returns.order_id
+      WHERE order_returns.id = $1 AND ($2::integer IS NULL OR orders.customer_id = $2)
+      `,
+        [returnId, customerId ?? null]
+      );
+      if (returnResponse.rowCount <= 0) {
+        return resolve(null);
+      }
+      const itemsResponse = await pool.query(
+        `
+      SELECT
+        order_return_items.product_id AS "productId",
+        product_view.name AS "productName",
+        order_return_items.quantity,
+        ${majorUnitsSql("product_orders.item_price_at_purchase")} AS "price"
+      FROM order_return_items
+      JOIN order_returns ON order_returns.id = order_return_items.return_id
+      LEFT JOIN product_orders ON product_orders.order_id = order_returns.order_id
+        AND product_orders.product_id = order_return_items.product_id
+      LEFT JOIN product_view ON product_view.id = order_return_items.product_id
+      WHERE order_return_items.return_id = $1
+      `,
+        [returnId]
+      );
+      const historyResponse = await pool.query(
+        `
+      SELECT status, changed_on AS "changedOn"
+      FROM order_return_status_history
+      WHERE return_id = $1
+      ORDER BY changed_on ASC
+      `,
+        [returnId]
+      );
+      resolve({
+        ...returnResponse.rows[0],
+        items: itemsResponse.rows,
+        history: historyResponse.rows,
+      });
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+export enum EReturnStatusUpdateResponse {
+  // The return status was updated
+  OK,
+  // No return exists with the id
+  RETURN_NOT_EXIST,
+  // The account type is not allowed to move the return to the new status
+  TRANSITION_NOT_ALLOWED,
+}
+
+/**
+ * Move a return to a new status, recording the change in its status history.
+ * Refunding a return asks for a credit note for the refund amount, which is
+ * refunded and issued once the change is committed
+ * @param returnId The id of the return
+ * @param newStatus The status to move the return to
+ * @param accountType The type of account making the change
+ * @param accountId The id of the account making the change
+ * @returns An EReturnStatusUpdateResponse. Rejects on database errors
+ */
+export const updateReturnStatus = (
+  returnId: number,
+  newStatus: EReturnStatus,
+  accountType: EAccountTypes,
+  accountId: number
+): Promise<EReturnStatusUpdateResponse> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      let updateResponse = EReturnStatusUpdateResponse.OK;
+      let refundedOrderId: number | null = null;
+      try {
+        await client.query("BEGIN");
+        const currentStatusResponse = await client.query(
+          `
+        SELECT status, order_id AS "orderId", ${minorUnitsSql(
+          "refund_amount"
+        )} AS "refundAmount"
+        FROM order_returns
+        WHERE id = $1
+        FOR UPDATE
+        `,
+          [returnId]
+        );
+        if (currentStatusResponse.rowCount <= 0) {
+          updateResponse = EReturnStatusUpdateResponse.RETURN_NOT_EXIST;
+        } else if (
+          !isReturnStatusTransitionAllowed(
+            accountType,
+            currentStatusResponse.rows[0].status,
+            newStatus
+          )
+        ) {
+          updateResponse = EReturnStatusUpdateResponse.TRANSITION_NOT_ALLOWED;
+        } else {
+          if (newStatus === EReturnStatus.received) {
+            // Returned items go back into stock once the warehouse has them
+            await client.query(
+              `
+            UPDATE product_stock_levels SET amount = amount + order_return_items.quantity
+            FROM order_return_items
+            WHERE order_return_items.product_id = product_stock_levels.product_id
+            AND order_return_items.return_id = $1
+            `,
+              [returnId]
+            );
+          }
+          if (newStatus === EReturnStatus.refunded) {
+            await requestCreditNote(
+              client,
+              currentStatusResponse.rows[0].orderId,
+              currentStatusResponse.rows[0].refundAmount,
+              "Items returned",
+              returnId
+            );
+            refundedOrderId = currentStatusResponse.rows[0].orderId;
+          }
+          await client.query(
+            "UPDATE order_returns SET status = $1 WHERE id = $2",
+            [newStatus, returnId]
+          );
+          await client.query(
+            "INSERT INTO order_return_status_history(return_id, status, account_id) VALUES ($1, $2, $3)",
+            [returnId, newStatus, accountId]
+          );
+        }
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        return reject(err);
+      } finally {
+        client.release();
+      }
+      // The refund is made once the return is saved as refunded, so no locks
+      // are held while the payment provider answers
+      if (refundedOrderId !== null) {
+        await issuePendingCreditNotes(refundedOrderId);
+      }
+      resolve(updateResponse);
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
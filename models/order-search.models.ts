@@ -0,0 +1,251 @@
+import pool from "../data/data";
+import { majorUnitsSql } from "../common/money";
+import { isValidDate } from "../common/validation";
+
+export type TOrderSearchFilters = {
+  // Only orders currently in this status
+  status?: string;
+  // Only orders placed on or after this date
+  placedFrom?: Date;
+  // Only orders placed on or before this date
+  placedTo?: Date;
+  // Only orders placed by the customer with this email
+  customerEmail?: string;
+  // Only orders containing this product
+  productId?: number;
+  // Only orders that used this discount code
+  discountCode?: string;
+  // Only orders where the amount paid is at least this much
+  minPricePaid?: number;
+  // Only orders where the amount paid is at most this much
+  maxPricePaid?: number;
+};
+
+// The columns an order search can be sorted by
+export enum EOrderSearchSort {
+  placedOn = "placedOn",
+  pricePaid = "pricePaid",
+}
+
+const ORDER_SEARCH_SORT_COLUMNS: Record<EOrderSearchSort, string> = {
+  [EOrderSearchSort.placedOn]: "orders.placed_on",
+  [EOrderSearchSort.pricePaid]: "orders.price_paid::numeric",
+};
+
+type TOrderSearchEntry = {
+  // The id of the order
+  id: number;
+  // The id of the customer who placed the order
+  customerId: number;
+  // The email of the customer who placed the order
+  customerEmail: string;
+  // The current status of the order
+  status: string;
+  // The number of products in the order
+  productCount: number;
+  // The amount paid for the order
+  pricePaid: number;
+  // The date the order was placed
+  placedOn: Date;
+};
+
+type TOrderSearchPage = {
+  orders: TOrderSearchEntry[];
+  // Pass back to get the next page, null if there are no more orders
+  nextCursor: string | null;
+};
+
+export type TOrderSearchCursor = {
+  // The column the search was sorted by
+  sort: EOrderSearchSort;
+  // True if the search was sorted smallest first
+  ascending: boolean;
+  // The value of the sort column for the last order on the page
+  sortValue: string;
+  // The id of the last order on the page
+  orderId: number;
+};
+
+/**
+ * Encode the position of an order in a sorted search, so the next page can
+ * start after it
+ * @param cursor The sort used and the position of the order
+ * @returns An opaque cursor string
+ */
+const encodeOrderSearchCursor = (cursor: TOrderSearchCursor) => {
+  return Buffer.from(
+    JSON.stringify([
+      cursor.sort,
+      cursor.ascending,
+      cursor.sortValue,
+      cursor.orderId,
+    ])
+  ).toString("base64url");
+};
+
+/**
+ * Decode a cursor made by encodeOrderSearchCursor
+ * @param cursor The cursor to decode
+ * @returns The sort used and the position of the order, or null if the cursor
+ * is invalid
+ */
+export const decodeOrderSearchCursor = (
+  cursor: string
+): TOrderSearchCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      !Array.isArray(decoded) ||
+      decoded.length !== 4 ||
+      !Object.values(EOrderSearchSort).includes(decoded[0]) ||
+      typeof decoded[1] !== "boolean" ||
+      typeof decoded[2] !== "string" ||
+      typeof decoded[3] !== "number"
+    ) {
+      return null;
+    }
+    // The sort value is compared with the sort column, so must match its type
+    const sortValueValid =
+      decoded[0] === EOrderSearchSort.pricePaid
+        ? decoded[2] !== "" && !Number.isNaN(Number(decoded[2]))
+        : isValidDate(decoded[2]);
+    if (!sortValueValid) {
+      return null;
+    }
+    return {
+      sort: decoded[0],
+      ascending: decoded[1],
+      sortValue: decoded[2],
+      orderId: decoded[3],
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Search every order placed, for staff
+ * @param filters The filters the orders must match
+ * @param sort The column to sort by
+ * @param ascending True to sort smallest first, false for largest first
+ * @param limit The maximum number of orders to return
+ * @param cursor The decoded nextCursor from the previous page, if any. It
+ * must have been made with the same sort
+ * @returns A page of orders with the cursor for the next page.
+ * Rejects on database errors
+ */
+export const searchOrders = (
+  filters: TOrderSearchFilters,
+  sort: EOrderSearchSort,
+  ascending: boolean,
+  limit: number,
+  cursor?: TOrderSearchCursor
+): Promise<TOrderSearchPage> => {
+  return new Promise((resolve, reject) => {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    // Add a value to the query, giving back its parameter name
+    const addValue = (value: any) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if (filters.status !== undefined) {
+      conditions.push(`order_statuses.status = ${addValue(filters.status)}`);
+    }
+    if (filters.placedFrom !== undefined) {
+      conditions.push(`orders.placed_on >= ${addValue(filters.placedFrom)}`);
+    }
+    if (filters.placedTo !== undefined) {
+      conditions.push(`orders.placed_on <= ${addValue(filters.placedTo)}`);
+    }
+    if (filters.customerEmail !== undefined) {
+      conditions.push(
+        `lower(accounts.email) = lower(${addValue(filters.customerEmail)})`
+      );
+    }
+    if (filters.productId !== undefined) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM product_orders WHERE product_orders.order_id = orders.id AND product_orders.product_id = ${addValue(
+          filters.productId
+        )})`
+      );
+    }
+    if (filters.discountCode !== undefined) {
+      conditions.push(
+        `EXISTS (
+          SELECT 1 FROM discount_codes_for_order
+          JOIN discount_codes ON discount_codes.id = discount_codes_for_order.discount_code_id
+          WHERE discount_codes_for_order.order_id = orders.id AND discount_codes.code = ${addValue(
+            filters.discountCode
+          )}
+        )`
+      );
+    }
+    if (filters.minPricePaid !== undefined) {
+      conditions.push(
+        `orders.price_paid::numeric >= ${addValue(filters.minPricePaid)}`
+      );
+    }
+    if (filters.maxPricePaid !== undefined) {
+      conditions.push(
+        `orders.price_paid::numeric <= ${addValue(filters.maxPricePaid)}`
+      );
+    }
+
+    const sortColumn = ORDER_SEARCH_SORT_COLUMNS[sort];
+    const direction = ascending ? "ASC" : "DESC";
+    if (cursor !== undefined) {
+      // Keyset pagination, the order id breaks ties between equal sort values
+      conditions.push(
+        `(${sortColumn}, orders.id) ${ascending ? ">" : "<"} (${addValue(
+          cursor.sortValue
+        )}, ${addValue(cursor.orderId)})`
+      );
+    }
+
+    pool.query(
+      `
+    SELECT
+      orders.id,
+      orders.customer_id AS "customerId",
+      accounts.email AS "customerEmail",
+      order_statuses.status,
+      (SELECT COUNT(*) FROM product_orders WHERE product_orders.order_id = orders.id)::integer AS "productCount",
+      ${majorUnitsSql("orders.price_paid")} AS "pricePaid",
+      orders.placed_on AS "placedOn",
+      (${sortColumn})::text AS "sortValue"
+    FROM orders
+    LEFT JOIN order_statuses ON orders.status_id = order_statuses.id
+    LEFT JOIN customer_accounts ON customer_accounts.id = orders.customer_id
+    LEFT JOIN accounts ON accounts.id = customer_accounts.account_id
+    ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+    ORDER BY ${sortColumn} ${direction}, orders.id ${direction}
+    LIMIT ${addValue(limit + 1)}
+    `,
+      values,
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          // One extra row is fetched to know if there is another page
+          const rows = res.rows.slice(0, limit);
+          const lastRow = rows[rows.length - 1];
+          resolve({
+            orders: rows.map(({ sortValue, ...order }) => order),
+            nextCursor:
+              res.rows.length > limit
+                ? encodeOrderSearchCursor({
+                    sort: sort,
+                    ascending: ascending,
+                    sortValue: lastRow.sortValue,
+                    orderId: lastRow.id,
+                  })
+                : null,
+          });
+        }
+      }
+    );
+  });
+};
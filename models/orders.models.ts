@@ -1,6 +1,49 @@
-import { FOREIGN_KEY_VIOLATION } from "../common/postgresql-error-codes";
-import pool, { EDatabaseResponses, ICustomError } from "../data/data";
-import { TDiscountCodeValidation } from "./discount.models";
+import { PoolClient } from "pg";
+import {
+  EOrderStatus,
+  isOrderStatusTransitionAllowed,
+} from "../common/order-status";
+import pool from "../data/data";
+import { issuePendingCreditNotes, requestCreditNote } from "./invoices.models";
+import { EAccountTypes, TAccountAuth } from "../security/security";
+import {
+  EDiscountRejectionReason,
+  PRODUCT_SCOPE_COLUMNS,
+  TDiscountCodeValidation,
+  validateDiscountCode,
+} from "./discount.models";
+import {
+  ETakePaymentResponse,
+  recordOrderPayment,
+  refundCapturedPayment,
+  takePaymentForOrder,
+  TTakePaymentResult,
+} from "./payments.models";
+import {
+  priceOrder,
+  TDiscountEffect,
+  TOrderLine,
+} from "../common/order-pricing";
+import { getTaxRatesForOrder } from "./tax.models";
+import { getActivePromotions } from "./promotions.models";
+import { TAppliedPromotion } from "../common/promotions";
+import {
+  releaseBasketStock,
+  reservedByOthersQuery,
+} from "./stock-reservations.models";
+import { getShippingMethodForOrder } from "./shipping-methods.models";
+import {
+  formatMoney,
+  majorUnitsSql,
+  minorUnitsSql,
+  toMajorUnits,
+  toMinorUnits,
+  TMoney,
+} from "../common/money";
+
+// How long an order can be left pending payment before it is removed
+const PENDING_PAYMENT_MINUTES =
+  Number(process.env.PENDING_PAYMENT_MINUTES) || 15;
 
 /**
  * Find the last date that a customer purchased a product
@@ -34,7 +77,20 @@ export const getLastPurchaseDateForProduct = (
   });
 };
 
-type TOrderEntry = {
+/**
+ * Build a query for the first time an order was moved into one of a list of statuses
+ * @param statusesParameter The query parameter holding the list of status names
+ * @returns A sub query to use alongside the orders table
+ */
+const firstStatusChangeQuery = (statusesParameter: string) => `
+  SELECT min(order_status_history.changed_on)
+  FROM order_status_history
+  JOIN order_statuses AS history_statuses ON history_statuses.id = order_status_history.status_id
+  WHERE order_status_history.order_id = orders.id
+  AND history_statuses.status = ANY(${statusesParameter})
+`;
+
+export type TOrderEntry = {
   // The id of the order
   id: number;
   // The current status for the order
@@ -45,10 +101,22 @@ type TOrderEntry = {
   total: number;
   // The amount that was paid for the order (includes discounts)
   pricePaid: number;
+  // The tax for the order, only given for a single order
+  tax?: number;
+  // True if the prices already include the tax, only given for a single order
+  pricesIncludeTax?: boolean;
+  // The name of the shipping method chosen, only given for a single order
+  shippingMethod?: string | null;
+  // The cost of shipping the order, only given for a single order
+  shipping?: number;
   // The date the order was placed
   placed_on: Date;
   // The id of the address this order was sent to
   shippingAddressId: number;
+  // The date the order was first shipped, null if not shipped yet
+  shippedOn?: Date | null;
+  // The date the order was delivered, null if not delivered yet
+  deliveredOn?: Date | null;
 };
 
 /**
@@ -67,9 +135,13 @@ export const getOrdersForCustomer = (
       order_statuses.status, 
       orders.shipping_address_id AS "shippingAddressId",
       COUNT(product_id)::numeric::integer AS "product_count", 
-      sum(PRODUCT_ORDERS.item_price_at_purchase * product_orders.quantity)::money::numeric::float8 AS "total",
-      orders.price_paid::money::numeric::float8 AS "pricePaid",
-      orders.placed_on 
+      ${majorUnitsSql(
+        "sum(product_orders.item_price_at_purchase::numeric * product_orders.quantity)"
+      )} AS "total",
+      ${majorUnitsSql("orders.price_paid")} AS "pricePaid",
+      orders.placed_on,
+      (${firstStatusChangeQuery("$2")}) AS "shippedOn",
+      (${firstStatusChangeQuery("$3")}) AS "deliveredOn"
     FROM orders
     LEFT JOIN order_statuses ON orders.status_id = order_statuses.id
     LEFT JOIN product_orders ON orders.id = product_orders.order_id
@@ -78,7 +150,11 @@ export const getOrdersForCustomer = (
     GROUP BY order_statuses.status, orders.id, orders.placed_on
     ORDER BY orders.placed_on DESC
     `,
-      [customerId],
+      [
+        customerId,
+        [EOrderStatus.partiallyShipped, EOrderStatus.shipped],
+        [EOrderStatus.delivered],
+      ],
       (err, res) => {
         if (err) {
           console.error(err);
@@ -95,7 +171,15 @@ type TProductInOrder = {
   productId: number;
   productName: string;
   quantity: number;
+  // The amount of the product that has been sent in shipments so far
+  shippedQuantity: number;
   price: number;
+  // The tax rate for the product as a percentage
+  taxRate: number;
+  // The amount the promotions and discount codes took off the line
+  discount: number;
+  // The tax charged for the line, after discounts
+  tax: number;
 };
 
 /**
@@ -112,13 +196,29 @@ export const getProductsInOrder = (
     pool.query(
       `
     SELECT
-      product_id AS "productId",
+      orders_with_products_view.product_id AS "productId",
       product_view.name AS "productName",
-      quantity,
-      item_price_at_purchase::money::numeric::float8 AS "price"
+      orders_with_products_view.quantity,
+      COALESCE((
+        SELECT sum(order_shipment_items.quantity)
+        FROM order_shipment_items
+        JOIN order_shipments ON order_shipments.id = order_shipment_items.shipment_id
+        WHERE order_shipments.order_id = orders_with_products_view.order_id
+        AND order_shipment_items.product_id = orders_with_products_view.product_id
+      ), 0)::integer AS "shippedQuantity",
+      ${majorUnitsSql(
+        "orders_with_products_view.item_price_at_purchase"
+      )} AS "price",
+      product_orders.tax_rate::float8 AS "taxRate",
+      COALESCE(${majorUnitsSql(
+        "product_orders.discount_amount"
+      )}, 0) AS "discount",
+      ${majorUnitsSql("product_orders.tax_amount")} AS "tax"
     FROM orders_with_products_view
+    JOIN product_orders ON product_orders.order_id = orders_with_products_view.order_id
+      AND product_orders.product_id = orders_with_products_view.product_id
     LEFT JOIN product_view ON product_view.id = orders_with_products_view.product_id
-    WHERE order_id = $1 AND customer_id = $2
+    WHERE orders_with_products_view.order_id = $1 AND orders_with_products_view.customer_id = $2
     `,
       [orderId, customerId],
       (err, res) => {
@@ -140,154 +240,501 @@ export enum EOrderPlaceStatus {
   BASKET_INVALID,
   // Shipping address id does not belong to customer
   SHIPPING_ADDRESS_INVALID,
+  // The idempotency key was already used for a checkout with a different request
+  IDEMPOTENCY_KEY_REUSED,
+  // The payment provider declined the payment
+  PAYMENT_DECLINED,
+  // The payment provider could not be reached or did not answer in time
+  PAYMENT_FAILED,
+  // The shipping method is inactive or does not deliver to the shipping address
+  SHIPPING_METHOD_INVALID,
+  // The basket is worth less than a discount code's minimum spend
+  DISCOUNT_MINIMUM_SPEND_NOT_MET,
   // An unexpected error occured
   UNKNOWN_ERROR,
+  // The order is saved and its payment is still being taken
+  PAYMENT_PENDING,
+  // A discount code could no longer be used once the checkout started
+  DISCOUNT_CODE_REJECTED,
 }
 
+type TOrderPlaceResult = {
+  status: EOrderPlaceStatus;
+  // The id of the order that was placed, null if no order was placed
+  orderId: number | null;
+  // True if the result is from an earlier checkout with the same idempotency key
+  replayed: boolean;
+};
+
+export type TCheckoutIdempotency = {
+  // The key the client sent to identify the checkout attempt
+  idempotencyKey: string;
+  // A hash of the checkout request, to detect a key reused for another request
+  requestHash: string;
+};
+
+type TCheckoutAttempt = {
+  requestHash: string;
+  status: EOrderPlaceStatus;
+  orderId: number | null;
+};
+
+/**
+ * Get the result of an earlier checkout made with an idempotency key
+ * @param customerId The id of the customer
+ * @param idempotencyKey The key sent with the checkout
+ * @returns The earlier checkout attempt, or null if the key has not been used.
+ * Rejects on database errors
+ */
+export const getCheckoutAttempt = (
+  customerId: number,
+  idempotencyKey: string
+): Promise<TCheckoutAttempt | null> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT request_hash AS "requestHash", status, order_id AS "orderId"
+    FROM checkout_attempts
+    WHERE customer_id = $1 AND idempotency_key = $2
+    `,
+      [customerId, idempotencyKey],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rowCount > 0 ? res.rows[0] : null);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Claim an idempotency key for a checkout inside an already open transaction.
+ * A concurrent checkout with the same key waits until this transaction ends
+ * @param client The client with the open transaction
+ * @param customerId The id of the customer
+ * @param idempotency The idempotency key and request hash for the checkout
+ * @returns Null if the key was claimed, otherwise the earlier checkout attempt
+ */
+const claimCheckoutAttempt = async (
+  client: PoolClient,
+  customerId: number,
+  idempotency: TCheckoutIdempotency
+): Promise<TCheckoutAttempt | null> => {
+  const claimResponse = await client.query(
+    `
+  INSERT INTO checkout_attempts(customer_id, idempotency_key, request_hash)
+  VALUES ($1, $2, $3)
+  ON CONFLICT (customer_id, idempotency_key) DO NOTHING
+  `,
+    [customerId, idempotency.idempotencyKey, idempotency.requestHash]
+  );
+  if (claimResponse.rowCount > 0) {
+    return null;
+  }
+  const previousResponse = await client.query(
+    `
+  SELECT request_hash AS "requestHash", status, order_id AS "orderId"
+  FROM checkout_attempts
+  WHERE customer_id = $1 AND idempotency_key = $2
+  `,
+    [customerId, idempotency.idempotencyKey]
+  );
+  return previousResponse.rows[0];
+};
+
+/**
+ * Lock the discount codes used for a checkout and check them again inside its
+ * transaction, including the customer's own limits. The codes were validated
+ * before the transaction started, so a concurrent checkout may have used them
+ * up since
+ * @param client The client with the open transaction, which has locked the
+ * customer's account
+ * @param customerId The id of the customer checking out
+ * @param discountCodes The discount codes validated for the checkout
+ * @returns Null if every code can still be used, otherwise why the first code
+ * that can't be used was rejected
+ */
+const recheckDiscountCodes = async (
+  client: PoolClient,
+  customerId: number,
+  discountCodes: TDiscountCodeValidation[]
+): Promise<EDiscountRejectionReason | null> => {
+  if (discountCodes.length <= 0) {
+    return null;
+  }
+  // Locked in id order, so checkouts using the same codes can't deadlock
+  await client.query(
+    "SELECT id FROM discount_codes WHERE id = ANY($1) ORDER BY id FOR UPDATE",
+    [discountCodes.map((code) => code.id)]
+  );
+  for (const code of discountCodes) {
+    const validation = await validateDiscountCode(
+      code.code,
+      customerId,
+      client
+    );
+    if (validation === null) {
+      return EDiscountRejectionReason.notFound;
+    }
+    if (validation.rejectionReason !== null) {
+      return validation.rejectionReason;
+    }
+  }
+  return null;
+};
+
+/**
+ * Take a use from each discount code used for an order inside an already open
+ * transaction. Codes with negative uses are unlimited
+ * @param client The client with the open transaction
+ * @param discountCodes The discount codes used for the order
+ * @returns True if a use was taken from every code, false with no uses taken
+ * if any code has none left
+ */
+const takeDiscountCodeUses = async (
+  client: PoolClient,
+  discountCodes: TDiscountCodeValidation[]
+): Promise<boolean> => {
+  const discountCodeIds = discountCodes.map((code) => code.id);
+  if (discountCodeIds.length <= 0) {
+    return true;
+  }
+  const useResponse = await client.query(
+    `
+  UPDATE discount_codes
+  SET number_of_uses = CASE WHEN number_of_uses < 0 THEN number_of_uses ELSE number_of_uses - 1 END
+  WHERE id = ANY($1) AND NOT EXISTS (
+    SELECT 1 FROM discount_codes AS used_up_codes
+    WHERE used_up_codes.id = ANY($1) AND used_up_codes.number_of_uses = 0
+  )
+  `,
+    [discountCodeIds]
+  );
+  return useResponse.rowCount === discountCodeIds.length;
+};
+
 /**
  * Place a customer's order, using the contents of their basket
  * @param customerId The id of the customer
  * @param shippingAddressId The id for the shipping address
- * @param discountCodes A list of discount codes to apply, should have been validated for use already
- * @returns EOrderPlaceStatus
+ * @param shippingMethodId The id of the shipping method chosen for the address
+ * @param discountCodes A list of discount codes to apply, should have been validated for use already.
+ * They are locked and checked again before they are used
+ * @param idempotency If set, the checkout is only placed once for the key
+ * @param paymentToken The token for the customer's payment method, if any
+ * @returns The EOrderPlaceStatus, with the id of the order if it was placed.
+ * The order is saved pending payment before the payment is taken, so no rows
+ * are locked while the provider answers. It is confirmed once the payment is
+ * captured, or removed with its stock given back if the payment fails. The
+ * stock is taken when the order is saved rather than once the payment is
+ * captured, as with no locks held it could otherwise be sold to another
+ * customer while the provider answers, after the customer has paid
  */
 export const placeOrder = (
   customerId: number,
   shippingAddressId: number,
-  discountCodes: TDiscountCodeValidation[]
-): Promise<EOrderPlaceStatus> => {
+  shippingMethodId: number,
+  discountCodes: TDiscountCodeValidation[],
+  idempotency?: TCheckoutIdempotency,
+  paymentToken?: string
+): Promise<TOrderPlaceResult> => {
   return new Promise(async (resolve, reject) => {
     try {
       let transactionStatus = EOrderPlaceStatus.OK;
+      let placedOrderId: number | null = null;
+      let replayed = false;
+      let orderTotal: TMoney = 0;
       const client = await pool.connect();
       try {
         await client.query("BEGIN");
 
-        // Validate shipping address is customer's
-        const shippingAddressValidate = await client.query(
-          "SELECT id FROM shipping_addresses WHERE customer_id = $1 AND id = $2",
-          [customerId, shippingAddressId]
-        );
-        if (shippingAddressValidate.rowCount > 0) {
-          // Get a list of products in the basket, with a column to say if they're available for order
-          const validateProducts = await client.query(
-            `
-        SELECT 
-          products_in_basket.product_id, 
-          products_in_basket.quantity,
-          (products_in_basket.quantity <= product_view.stock_count and product_view.available) as "available", 
-          product_view.price::money::numeric::float8 AS "pricePerItem" FROM products_in_basket
-        LEFT JOIN product_view ON products_in_basket.product_id = product_view.id
-        WHERE customer_id = $1
-        `,
+        // A checkout already made with the same key is not placed again
+        const previousAttempt =
+          idempotency !== undefined
+            ? await claimCheckoutAttempt(client, customerId, idempotency)
+            : null;
+        if (previousAttempt !== null) {
+          replayed = true;
+          if (previousAttempt.requestHash === idempotency!.requestHash) {
+            transactionStatus = previousAttempt.status;
+            placedOrderId = previousAttempt.orderId;
+          } else {
+            transactionStatus = EOrderPlaceStatus.IDEMPOTENCY_KEY_REUSED;
+          }
+        } else {
+          // Checkouts by the same customer are made one after another, so
+          // their orders can't change while the per-customer discount code
+          // limits are checked
+          await client.query(
+            "SELECT id FROM customer_accounts WHERE id = $1 FOR UPDATE",
             [customerId]
           );
-          const productsInBasket: {
-            product_id: number;
-            quantity: number;
-            available: boolean;
-            pricePerItem: number;
-          }[] = validateProducts.rows;
-          // Filter to products that are only invalid
-          const productsInvalidInBasket = productsInBasket.filter(
-            (product) => product.available === false
+          // Validate shipping address is customer's
+          const shippingAddressValidate = await client.query(
+            "SELECT id FROM shipping_addresses WHERE customer_id = $1 AND id = $2",
+            [customerId, shippingAddressId]
           );
-          if (
-            productsInvalidInBasket.length > 0 ||
-            productsInBasket.length <= 0
-          ) {
-            // Remove invalid products from customer's basket
-            await Promise.all(
-              productsInvalidInBasket.map(async (product) => {
-                await client.query(
-                  "DELETE FROM products_in_basket WHERE product_id = $1",
-                  [product.product_id]
-                );
-              })
-            );
-            transactionStatus = EOrderPlaceStatus.BASKET_INVALID;
+          const shippingMethod =
+            shippingAddressValidate.rowCount > 0
+              ? await getShippingMethodForOrder(
+                  shippingAddressId,
+                  shippingMethodId,
+                  client
+                )
+              : null;
+          if (shippingAddressValidate.rowCount <= 0) {
+            transactionStatus = EOrderPlaceStatus.SHIPPING_ADDRESS_INVALID;
+          } else if (shippingMethod === null) {
+            transactionStatus = EOrderPlaceStatus.SHIPPING_METHOD_INVALID;
           } else {
-            // Calculate the discounted order total
-            const totalOrderPrice = productsInBasket.reduce(
-              (prevPrice, currentItem) =>
-                prevPrice + currentItem.pricePerItem * currentItem.quantity,
-              0
+            // Lock the stock levels, so stock held or ordered by other customers can't change until this order is placed
+            await client.query(
+              `
+          SELECT product_stock_levels.product_id FROM product_stock_levels
+          JOIN products_in_basket ON products_in_basket.product_id = product_stock_levels.product_id
+          WHERE products_in_basket.customer_id = $1
+          ORDER BY product_stock_levels.product_id
+          FOR UPDATE OF product_stock_levels
+          `,
+              [customerId]
             );
-
-            const discountedOrderTotal = discountCodes.reduce(
-              (prev, current) =>
-                prev - (current.percent / 100) * totalOrderPrice,
-              totalOrderPrice
+            const discountRejection = await recheckDiscountCodes(
+              client,
+              customerId,
+              discountCodes
             );
-
-            // Create the initial order
-            const baseOrderCreatedResponse = await client.query(
-              "INSERT INTO orders(customer_id, shipping_address_id, price_paid) VALUES ($1, $2, $3) RETURNING id",
-              [customerId, shippingAddressId, discountedOrderTotal]
+            // Get a list of products in the basket, with a column to say if they're available for order.
+            // Stock other customers are holding is not available, while the customer's own hold is
+            const validateProducts = await client.query(
+              `
+          SELECT 
+            products_in_basket.product_id AS "productId",
+            products_in_basket.quantity,
+            (products_in_basket.quantity <= product_view.stock_count - (${reservedByOthersQuery(
+              "$1",
+              "products_in_basket.product_id"
+            )}) and product_view.available) as "available", 
+            ${minorUnitsSql("product_view.price")} AS "pricePerItem",
+            COALESCE(products.weight_kg, 0)::float8 AS "weightKg",
+            ${PRODUCT_SCOPE_COLUMNS}
+          FROM products_in_basket
+          LEFT JOIN product_view ON products_in_basket.product_id = product_view.id
+          LEFT JOIN products ON products_in_basket.product_id = products.id
+          LEFT JOIN base_products ON products.base_product_id = base_products.id
+          WHERE customer_id = $1
+          `,
+              [customerId]
             );
+            const productsInBasket: (TOrderLine & {
+              available: boolean;
+            })[] = validateProducts.rows;
+            // Filter to products that are only invalid
+            const productsInvalidInBasket = productsInBasket.filter(
+              (product) => product.available === false
+            );
+            if (
+              productsInvalidInBasket.length > 0 ||
+              productsInBasket.length <= 0
+            ) {
+              // Remove invalid products from customer's basket
+              await Promise.all(
+                productsInvalidInBasket.map(async (product) => {
+                  await client.query(
+                    "DELETE FROM products_in_basket WHERE product_id = $1",
+                    [product.productId]
+                  );
+                })
+              );
+              transactionStatus = EOrderPlaceStatus.BASKET_INVALID;
+            } else if (discountRejection !== null) {
+              transactionStatus =
+                discountRejection ===
+                EDiscountRejectionReason.minimumSpendNotMet
+                  ? EOrderPlaceStatus.DISCOUNT_MINIMUM_SPEND_NOT_MET
+                  : EOrderPlaceStatus.DISCOUNT_CODE_REJECTED;
+            } else {
+              // Calculate the discounted order total, with tax for the shipping country and the cost of shipping
+              const taxRates = await getTaxRatesForOrder(
+                client,
+                shippingAddressId,
+                productsInBasket.map((product) => product.productId)
+              );
+              const taxedLines = productsInBasket.map((product) => ({
+                ...product,
+                taxRate: taxRates.rates.get(product.productId) ?? 0,
+              }));
+              const pricing = priceOrder(
+                taxedLines,
+                await getActivePromotions(client),
+                discountCodes,
+                taxRates.pricesIncludeTax,
+                shippingMethod
+              );
+              // The basket may have changed since the codes were validated
+              const minimumSpendNotMet = discountCodes.some(
+                (code) =>
+                  code.minSpend !== null &&
+                  pricing.subtotal < toMinorUnits(code.minSpend)
+              );
+              if (minimumSpendNotMet) {
+                transactionStatus =
+                  EOrderPlaceStatus.DISCOUNT_MINIMUM_SPEND_NOT_MET;
+              } else if (!(await takeDiscountCodeUses(client, discountCodes))) {
+                transactionStatus = EOrderPlaceStatus.DISCOUNT_CODE_REJECTED;
+              } else {
+                // Create the initial order, waiting for payment
+                const baseOrderCreatedResponse = await client.query(
+                  `
+              INSERT INTO orders(customer_id, shipping_address_id, shipping_method_id, shipping_cost, price_paid, tax_total, prices_include_tax, status_id)
+              VALUES ($1, $2, $3, $4, $5, $6, $7, (SELECT id FROM order_statuses WHERE status = $8))
+              RETURNING id
+              `,
+                  [
+                    customerId,
+                    shippingAddressId,
+                    shippingMethod.id,
+                    formatMoney(pricing.shipping),
+                    formatMoney(pricing.total),
+                    formatMoney(pricing.tax),
+                    pricing.pricesIncludeTax,
+                    EOrderStatus.pendingPayment,
+                  ]
+                );
+                placedOrderId = baseOrderCreatedResponse.rows[0].id;
 
-            // Update the discount code amount, since they've been used
-            await Promise.all(
-              discountCodes.map(async (code) => {
+                // Start the order's status history with the status it was placed in
                 await client.query(
-                  "UPDATE discount_codes SET number_of_uses = number_of_uses -1 WHERE number_of_uses > 0 AND code = $1",
-                  [code.code]
+                  `
+              INSERT INTO order_status_history(order_id, status_id, account_id, account_type)
+              SELECT orders.id, orders.status_id, customer_accounts.account_id, $2
+              FROM orders
+              JOIN customer_accounts ON customer_accounts.id = orders.customer_id
+              WHERE orders.id = $1
+              `,
+                  [baseOrderCreatedResponse.rows[0].id, EAccountTypes.customer]
                 );
-              })
-            );
 
-            // Insert the discount code linkage to the order
-            await Promise.all(
-              discountCodes.map(async (code) => {
-                await client.query(
-                  "INSERT INTO discount_codes_for_order(order_id, discount_code_id) VALUES ($1, $2)",
-                  [baseOrderCreatedResponse.rows[0].id, code.id]
+                // Insert the discount code linkage to the order, with what each code took off
+                await Promise.all(
+                  discountCodes.map(async (code, index) => {
+                    await client.query(
+                      "INSERT INTO discount_codes_for_order(order_id, discount_code_id, amount) VALUES ($1, $2, $3)",
+                      [
+                        baseOrderCreatedResponse.rows[0].id,
+                        code.id,
+                        formatMoney(pricing.discounts[index].amount),
+                      ]
+                    );
+                  })
                 );
-              })
-            );
 
-            // Insert each product into the order
-            await Promise.all(
-              productsInBasket.map(async (product) => {
-                await client.query(
-                  "INSERT INTO product_orders(order_id, product_id, quantity, item_price_at_purchase) VALUES ($1, $2, $3, $4)",
-                  [
-                    baseOrderCreatedResponse.rows[0].id,
-                    product.product_id,
-                    product.quantity,
-                    product.pricePerItem,
-                  ]
+                // Record the promotions the order was given
+                await Promise.all(
+                  pricing.promotions.map(async (promotion) => {
+                    await client.query(
+                      "INSERT INTO promotions_for_order(order_id, promotion_id, times_applied, amount) VALUES ($1, $2, $3, $4)",
+                      [
+                        baseOrderCreatedResponse.rows[0].id,
+                        promotion.promotionId,
+                        promotion.timesApplied,
+                        formatMoney(promotion.amount),
+                      ]
+                    );
+                  })
                 );
-              })
-            );
-            // Update stock count for all products that are involved in the order
-            await Promise.all(
-              productsInBasket.map(async (product) => {
+
+                // Insert each product into the order
+                await Promise.all(
+                  taxedLines.map(async (product, index) => {
+                    await client.query(
+                      "INSERT INTO product_orders(order_id, product_id, quantity, item_price_at_purchase, tax_rate, tax_amount, discount_amount) VALUES ($1, $2, $3, $4, $5, $6, $7)",
+                      [
+                        baseOrderCreatedResponse.rows[0].id,
+                        product.productId,
+                        product.quantity,
+                        formatMoney(product.pricePerItem),
+                        product.taxRate,
+                        formatMoney(pricing.lineTaxes[index]),
+                        formatMoney(pricing.lineDiscounts[index]),
+                      ]
+                    );
+                  })
+                );
+
+                // Take the stock now, so it is held for the order while the payment is taken
+                await Promise.all(
+                  productsInBasket.map(async (product) => {
+                    await client.query(
+                      "UPDATE product_stock_levels SET amount = amount - $1 WHERE product_id = $2",
+                      [product.quantity, product.productId]
+                    );
+                  })
+                );
+                // Clear customer's basket, so it can't be ordered twice. The
+                // stock the customer was holding is now taken by the order
                 await client.query(
-                  "UPDATE product_stock_levels SET amount = amount - $1 WHERE product_id = $2",
-                  [product.quantity, product.product_id]
+                  "DELETE FROM products_in_basket WHERE customer_id = $1",
+                  [customerId]
                 );
-              })
-            );
-            // Clear customer's basket
+                await releaseBasketStock(customerId, client);
+                orderTotal = pricing.total;
+                transactionStatus = EOrderPlaceStatus.PAYMENT_PENDING;
+              }
+            }
+          }
+          if (idempotency !== undefined) {
+            // Store the result, so a retry with the same key gets it back
             await client.query(
-              "DELETE FROM products_in_basket WHERE customer_id = $1",
-              [customerId]
+              "UPDATE checkout_attempts SET status = $1, order_id = $2 WHERE customer_id = $3 AND idempotency_key = $4",
+              [
+                transactionStatus,
+                placedOrderId,
+                customerId,
+                idempotency.idempotencyKey,
+              ]
             );
           }
-        } else {
-          transactionStatus = EOrderPlaceStatus.SHIPPING_ADDRESS_INVALID;
         }
-        // Commit transaction
+        // Commit transaction, so the order is saved pending payment
         await client.query("COMMIT");
       } catch (err) {
         await client.query("ROLLBACK");
         transactionStatus = EOrderPlaceStatus.UNKNOWN_ERROR;
+        placedOrderId = null;
+        replayed = false;
         console.error(err);
       } finally {
         client.release();
-        resolve(transactionStatus);
       }
+
+      if (
+        transactionStatus === EOrderPlaceStatus.PAYMENT_PENDING &&
+        !replayed
+      ) {
+        // No locks are held while the payment is taken
+        const payment = await takePaymentForOrder(
+          placedOrderId!,
+          orderTotal,
+          paymentToken
+        );
+        transactionStatus = await finishPendingOrder(
+          customerId,
+          placedOrderId!,
+          payment,
+          idempotency
+        );
+        if (transactionStatus !== EOrderPlaceStatus.OK) {
+          placedOrderId = null;
+        }
+      }
+      resolve({
+        status: transactionStatus,
+        orderId: placedOrderId,
+        replayed: replayed,
+      });
     } catch (err) {
       console.error(err);
       reject(err);
@@ -295,7 +742,434 @@ export const placeOrder = (
   });
 };
 
-type TOrderStatus = {
+/**
+ * Put back the stock and discount code uses taken when an order was placed,
+ * inside an already open transaction
+ * @param client The client with the open transaction
+ * @param orderId The id of the order
+ */
+const restoreOrderStockAndDiscountUses = async (
+  client: PoolClient,
+  orderId: number
+) => {
+  // Put the ordered quantities back into stock
+  await client.query(
+    `
+  UPDATE product_stock_levels SET amount = amount + product_orders.quantity
+  FROM product_orders
+  WHERE product_orders.product_id = product_stock_levels.product_id
+  AND product_orders.order_id = $1
+  `,
+    [orderId]
+  );
+  // Give back a use for each code, codes with negative uses are unlimited
+  await client.query(
+    `
+  UPDATE discount_codes SET number_of_uses = number_of_uses + 1
+  WHERE number_of_uses >= 0 AND id IN (
+    SELECT discount_code_id FROM discount_codes_for_order WHERE order_id = $1
+  )
+  `,
+    [orderId]
+  );
+};
+
+/**
+ * Remove an order that was never paid for inside an already open transaction,
+ * giving back the stock and discount code uses it took and putting its
+ * products back in the customer's basket, so it is never seen
+ * @param client The client with the open transaction
+ * @param customerId The id of the customer who placed the order
+ * @param orderId The id of the order pending payment
+ */
+const removeUnpaidOrder = async (
+  client: PoolClient,
+  customerId: number,
+  orderId: number
+) => {
+  await restoreOrderStockAndDiscountUses(client, orderId);
+  // Put the order back in the customer's basket, keeping anything added
+  // to the basket while the payment was taken
+  await client.query(
+    `
+  INSERT INTO products_in_basket(customer_id, product_id, quantity)
+  SELECT $1, product_id, quantity FROM product_orders WHERE order_id = $2
+  ON CONFLICT (customer_id, product_id) DO NOTHING
+  `,
+    [customerId, orderId]
+  );
+  await client.query(
+    "DELETE FROM discount_codes_for_order WHERE order_id = $1",
+    [orderId]
+  );
+  await client.query("DELETE FROM promotions_for_order WHERE order_id = $1", [
+    orderId,
+  ]);
+  await client.query("DELETE FROM product_orders WHERE order_id = $1", [
+    orderId,
+  ]);
+  await client.query("DELETE FROM order_status_history WHERE order_id = $1", [
+    orderId,
+  ]);
+  await client.query("DELETE FROM orders WHERE id = $1", [orderId]);
+};
+
+/**
+ * Finish an order saved pending payment, once the payment has been taken or
+ * has failed. A paid order is confirmed. An unpaid order is removed with
+ * removeUnpaidOrder
+ * @param customerId The id of the customer who placed the order
+ * @param orderId The id of the order pending payment
+ * @param payment The result of taking the payment
+ * @param idempotency If set, the checkout attempt to store the result against
+ * @returns EOrderPlaceStatus.OK if the order is confirmed, otherwise why the
+ * payment failed. If the order can't be updated, any payment taken is given
+ * back and the order is left pending payment with
+ * EOrderPlaceStatus.UNKNOWN_ERROR, to be removed by removeStalePendingOrders.
+ * Rejects if a database connection can't be made
+ */
+const finishPendingOrder = async (
+  customerId: number,
+  orderId: number,
+  payment: TTakePaymentResult,
+  idempotency?: TCheckoutIdempotency
+): Promise<EOrderPlaceStatus> => {
+  let finishStatus =
+    payment.response === ETakePaymentResponse.OK
+      ? EOrderPlaceStatus.OK
+      : payment.response === ETakePaymentResponse.DECLINED
+      ? EOrderPlaceStatus.PAYMENT_DECLINED
+      : EOrderPlaceStatus.PAYMENT_FAILED;
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    // Lock the order, so it can't be removed as stale while it is finished
+    const pendingResponse = await client.query(
+      `
+    SELECT orders.id FROM orders
+    JOIN order_statuses ON order_statuses.id = orders.status_id
+    WHERE orders.id = $1 AND order_statuses.status = $2
+    FOR UPDATE OF orders
+    `,
+      [orderId, EOrderStatus.pendingPayment]
+    );
+    if (pendingResponse.rowCount <= 0) {
+      throw new Error(`Order ${orderId} is no longer pending payment`);
+    }
+    if (payment.payment !== null) {
+      await recordOrderPayment(client, orderId, payment.payment);
+      // Confirm the order now it has been paid for
+      await client.query(
+        `
+      WITH confirmed_order AS (
+        UPDATE orders SET status_id = (SELECT id FROM order_statuses WHERE status = $2)
+        WHERE id = $1
+        RETURNING id, status_id, customer_id
+      )
+      INSERT INTO order_status_history(order_id, status_id, account_id, account_type, note)
+      SELECT confirmed_order.id, confirmed_order.status_id, customer_accounts.account_id, $3, $4
+      FROM confirmed_order
+      JOIN customer_accounts ON customer_accounts.id = confirmed_order.customer_id
+      `,
+        [
+          orderId,
+          EOrderStatus.placed,
+          EAccountTypes.customer,
+          "Payment captured",
+        ]
+      );
+    } else {
+      await removeUnpaidOrder(client, customerId, orderId);
+    }
+    if (idempotency !== undefined) {
+      // Store the result, so a retry with the same key gets it back
+      await client.query(
+        "UPDATE checkout_attempts SET status = $1, order_id = $2 WHERE customer_id = $3 AND idempotency_key = $4",
+        [
+          finishStatus,
+          finishStatus === EOrderPlaceStatus.OK ? orderId : null,
+          customerId,
+          idempotency.idempotencyKey,
+        ]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    console.error(err);
+    // The order could not be confirmed, so give back any payment taken for it
+    if (payment.payment !== null) {
+      await refundCapturedPayment(payment.payment);
+    }
+    finishStatus = EOrderPlaceStatus.UNKNOWN_ERROR;
+  } finally {
+    client.release();
+  }
+  return finishStatus;
+};
+
+/**
+ * Remove orders left pending payment for longer than PENDING_PAYMENT_MINUTES,
+ * because the order could not be finished once the payment was taken. Their
+ * stock and discount code uses are given back, and any checkout attempt for
+ * them is stored as failed
+ * @returns The number of orders removed. Rejects on database errors
+ */
+export const removeStalePendingOrders = (): Promise<number> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        // Orders still being finished are locked, so are skipped
+        const staleResponse = await client.query(
+          `
+        SELECT orders.id, orders.customer_id AS "customerId"
+        FROM orders
+        JOIN order_statuses ON order_statuses.id = orders.status_id
+        WHERE order_statuses.status = $1
+        AND orders.placed_on < now() - make_interval(mins => $2)
+        ORDER BY orders.id
+        FOR UPDATE OF orders SKIP LOCKED
+        `,
+          [EOrderStatus.pendingPayment, PENDING_PAYMENT_MINUTES]
+        );
+        for (const order of staleResponse.rows) {
+          console.error(`Removing order ${order.id} left pending payment`);
+          await client.query(
+            "UPDATE checkout_attempts SET status = $1, order_id = NULL WHERE order_id = $2",
+            [EOrderPlaceStatus.PAYMENT_FAILED, order.id]
+          );
+          await removeUnpaidOrder(client, order.customerId, order.id);
+        }
+        await client.query("COMMIT");
+        resolve(staleResponse.rowCount);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        reject(err);
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+type TCheckoutQuoteLine = {
+  // The id of the product
+  productId: number;
+  // The name of the product
+  name: string;
+  // The quantity of the product in the basket
+  quantity: number;
+  // The current price of a single item of the product
+  pricePerItem: number;
+  // The price of the line, pricePerItem * quantity
+  lineTotal: number;
+  // The tax rate for the line as a percentage
+  taxRate: number;
+  // The amount the promotions and discount codes take off the line
+  discount: number;
+  // The tax for the line, after discounts
+  tax: number;
+  // The weight of a single item of the product in kg
+  weightKg: number;
+};
+
+type TUnavailableCheckoutLine = {
+  // The id of the product
+  productId: number;
+  // The name of the product
+  name: string;
+  // The quantity of the product in the basket
+  quantity: number;
+  // The amount of the product available, less what other customers are holding
+  stockCount: number;
+  // False if the product is no longer sold, true if there is not enough stock
+  available: boolean;
+};
+
+export type TCheckoutQuote = {
+  // The basket lines that would be ordered
+  lines: TCheckoutQuoteLine[];
+  // The basket lines that would stop the order being placed
+  unavailableLines: TUnavailableCheckoutLine[];
+  // The price of all the lines before promotions and discounts
+  subtotal: number;
+  // The promotions that apply to the order
+  promotions: TAppliedPromotion[];
+  // The amount each discount code takes off the order
+  discounts: TDiscountEffect[];
+  // The id of the shipping method the quote is for, null if none was chosen
+  shippingMethodId: number | null;
+  // The cost of shipping the order, 0 if no shipping method was chosen
+  shipping: number;
+  // The tax for the order
+  tax: number;
+  // True if the line prices already include the tax
+  pricesIncludeTax: boolean;
+  // The amount that would be paid for the order
+  total: number;
+};
+
+export enum ECheckoutQuoteResponse {
+  // The order was quoted
+  OK,
+  // Shipping address id does not belong to customer
+  SHIPPING_ADDRESS_INVALID,
+  // The shipping method is inactive or does not deliver to the shipping address
+  SHIPPING_METHOD_INVALID,
+}
+
+type TCheckoutQuoteResult = {
+  response: ECheckoutQuoteResponse;
+  // The quote for the order, null unless the response is OK
+  quote: TCheckoutQuote | null;
+};
+
+/**
+ * Work out what placing an order would cost, without placing it or changing
+ * the customer's basket
+ * @param customerId The id of the customer
+ * @param shippingAddressId The id for the shipping address
+ * @param discountCodes A list of discount codes to apply, should have been validated for use already
+ * @param shippingMethodId The id of the shipping method chosen for the
+ * address, null to leave out shipping
+ * @returns The response, with the quote for the order if it could be made.
+ * The shipping address is checked before the shipping method, as when the
+ * order is placed. Rejects on database errors
+ */
+export const getCheckoutQuote = (
+  customerId: number,
+  shippingAddressId: number,
+  discountCodes: TDiscountCodeValidation[],
+  shippingMethodId: number | null
+): Promise<TCheckoutQuoteResult> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const shippingAddressValidate = await pool.query(
+        "SELECT id FROM shipping_addresses WHERE customer_id = $1 AND id = $2",
+        [customerId, shippingAddressId]
+      );
+      if (shippingAddressValidate.rowCount <= 0) {
+        return resolve({
+          response: ECheckoutQuoteResponse.SHIPPING_ADDRESS_INVALID,
+          quote: null,
+        });
+      }
+      const shippingMethod =
+        shippingMethodId !== null
+          ? await getShippingMethodForOrder(shippingAddressId, shippingMethodId)
+          : null;
+      if (shippingMethodId !== null && shippingMethod === null) {
+        return resolve({
+          response: ECheckoutQuoteResponse.SHIPPING_METHOD_INVALID,
+          quote: null,
+        });
+      }
+
+      // Matches the availability check made when the order is placed
+      const basketResponse = await pool.query(
+        `
+      SELECT
+        products_in_basket.product_id AS "productId",
+        product_view.name,
+        products_in_basket.quantity,
+        product_view.stock_count - (${reservedByOthersQuery(
+          "$1",
+          "products_in_basket.product_id"
+        )}) AS "stockCount",
+        product_view.available,
+        ${minorUnitsSql("product_view.price")} AS "pricePerItem",
+        COALESCE(products.weight_kg, 0)::float8 AS "weightKg",
+        ${PRODUCT_SCOPE_COLUMNS}
+      FROM products_in_basket
+      LEFT JOIN product_view ON products_in_basket.product_id = product_view.id
+      LEFT JOIN products ON products_in_basket.product_id = products.id
+      LEFT JOIN base_products ON products.base_product_id = base_products.id
+      WHERE customer_id = $1
+      ORDER BY products_in_basket.product_id
+      `,
+        [customerId]
+      );
+
+      const orderLines: (TOrderLine & { name: string; weightKg: number })[] =
+        [];
+      const unavailableLines: TUnavailableCheckoutLine[] = [];
+      basketResponse.rows.forEach((row) => {
+        if (row.available === true && row.quantity <= row.stockCount) {
+          orderLines.push(row);
+        } else {
+          unavailableLines.push({
+            productId: row.productId,
+            name: row.name,
+            quantity: row.quantity,
+            stockCount: row.stockCount,
+            available: row.available,
+          });
+        }
+      });
+
+      const taxRates = await getTaxRatesForOrder(
+        pool,
+        shippingAddressId,
+        orderLines.map((line) => line.productId)
+      );
+      const taxedLines = orderLines.map((line) => ({
+        ...line,
+        taxRate: taxRates.rates.get(line.productId) ?? 0,
+      }));
+      const pricing = priceOrder(
+        taxedLines,
+        await getActivePromotions(),
+        discountCodes,
+        taxRates.pricesIncludeTax,
+        shippingMethod
+      );
+      const lines: TCheckoutQuoteLine[] = taxedLines.map((line, index) => ({
+        productId: line.productId,
+        name: line.name,
+        quantity: line.quantity,
+        pricePerItem: toMajorUnits(line.pricePerItem),
+        lineTotal: toMajorUnits(line.pricePerItem * line.quantity),
+        taxRate: line.taxRate,
+        discount: toMajorUnits(pricing.lineDiscounts[index]),
+        tax: toMajorUnits(pricing.lineTaxes[index]),
+        weightKg: line.weightKg,
+      }));
+      // The quote is priced in minor units, and returned in major units like every other price
+      resolve({
+        response: ECheckoutQuoteResponse.OK,
+        quote: {
+          lines: lines,
+          unavailableLines: unavailableLines,
+          subtotal: toMajorUnits(pricing.subtotal),
+          promotions: pricing.promotions.map((promotion) => ({
+            ...promotion,
+            amount: toMajorUnits(promotion.amount),
+          })),
+          discounts: pricing.discounts.map((discount) => ({
+            ...discount,
+            amount: toMajorUnits(discount.amount),
+          })),
+          shippingMethodId: shippingMethod?.id ?? null,
+          shipping: toMajorUnits(pricing.shipping),
+          tax: toMajorUnits(pricing.tax),
+          pricesIncludeTax: pricing.pricesIncludeTax,
+          total: toMajorUnits(pricing.total),
+        },
+      });
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+export type TOrderStatus = {
   id: number;
   status: string;
 };
@@ -317,39 +1191,200 @@ export const getPossibleOrderStatuses = (): Promise<TOrderStatus[]> => {
   });
 };
 
+export enum EOrderStatusUpdateResponse {
+  // The order status was updated
+  OK,
+  // No order exists with the id
+  ORDER_NOT_EXIST,
+  // No status exists with the id
+  STATUS_NOT_EXIST,
+  // The account type is not allowed to move the order to the new status
+  TRANSITION_NOT_ALLOWED,
+}
+
 /**
- * Update an order's status
+ * Move an order to a new status inside an already open transaction. Moving
+ * an order to cancelled also restores the stock and discount code uses taken
+ * when the order was placed, and asks for a credit note for the amount paid.
+ * It is issued by issuePendingCreditNotes once the transaction is committed
+ * @param client The client with the open transaction
+ * @param orderId The id of the order
+ * @param newStatus The status to move the order to
+ * @param actor The account making the change. Customers can only change
+ * their own orders
+ * @param note An optional note to record with the change
+ * @returns An EOrderStatusUpdateResponse
+ */
+export const moveOrderToStatus = async (
+  client: PoolClient,
+  orderId: number,
+  newStatus: TOrderStatus,
+  actor: TAccountAuth,
+  note?: string
+): Promise<EOrderStatusUpdateResponse> => {
+  const customerId =
+    actor.accountType === EAccountTypes.customer ? actor.accountTypeId : null;
+  // Lock the order so concurrent changes can't skip a status check
+  const currentStatusResponse = await client.query(
+    `
+  SELECT order_statuses.status, ${minorUnitsSql(
+    "orders.price_paid"
+  )} AS "pricePaid"
+  FROM orders
+  LEFT JOIN order_statuses ON orders.status_id = order_statuses.id
+  WHERE orders.id = $1 AND ($2::integer IS NULL OR orders.customer_id = $2)
+  FOR UPDATE OF orders
+  `,
+    [orderId, customerId]
+  );
+  if (currentStatusResponse.rowCount <= 0) {
+    return EOrderStatusUpdateResponse.ORDER_NOT_EXIST;
+  }
+  if (
+    !isOrderStatusTransitionAllowed(
+      actor.accountType,
+      currentStatusResponse.rows[0].status,
+      newStatus.status
+    )
+  ) {
+    return EOrderStatusUpdateResponse.TRANSITION_NOT_ALLOWED;
+  }
+
+  if (newStatus.status === EOrderStatus.cancelled) {
+    await restoreOrderStockAndDiscountUses(client, orderId);
+    // Everything that was paid is credited back
+    await requestCreditNote(
+      client,
+      orderId,
+      currentStatusResponse.rows[0].pricePaid,
+      "Order cancelled"
+    );
+  }
+
+  await client.query("UPDATE orders SET status_id = $1 WHERE id = $2", [
+    newStatus.id,
+    orderId,
+  ]);
+  await client.query(
+    "INSERT INTO order_status_history(order_id, status_id, account_id, account_type, note) VALUES ($1, $2, $3, $4, $5)",
+    [orderId, newStatus.id, actor.user_id, actor.accountType, note ?? null]
+  );
+  return EOrderStatusUpdateResponse.OK;
+};
+
+/**
+ * Update an order's status, only if the change is allowed for the account type
  * @param orderId The id of the order
  * @param orderStatusId The id of the new status
- * @returns EDatabaseResponses.OK if the order is updated,
- * EDatabaseResponses.DOES_NOT_EXIST if no order exists to update,
- * EDatabaseResponses.FOREIGN_KEY_VIOLATION if the status id is invalid
+ * @param actor The account making the change
+ * @param note An optional note to record with the change
+ * @returns EOrderStatusUpdateResponse.OK if the order is updated,
+ * EOrderStatusUpdateResponse.ORDER_NOT_EXIST if no order exists to update,
+ * EOrderStatusUpdateResponse.STATUS_NOT_EXIST if the status id is invalid,
+ * EOrderStatusUpdateResponse.TRANSITION_NOT_ALLOWED if the account type cannot
+ * move the order from its current status to the new status.
+ * Rejects on database errors
  */
 export const updateOrderStatus = (
   orderId: number,
-  orderStatusId: number
-): Promise<EDatabaseResponses> => {
-  return new Promise((resolve, reject) => {
-    pool.query(
-      "UPDATE FROM orders SET status_id = $1 WHERE id = $2",
-      [orderId, orderStatusId],
-      (err: ICustomError, res) => {
-        if (err) {
-          if (err.code === FOREIGN_KEY_VIOLATION) {
-            resolve(EDatabaseResponses.FOREIGN_KEY_VIOLATION);
-          } else {
-            console.error(err);
-            reject(err);
-          }
-        } else {
-          resolve(
-            res.rowCount > 0
-              ? EDatabaseResponses.OK
-              : EDatabaseResponses.DOES_NOT_EXIST
-          );
-        }
+  orderStatusId: number,
+  actor: TAccountAuth,
+  note?: string
+): Promise<EOrderStatusUpdateResponse> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      let updateResponse: EOrderStatusUpdateResponse;
+      try {
+        await client.query("BEGIN");
+        const newStatusResponse = await client.query(
+          "SELECT id, status FROM order_statuses WHERE id = $1",
+          [orderStatusId]
+        );
+        updateResponse =
+          newStatusResponse.rowCount > 0
+            ? await moveOrderToStatus(
+                client,
+                orderId,
+                newStatusResponse.rows[0],
+                actor,
+                note
+              )
+            : EOrderStatusUpdateResponse.STATUS_NOT_EXIST;
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        return reject(err);
+      } finally {
+        client.release();
       }
-    );
+      // Refunds for a cancellation are made once it is saved
+      if (updateResponse === EOrderStatusUpdateResponse.OK) {
+        await issuePendingCreditNotes(orderId);
+      }
+      resolve(updateResponse);
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Cancel an order that has not shipped yet, restoring the stock and discount
+ * code uses that were taken when it was placed
+ * @param orderId The id of the order to cancel
+ * @param actor The account cancelling the order. Customers can only cancel
+ * their own orders
+ * @param note An optional note to record with the cancellation
+ * @returns EOrderStatusUpdateResponse.OK if the order is cancelled,
+ * EOrderStatusUpdateResponse.ORDER_NOT_EXIST if no order exists to cancel,
+ * EOrderStatusUpdateResponse.TRANSITION_NOT_ALLOWED if the order can no longer
+ * be cancelled by the account type. Rejects on database errors
+ */
+export const cancelOrder = (
+  orderId: number,
+  actor: TAccountAuth,
+  note?: string
+): Promise<EOrderStatusUpdateResponse> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      let updateResponse: EOrderStatusUpdateResponse;
+      try {
+        await client.query("BEGIN");
+        const cancelledStatusResponse = await client.query(
+          "SELECT id, status FROM order_statuses WHERE status = $1",
+          [EOrderStatus.cancelled]
+        );
+        updateResponse =
+          cancelledStatusResponse.rowCount > 0
+            ? await moveOrderToStatus(
+                client,
+                orderId,
+                cancelledStatusResponse.rows[0],
+                actor,
+                note
+              )
+            : EOrderStatusUpdateResponse.STATUS_NOT_EXIST;
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        return reject(err);
+      } finally {
+        client.release();
+      }
+      // Refunds for a cancellation are made once it is saved
+      if (updateResponse === EOrderStatusUpdateResponse.OK) {
+        await issuePendingCreditNotes(orderId);
+      }
+      resolve(updateResponse);
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
   });
 };
 
@@ -369,16 +1404,24 @@ export const getOrderDetails = (
       SELECT 
         orders.id, 
         order_statuses.status, 
+        orders.shipping_address_id AS "shippingAddressId",
         COUNT(product_id)::numeric::integer AS "product_count", 
-        sum(PRODUCT_ORDERS.item_price_at_purchase * product_orders.quantity)::money::numeric::float8 AS "total",
-        orders.price_paid::money::numeric::float8 AS "pricePaid",
+        ${majorUnitsSql(
+          "sum(product_orders.item_price_at_purchase::numeric * product_orders.quantity)"
+        )} AS "total",
+        ${majorUnitsSql("orders.price_paid")} AS "pricePaid",
+        ${majorUnitsSql("orders.tax_total")} AS "tax",
+        orders.prices_include_tax AS "pricesIncludeTax",
+        shipping_methods.name AS "shippingMethod",
+        COALESCE(${majorUnitsSql("orders.shipping_cost")}, 0) AS "shipping",
         orders.placed_on
       FROM orders
       LEFT JOIN order_statuses ON orders.status_id = order_statuses.id
       LEFT JOIN product_orders ON orders.id = product_orders.order_id
+      LEFT JOIN shipping_methods ON shipping_methods.id = orders.shipping_method_id
       JOIN shipping_addresses ON orders.shipping_address_id = shipping_addresses.id
       WHERE orders.customer_id = $1 AND orders.id = $2
-      GROUP BY order_statuses.status, orders.id, orders.placed_on
+      GROUP BY order_statuses.status, orders.id, orders.placed_on, shipping_methods.name
       ORDER BY orders.placed_on DESC
     `,
       [customerId, orderId],
@@ -394,21 +1437,100 @@ export const getOrderDetails = (
   });
 };
 
+type TOrderStatusHistoryEntry = {
+  // The status the order was moved to
+  status: string;
+  // The date the status was changed
+  changedOn: Date;
+  // The id of the account that made the change
+  accountId: number | null;
+  // The type of account that made the change
+  accountType: EAccountTypes;
+  // The note recorded with the change, if any
+  note: string | null;
+};
+
+/**
+ * Get every status change made to an order, as a timeline
+ * @param orderId The id of the order
+ * @param customerId If set, the order must belong to this customer
+ * @returns A list of status changes, oldest first. Rejects on database errors
+ */
+export const getOrderStatusHistory = (
+  orderId: number,
+  customerId?: number
+): Promise<TOrderStatusHistoryEntry[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      order_statuses.status,
+      order_status_history.changed_on AS "changedOn",
+      order_status_history.account_id AS "accountId",
+      order_status_history.account_type AS "accountType",
+      order_status_history.note
+    FROM order_status_history
+    JOIN orders ON orders.id = order_status_history.order_id
+    LEFT JOIN order_statuses ON order_statuses.id = order_status_history.status_id
+    WHERE order_status_history.order_id = $1
+    AND ($2::integer IS NULL OR orders.customer_id = $2)
+    ORDER BY order_status_history.changed_on ASC
+    `,
+      [orderId, customerId ?? null],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get the id of the customer who placed an order
+ * @param orderId The id of the order
+ * @returns The id of the customer, or null if the order does not exist.
+ * Rejects on database errors
+ */
+export const getCustomerIdForOrder = (
+  orderId: number
+): Promise<number | null> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      "SELECT customer_id FROM orders WHERE id = $1",
+      [orderId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rowCount > 0 ? res.rows[0].customer_id : null);
+        }
+      }
+    );
+  });
+};
+
 /**
  * Get the discount codes used for an order
  * @param orderId The id of the order to get the codes for
  * @param customerId The id of the customer the order belongs to
- * @returns A list of codes that were used for the order
+ * @returns A list of codes that were used for the order, with the amount each
+ * took off. The amount is null for orders placed before it was recorded
  */
 export const getDiscountsUsedForOrder = (
   orderId: number,
   customerId: number
-): Promise<{ code: string }[]> => {
+): Promise<{ code: string; amount: number | null }[]> => {
   return new Promise((resolve, reject) => {
     pool.query(
       `
     SELECT
-      code
+      code,
+      ${majorUnitsSql("discount_codes_for_order.amount")} AS amount
     FROM discount_codes_for_order
     LEFT JOIN discount_codes ON discount_codes_for_order.discount_code_id = discount_codes.id
     LEFT JOIN orders ON discount_codes_for_order.order_id = orders.id
@@ -425,3 +1547,40 @@ export const getDiscountsUsedForOrder = (
     );
   });
 };
+
+/**
+ * Get the promotions applied to an order
+ * @param orderId The id of the order to get the promotions for
+ * @param customerId The id of the customer the order belongs to
+ * @returns A list of promotions applied to the order, with the amount each
+ * took off. Rejects on database errors
+ */
+export const getPromotionsUsedForOrder = (
+  orderId: number,
+  customerId: number
+): Promise<{ name: string; timesApplied: number; amount: number }[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      promotions.name,
+      promotions_for_order.times_applied AS "timesApplied",
+      ${majorUnitsSql("promotions_for_order.amount")} AS amount
+    FROM promotions_for_order
+    JOIN promotions ON promotions_for_order.promotion_id = promotions.id
+    JOIN orders ON promotions_for_order.order_id = orders.id
+    WHERE promotions_for_order.order_id = $1 AND orders.customer_id = $2
+    ORDER BY promotions.id
+    `,
+      [orderId, customerId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
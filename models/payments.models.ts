@@ -0,0 +1,208 @@
+import { PoolClient } from "pg";
+import pool from "../data/data";
+import {
+  getPaymentProvider,
+  TPaymentProvider,
+  withPaymentTimeout,
+} from "../payments/payments";
+import { formatMoney, TMoney } from "../common/money";
+
+export enum ETakePaymentResponse {
+  // The payment was captured
+  OK,
+  // The provider declined the payment
+  DECLINED,
+  // The provider could not be reached or did not answer in time
+  FAILED,
+}
+
+export type TCapturedPayment = {
+  // The id of the provider that took the payment
+  providerId: string;
+  // The provider's reference for the authorization that was captured
+  authorizationReference: string;
+  // The provider's reference for the capture
+  captureReference: string;
+  // The amount captured in minor units
+  amount: TMoney;
+};
+
+export type TTakePaymentResult = {
+  response: ETakePaymentResponse;
+  // The payment taken, null unless the response is OK
+  payment: TCapturedPayment | null;
+};
+
+/**
+ * Release an authorization that will not be captured. Errors are logged, as
+ * an authorization that is not voided expires with the provider anyway
+ * @param provider The provider that made the authorization
+ * @param authorizationReference The reference for the authorization
+ */
+const voidAuthorization = async (
+  provider: TPaymentProvider,
+  authorizationReference: string
+) => {
+  try {
+    await withPaymentTimeout(provider.void(authorizationReference));
+  } catch (err) {
+    console.error(err);
+  }
+};
+
+/**
+ * Authorize and capture the payment for an order. This is made outside of any
+ * transaction, as the provider can take seconds to answer. An authorization
+ * that is not captured is voided
+ * @param orderId The id of the order being paid for
+ * @param amount The amount to take in minor units
+ * @param paymentToken The token for the customer's payment method, if any
+ * @returns The response, with the payment if it was captured
+ */
+export const takePaymentForOrder = async (
+  orderId: number,
+  amount: TMoney,
+  paymentToken?: string
+): Promise<TTakePaymentResult> => {
+  const provider = getPaymentProvider();
+  if (provider === undefined) {
+    console.error(
+      `Payment provider ${process.env.PAYMENT_PROVIDER} is not registered`
+    );
+    return { response: ETakePaymentResponse.FAILED, payment: null };
+  }
+
+  let authorizationReference: string | null = null;
+  try {
+    const authorization = await withPaymentTimeout(
+      provider.authorize(amount, orderId, paymentToken)
+    );
+    if (!authorization.approved || authorization.reference === null) {
+      return { response: ETakePaymentResponse.DECLINED, payment: null };
+    }
+    authorizationReference = authorization.reference;
+
+    const capture = await withPaymentTimeout(
+      provider.capture(authorizationReference, amount)
+    );
+    if (!capture.approved || capture.reference === null) {
+      await voidAuthorization(provider, authorizationReference);
+      return { response: ETakePaymentResponse.DECLINED, payment: null };
+    }
+
+    return {
+      response: ETakePaymentResponse.OK,
+      payment: {
+        providerId: provider.id,
+        authorizationReference: authorizationReference,
+        captureReference: capture.reference,
+        amount: amount,
+      },
+    };
+  } catch (err) {
+    console.error(err);
+    if (authorizationReference !== null) {
+      await voidAuthorization(provider, authorizationReference);
+    }
+    return { response: ETakePaymentResponse.FAILED, payment: null };
+  }
+};
+
+/**
+ * Record a captured payment against the order it paid for, inside an already
+ * open transaction
+ * @param client The client with the open transaction
+ * @param orderId The id of the order that was paid for
+ * @param payment The payment that was captured
+ */
+export const recordOrderPayment = async (
+  client: PoolClient,
+  orderId: number,
+  payment: TCapturedPayment
+) => {
+  await client.query(
+    "INSERT INTO order_payments(order_id, provider, authorization_reference, capture_reference, amount) VALUES ($1, $2, $3, $4, $5)",
+    [
+      orderId,
+      payment.providerId,
+      payment.authorizationReference,
+      payment.captureReference,
+      formatMoney(payment.amount),
+    ]
+  );
+};
+
+/**
+ * Give back a captured payment in full, used when the order it paid for
+ * could not be confirmed
+ * @param payment The payment to give back. Errors are logged
+ */
+export const refundCapturedPayment = async (payment: TCapturedPayment) => {
+  try {
+    const provider = getPaymentProvider(payment.providerId);
+    if (provider === undefined) {
+      throw new Error(
+        `Payment provider ${payment.providerId} is not registered`
+      );
+    }
+    await withPaymentTimeout(
+      provider.refund(payment.captureReference, payment.amount)
+    );
+  } catch (err) {
+    console.error(err);
+  }
+};
+
+/**
+ * Refund part of the payment taken for an order. This is made outside of any
+ * transaction, as the provider can take seconds to answer. Orders placed
+ * before payments were taken have nothing to refund, so are skipped
+ * @param orderId The id of the order being refunded
+ * @param amount The amount to refund in minor units
+ * @returns True if the amount is refunded, or there is no payment to refund,
+ * false if the provider declines. Rejects if the provider can't be reached
+ */
+export const refundOrderPayment = async (
+  orderId: number,
+  amount: TMoney
+): Promise<boolean> => {
+  const paymentResponse = await pool.query(
+    "SELECT provider, capture_reference FROM order_payments WHERE order_id = $1",
+    [orderId]
+  );
+  if (paymentResponse.rowCount <= 0) {
+    return true;
+  }
+  const payment = paymentResponse.rows[0];
+  const provider = getPaymentProvider(payment.provider);
+  if (provider === undefined) {
+    throw new Error(`Payment provider ${payment.provider} is not registered`);
+  }
+  const refund = await withPaymentTimeout(
+    provider.refund(payment.capture_reference, amount)
+  );
+  if (!refund.approved) {
+    console.error(
+      `Refund for order ${orderId} declined: ${refund.declineReason}`
+    );
+  }
+  return refund.approved;
+};
+
+/**
+ * Record a refund made against the payment for an order, inside an already
+ * open transaction
+ * @param client The client with the open transaction
+ * @param orderId The id of the order that was refunded
+ * @param amount The amount refunded in minor units
+ */
+export const recordOrderRefund = async (
+  client: PoolClient,
+  orderId: number,
+  amount: TMoney
+) => {
+  await client.query(
+    "UPDATE order_payments SET refunded_amount = refunded_amount + $1 WHERE order_id = $2",
+    [formatMoney(amount), orderId]
+  );
+};
@@ -1,5 +1,7 @@
 import pool, { EDatabaseResponses, ICustomError } from "../../data/data";
 import { FOREIGN_KEY_VIOLATION } from "../../common/postgresql-error-codes";
+import { formatMoney, majorUnitsSql, toMinorUnits } from "../../common/money";
+import { reservedQuery } from "../stock-reservations.models";
 
 export interface IBaseProductEntry {
   id: number;
@@ -16,6 +18,11 @@ export interface IProductEntry extends IBaseProductEntry {
   description: string;
 }
 
+// The stock customers can still order, without the stock held during checkout
+const availableStockSql = `GREATEST(product_view.stock_count - (${reservedQuery(
+  "product_view.id"
+)}), 0) AS stock_count`;
+
 /**
  * Update a product's name
  * @param productId The Id of the product to update
@@ -80,6 +87,38 @@ export const updateProductDescription = (
   });
 };
 
+/**
+ * Update a product's shipping weight
+ * @param productId The Id of the product to update
+ * @param weightKg The weight of a single item in kg, or null to remove it
+ * @returns EDatabaseResponses.OK if the weight is updated,
+ * EDatabaseResponses.DOES_NOT_EXIST if the product does not exist.
+ * Rejects on database errors
+ */
+export const updateProductWeight = (
+  productId: number,
+  weightKg: number | null
+): Promise<EDatabaseResponses> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      "UPDATE products SET weight_kg = $1 WHERE id = $2",
+      [weightKg, productId],
+      (err: ICustomError, res) => {
+        if (err) {
+          console.error(`${err.code}: ${err.message}`);
+          reject(err);
+        } else {
+          resolve(
+            res.rowCount > 0
+              ? EDatabaseResponses.OK
+              : EDatabaseResponses.DOES_NOT_EXIST
+          );
+        }
+      }
+    );
+  });
+};
+
 /**
  * Create a new product
  * @param baseProductId The id of the base product variation
@@ -117,7 +156,7 @@ export const createNewProductVariant = (
           "INSERT INTO product_prices(product_id, price) VALUES($1, $2)";
         await client.query(createProductPriceQuery, [
           res.rows[0].id,
-          price.toFixed(2),
+          formatMoney(toMinorUnits(price)),
         ]);
         await client.query("COMMIT");
         transactionStatus = EDatabaseResponses.OK;
@@ -162,7 +201,7 @@ export const setPriceForProduct = (
       "INSERT INTO product_prices(product_id, price) VALUES ($1, $2) ON CONFLICT (product_id, date_active_from) DO UPDATE SET price=excluded.price";
     pool.query(
       setPriceQuery,
-      [productId, price.toFixed(2)],
+      [productId, formatMoney(toMinorUnits(price))],
       (err: ICustomError, res) => {
         if (err) {
           if (err.code === FOREIGN_KEY_VIOLATION) {
@@ -200,8 +239,8 @@ export const getProductsByType = (
       "brandId",
       "brandName",
       available, 
-      stock_count, 
-      price::money::numeric::float8
+      ${availableStockSql},
+      ${majorUnitsSql("price")} AS price
     FROM product_view
     JOIN assigned_product_type ON base_product_id = assigned_product_type.product_id
     WHERE assigned_product_type.type_id = $1
@@ -238,8 +277,8 @@ export const getProductsByBrand = (
       "brandId",
       "brandName",
       available, 
-      stock_count, 
-      price::money::numeric::float8
+      ${availableStockSql},
+      ${majorUnitsSql("price")} AS price
     FROM product_view
     WHERE "brandId" = $1
     `;
@@ -270,8 +309,8 @@ export const getDetailedProductInfo = (
       available, 
       "brandName",
       "brandId",
-      stock_count, 
-      price::money::numeric::float8,
+      ${availableStockSql},
+      ${majorUnitsSql("price")} AS price,
       description
     FROM product_view
     WHERE id = $1
@@ -306,8 +345,8 @@ export const getRandomNumberOfProducts = (
         id, 
         name, 
         available, 
-        stock_count, 
-        price::money::numeric::float8
+        ${availableStockSql},
+        ${majorUnitsSql("price")} AS price
       FROM product_view
       ORDER BY RANDOM()
       LIMIT $1
@@ -342,8 +381,8 @@ export const getProductsByName = (
       available, 
       "brandName",
       "brandId",
-      stock_count, 
-      price::money::numeric::float8,
+      ${availableStockSql},
+      ${majorUnitsSql("price")} AS price,
       description
     FROM product_view
     WHERE to_tsvector(name) @@ websearch_to_tsquery($1) ORDER BY ts_rank(to_tsvector(name),  websearch_to_tsquery($1)) desc
@@ -391,8 +430,8 @@ export const getProductsOfSameStyle = (
       id, 
       name, 
       available, 
-      stock_count, 
-      price::money::numeric::float8
+      ${availableStockSql},
+      ${majorUnitsSql("price")} AS price
       FROM product_view
       WHERE base_product_id = (SELECT base_product_id FROM products WHERE products.id = $1)`,
       [productId],
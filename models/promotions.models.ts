@@ -0,0 +1,333 @@
+import { Pool, PoolClient } from "pg";
+import pool, { EDatabaseResponses, ICustomError } from "../data/data";
+import { FOREIGN_KEY_VIOLATION } from "../common/postgresql-error-codes";
+import { majorUnitsSql } from "../common/money";
+import { TDiscountScope } from "./discount.models";
+
+// How a promotion takes money off a basket
+export enum EPromotionType {
+  // Buy a number of matching items and get more of them cheaper, such as
+  // "3 for 2" or "buy 1 get 1 half price"
+  buyXGetY = "buyXGetY",
+  // A set price for a combination of products bought together
+  bundle = "bundle",
+}
+
+export type TPromotionBundleItem = {
+  // The id of the product
+  productId: number;
+  // The number of the product in one bundle
+  quantity: number;
+};
+
+export type TPromotionRules = {
+  // How the promotion takes money off the basket
+  promotionType: EPromotionType;
+  // The number of full price items in each group, 0 for bundles
+  buyQuantity: number;
+  // The number of cheaper items in each group, 0 for bundles
+  getQuantity: number;
+  // The percentage taken off the cheaper items, 100 for free, 0 for bundles
+  getPercentOff: number;
+  // The products that count towards a buyXGetY promotion. Without any
+  // included scopes every product that is not excluded counts
+  scopes: TDiscountScope[];
+  // The products making up one bundle, empty for buyXGetY promotions
+  bundleItems: TPromotionBundleItem[];
+  // The price of one bundle, 0 for buyXGetY promotions
+  bundlePrice: number;
+};
+
+export type TPromotion = TPromotionRules & {
+  // The id of the promotion
+  id: number;
+  // The name shown to customers, such as "3 for 2 on board games"
+  name: string;
+};
+
+export type TPromotionDetails = TPromotionRules & {
+  // The name shown to customers
+  name: string;
+  // The promotion doesn't apply before this date, null if it always has
+  startsOn: Date | null;
+  // The promotion doesn't apply after this date, null if it never ends
+  endsOn: Date | null;
+  // If the promotion can currently apply
+  active: boolean;
+};
+
+type TPromotionEntry = TPromotionDetails & {
+  // The id of the promotion
+  id: number;
+};
+
+// The columns holding a promotion's rules
+const PROMOTION_RULE_COLUMNS = `
+  promotions.promotion_type AS "promotionType",
+  COALESCE(promotions.buy_quantity, 0) AS "buyQuantity",
+  COALESCE(promotions.get_quantity, 0) AS "getQuantity",
+  COALESCE(promotions.get_percent_off, 0)::float8 AS "getPercentOff",
+  COALESCE((
+    SELECT json_agg(json_build_object(
+      'scopeType', promotion_scopes.scope_type,
+      'targetId', promotion_scopes.target_id,
+      'excluded', promotion_scopes.excluded
+    ) ORDER BY promotion_scopes.id)
+    FROM promotion_scopes
+    WHERE promotion_scopes.promotion_id = promotions.id
+  ), '[]'::json) AS "scopes",
+  COALESCE((
+    SELECT json_agg(json_build_object(
+      'productId', promotion_bundle_items.product_id,
+      'quantity', promotion_bundle_items.quantity
+    ) ORDER BY promotion_bundle_items.product_id)
+    FROM promotion_bundle_items
+    WHERE promotion_bundle_items.promotion_id = promotions.id
+  ), '[]'::json) AS "bundleItems",
+  COALESCE(${majorUnitsSql("promotions.bundle_price")}, 0) AS "bundlePrice"
+`;
+
+/**
+ * Replace the scopes and bundle items for a promotion
+ * @param client A client with an open transaction
+ * @param promotionId The id of the promotion
+ * @param rules The promotion's new rules
+ */
+const setPromotionProducts = async (
+  client: PoolClient,
+  promotionId: number,
+  rules: TPromotionRules
+) => {
+  await client.query("DELETE FROM promotion_scopes WHERE promotion_id = $1", [
+    promotionId,
+  ]);
+  await client.query(
+    "DELETE FROM promotion_bundle_items WHERE promotion_id = $1",
+    [promotionId]
+  );
+  await Promise.all(
+    rules.scopes.map(async (scope) => {
+      await client.query(
+        "INSERT INTO promotion_scopes(promotion_id, scope_type, target_id, excluded) VALUES ($1, $2, $3, $4)",
+        [promotionId, scope.scopeType, scope.targetId, scope.excluded]
+      );
+    })
+  );
+  await Promise.all(
+    rules.bundleItems.map(async (item) => {
+      await client.query(
+        "INSERT INTO promotion_bundle_items(promotion_id, product_id, quantity) VALUES ($1, $2, $3)",
+        [promotionId, item.productId, item.quantity]
+      );
+    })
+  );
+};
+
+/**
+ * Get every promotion, for staff
+ * @returns A list of promotions, including inactive ones.
+ * Rejects on database errors
+ */
+export const getPromotions = (): Promise<TPromotionEntry[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      promotions.id,
+      promotions.name,
+      ${PROMOTION_RULE_COLUMNS},
+      promotions.starts_on AS "startsOn",
+      promotions.ends_on AS "endsOn",
+      promotions.active
+    FROM promotions
+    ORDER BY promotions.id
+    `,
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get the promotions that currently apply to every basket
+ * @param db A client with an open transaction, or the pool if not given
+ * @returns A list of active promotions within their dates, in id order.
+ * Rejects on database errors
+ */
+export const getActivePromotions = async (
+  db: Pool | PoolClient = pool
+): Promise<TPromotion[]> => {
+  const promotionsResponse = await db.query(
+    `
+  SELECT
+    promotions.id,
+    promotions.name,
+    ${PROMOTION_RULE_COLUMNS}
+  FROM promotions
+  WHERE promotions.active
+  AND (promotions.starts_on IS NULL OR promotions.starts_on <= now())
+  AND (promotions.ends_on IS NULL OR promotions.ends_on >= now())
+  ORDER BY promotions.id
+  `
+  );
+  return promotionsResponse.rows;
+};
+
+/**
+ * Create a promotion
+ * @param details The name, rules and dates for the promotion
+ * @returns EDatabaseResponses.OK if the promotion is created,
+ * EDatabaseResponses.FOREIGN_KEY_VIOLATION if a bundle product does not exist.
+ * Rejects on database errors
+ */
+export const createPromotion = (
+  details: TPromotionDetails
+): Promise<EDatabaseResponses> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const promotionCreatedResponse = await client.query(
+          `
+        INSERT INTO promotions(
+          name, promotion_type, buy_quantity, get_quantity, get_percent_off, bundle_price, starts_on, ends_on, active
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING id
+        `,
+          [
+            details.name,
+            details.promotionType,
+            details.buyQuantity,
+            details.getQuantity,
+            details.getPercentOff,
+            details.bundlePrice,
+            details.startsOn,
+            details.endsOn,
+            details.active,
+          ]
+        );
+        await setPromotionProducts(
+          client,
+          promotionCreatedResponse.rows[0].id,
+          details
+        );
+        await client.query("COMMIT");
+        resolve(EDatabaseResponses.OK);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        if ((err as ICustomError).code === FOREIGN_KEY_VIOLATION) {
+          resolve(EDatabaseResponses.FOREIGN_KEY_VIOLATION);
+        } else {
+          console.error(err);
+          reject(err);
+        }
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Update a promotion. Orders already placed keep the discounts they were given
+ * @param promotionId The id of the promotion
+ * @param details The new name, rules and dates for the promotion
+ * @returns EDatabaseResponses.OK if the promotion is updated,
+ * EDatabaseResponses.DOES_NOT_EXIST if the promotion does not exist,
+ * EDatabaseResponses.FOREIGN_KEY_VIOLATION if a bundle product does not exist.
+ * Rejects on database errors
+ */
+export const updatePromotion = (
+  promotionId: number,
+  details: TPromotionDetails
+): Promise<EDatabaseResponses> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const promotionUpdatedResponse = await client.query(
+          `
+        UPDATE promotions SET
+          name = $1, promotion_type = $2, buy_quantity = $3, get_quantity = $4, get_percent_off = $5,
+          bundle_price = $6, starts_on = $7, ends_on = $8, active = $9
+        WHERE id = $10
+        `,
+          [
+            details.name,
+            details.promotionType,
+            details.buyQuantity,
+            details.getQuantity,
+            details.getPercentOff,
+            details.bundlePrice,
+            details.startsOn,
+            details.endsOn,
+            details.active,
+            promotionId,
+          ]
+        );
+        if (promotionUpdatedResponse.rowCount <= 0) {
+          await client.query("ROLLBACK");
+          return resolve(EDatabaseResponses.DOES_NOT_EXIST);
+        }
+        await setPromotionProducts(client, promotionId, details);
+        await client.query("COMMIT");
+        resolve(EDatabaseResponses.OK);
+      } catch (err) {
+        await client.query("ROLLBACK");
+        if ((err as ICustomError).code === FOREIGN_KEY_VIOLATION) {
+          resolve(EDatabaseResponses.FOREIGN_KEY_VIOLATION);
+        } else {
+          console.error(err);
+          reject(err);
+        }
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Stop a promotion applying to baskets. The promotion is kept, as orders it
+ * applied to still refer to it
+ * @param promotionId The id of the promotion
+ * @returns EDatabaseResponses.OK if the promotion is deactivated,
+ * EDatabaseResponses.DOES_NOT_EXIST if the promotion does not exist.
+ * Rejects on database errors
+ */
+export const deactivatePromotion = (
+  promotionId: number
+): Promise<EDatabaseResponses> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      "UPDATE promotions SET active = false WHERE id = $1",
+      [promotionId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(
+            res.rowCount > 0
+              ? EDatabaseResponses.OK
+              : EDatabaseResponses.DOES_NOT_EXIST
+          );
+        }
+      }
+    );
+  });
+};
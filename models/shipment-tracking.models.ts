@@ -0,0 +1,176 @@
+import { TTrackingEvent } from "../carriers/carriers";
+import pool from "../data/data";
+
+type TShipmentTracking = {
+  // The id of the shipment
+  shipmentId: number;
+  // The date the shipment was sent
+  shippedOn: Date;
+  // The id of the carrier delivering the shipment, null if not recorded yet
+  carrier: string | null;
+  // The carrier's tracking number, null if not recorded yet
+  trackingNumber: string | null;
+  // Tracking updates for the shipment, oldest first
+  events: TTrackingEvent[];
+};
+
+/**
+ * Record the carrier and tracking number for a shipment
+ * @param shipmentId The id of the shipment
+ * @param carrierId The id of the carrier delivering the shipment
+ * @param trackingNumber The carrier's tracking number
+ * @returns True if the shipment is updated, false if the shipment does not
+ * exist. Rejects on database errors
+ */
+export const setShipmentTracking = (
+  shipmentId: number,
+  carrierId: string,
+  trackingNumber: string
+): Promise<boolean> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      "UPDATE order_shipments SET carrier = $1, tracking_number = $2 WHERE id = $3",
+      [carrierId, trackingNumber, shipmentId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rowCount > 0);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get the carrier and tracking number recorded for a shipment
+ * @param shipmentId The id of the shipment
+ * @returns The carrier and tracking number, or null if the shipment does not
+ * exist or has no tracking recorded. Rejects on database errors
+ */
+export const getShipmentCarrier = (
+  shipmentId: number
+): Promise<{ carrier: string; trackingNumber: string } | null> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT carrier, tracking_number AS "trackingNumber"
+    FROM order_shipments
+    WHERE id = $1 AND carrier IS NOT NULL AND tracking_number IS NOT NULL
+    `,
+      [shipmentId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rowCount > 0 ? res.rows[0] : null);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get the id of the order a shipment was sent for
+ * @param shipmentId The id of the shipment
+ * @returns The id of the order, or null if the shipment does not exist
+ */
+export const getOrderIdForShipment = (
+  shipmentId: number
+): Promise<number | null> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      "SELECT order_id FROM order_shipments WHERE id = $1",
+      [shipmentId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rowCount > 0 ? res.rows[0].order_id : null);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Add tracking events to a shipment. Events already recorded for the
+ * shipment are skipped, so events from a carrier can be added repeatedly
+ * @param shipmentId The id of the shipment
+ * @param events The tracking events to add
+ * @returns The number of new events added. Rejects on database errors
+ */
+export const addTrackingEventsToShipment = (
+  shipmentId: number,
+  events: TTrackingEvent[]
+): Promise<number> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const addedCounts = await Promise.all(
+        events.map(async (event) => {
+          const insertResponse = await pool.query(
+            `
+          INSERT INTO shipment_tracking_events(shipment_id, occurred_on, location, description)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT DO NOTHING
+          `,
+            [shipmentId, event.occurredOn, event.location, event.description]
+          );
+          return insertResponse.rowCount;
+        })
+      );
+      resolve(addedCounts.reduce((prev, current) => prev + current, 0));
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Get the tracking for every shipment of an order
+ * @param orderId The id of the order
+ * @param customerId If set, the order must belong to this customer
+ * @returns A list of shipments with their tracking events, oldest first.
+ * Rejects on database errors
+ */
+export const getTrackingForOrder = (
+  orderId: number,
+  customerId?: number
+): Promise<TShipmentTracking[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      order_shipments.id AS "shipmentId",
+      order_shipments.shipped_on AS "shippedOn",
+      order_shipments.carrier,
+      order_shipments.tracking_number AS "trackingNumber",
+      COALESCE(json_agg(json_build_object(
+        'occurredOn', shipment_tracking_events.occurred_on,
+        'location', shipment_tracking_events.location,
+        'description', shipment_tracking_events.description
+      ) ORDER BY shipment_tracking_events.occurred_on)
+      FILTER (WHERE shipment_tracking_events.shipment_id IS NOT NULL), '[]') AS "events"
+    FROM order_shipments
+    JOIN orders ON orders.id = order_shipments.order_id
+    LEFT JOIN shipment_tracking_events ON shipment_tracking_events.shipment_id = order_shipments.id
+    WHERE order_shipments.order_id = $1 AND ($2::integer IS NULL OR orders.customer_id = $2)
+    GROUP BY order_shipments.id
+    ORDER BY order_shipments.shipped_on ASC
+    `,
+      [orderId, customerId ?? null],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
@@ -0,0 +1,309 @@
+import { Pool, PoolClient } from "pg";
+import {
+  getShippingCost,
+  getSubtotalForLines,
+  getWeightForLines,
+  TShippingRate,
+} from "../common/order-pricing";
+import { FOREIGN_KEY_VIOLATION } from "../common/postgresql-error-codes";
+import pool, { EDatabaseResponses, ICustomError } from "../data/data";
+import { majorUnitsSql, minorUnitsSql, toMajorUnits } from "../common/money";
+
+export type TShippingMethodDetails = TShippingRate & {
+  // The name shown to customers, such as "Standard" or "Express"
+  name: string;
+  // The number of days delivery is expected to take
+  deliveryDays: number;
+};
+
+type TShippingMethod = TShippingMethodDetails & {
+  // The id of the shipping method
+  id: number;
+  // The id of the shipping country the method delivers to
+  countryId: number;
+  // The name of the shipping country
+  countryName: string;
+  // False if the method can no longer be chosen at checkout
+  active: boolean;
+};
+
+type TShippingMethodOption = TShippingMethodDetails & {
+  // The id of the shipping method
+  id: number;
+  // The cost of shipping the customer's current basket, before discounts
+  cost: number;
+};
+
+export type TOrderShippingMethod = TShippingRate & {
+  // The id of the shipping method
+  id: number;
+  // The name of the shipping method
+  name: string;
+};
+
+// The columns describing how a shipping method is priced
+const SHIPPING_RATE_COLUMNS = `
+  shipping_methods.rate_type AS "rateType",
+  ${majorUnitsSql("shipping_methods.base_cost")} AS "baseCost",
+  ${majorUnitsSql("shipping_methods.cost_per_kg")} AS "costPerKg",
+  ${majorUnitsSql("shipping_methods.free_over")} AS "freeOver"
+`;
+
+/**
+ * Get every shipping method, for staff
+ * @param countryId If set, only methods for this shipping country
+ * @returns A list of shipping methods, including inactive ones.
+ * Rejects on database errors
+ */
+export const getShippingMethods = (
+  countryId?: number
+): Promise<TShippingMethod[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      shipping_methods.id,
+      shipping_methods.country_id AS "countryId",
+      shipping_countries.name AS "countryName",
+      shipping_methods.name,
+      shipping_methods.delivery_days AS "deliveryDays",
+      ${SHIPPING_RATE_COLUMNS},
+      shipping_methods.active
+    FROM shipping_methods
+    JOIN shipping_countries ON shipping_countries.id = shipping_methods.country_id
+    WHERE $1::integer IS NULL OR shipping_methods.country_id = $1
+    ORDER BY shipping_countries.name, shipping_methods.delivery_days DESC, shipping_methods.id
+    `,
+      [countryId ?? null],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Create a shipping method for a shipping country
+ * @param countryId The id of the shipping country
+ * @param details The name, delivery time and rate for the method
+ * @returns EDatabaseResponses.OK if the method is created,
+ * EDatabaseResponses.DOES_NOT_EXIST if the country does not exist.
+ * Rejects on database errors
+ */
+export const createShippingMethod = (
+  countryId: number,
+  details: TShippingMethodDetails
+): Promise<EDatabaseResponses> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    INSERT INTO shipping_methods(country_id, name, delivery_days, rate_type, base_cost, cost_per_kg, free_over)
+    VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `,
+      [
+        countryId,
+        details.name,
+        details.deliveryDays,
+        details.rateType,
+        details.baseCost,
+        details.costPerKg,
+        details.freeOver,
+      ],
+      (err: ICustomError) => {
+        if (err) {
+          if (err.code === FOREIGN_KEY_VIOLATION) {
+            resolve(EDatabaseResponses.DOES_NOT_EXIST);
+          } else {
+            console.error(err);
+            reject(err);
+          }
+        } else {
+          resolve(EDatabaseResponses.OK);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Update a shipping method. Orders already placed keep the cost they were
+ * charged
+ * @param shippingMethodId The id of the shipping method
+ * @param details The new name, delivery time and rate for the method
+ * @param active False to stop the method being chosen at checkout
+ * @returns EDatabaseResponses.OK if the method is updated,
+ * EDatabaseResponses.DOES_NOT_EXIST if the method does not exist.
+ * Rejects on database errors
+ */
+export const updateShippingMethod = (
+  shippingMethodId: number,
+  details: TShippingMethodDetails,
+  active: boolean
+): Promise<EDatabaseResponses> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    UPDATE shipping_methods
+    SET name = $1, delivery_days = $2, rate_type = $3, base_cost = $4, cost_per_kg = $5, free_over = $6, active = $7
+    WHERE id = $8
+    `,
+      [
+        details.name,
+        details.deliveryDays,
+        details.rateType,
+        details.baseCost,
+        details.costPerKg,
+        details.freeOver,
+        active,
+        shippingMethodId,
+      ],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(
+            res.rowCount > 0
+              ? EDatabaseResponses.OK
+              : EDatabaseResponses.DOES_NOT_EXIST
+          );
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Stop a shipping method being chosen at checkout. The method is kept, as
+ * orders placed with it still refer to it
+ * @param shippingMethodId The id of the shipping method
+ * @returns EDatabaseResponses.OK if the method is deactivated,
+ * EDatabaseResponses.DOES_NOT_EXIST if the method does not exist.
+ * Rejects on database errors
+ */
+export const deactivateShippingMethod = (
+  shippingMethodId: number
+): Promise<EDatabaseResponses> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      "UPDATE shipping_methods SET active = false WHERE id = $1",
+      [shippingMethodId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(
+            res.rowCount > 0
+              ? EDatabaseResponses.OK
+              : EDatabaseResponses.DOES_NOT_EXIST
+          );
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get the shipping methods a customer can choose for an address in their
+ * address book, with what each would cost for their current basket
+ * @param customerId The id of the customer
+ * @param shippingAddressId The id of the shipping address
+ * @returns A list of active shipping methods, cheapest first, or null if the
+ * address does not belong to the customer. Rejects on database errors
+ */
+export const getShippingMethodsForAddress = (
+  customerId: number,
+  shippingAddressId: number
+): Promise<TShippingMethodOption[] | null> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const shippingAddressValidate = await pool.query(
+        "SELECT country_id FROM shipping_addresses WHERE customer_id = $1 AND id = $2",
+        [customerId, shippingAddressId]
+      );
+      if (shippingAddressValidate.rowCount <= 0) {
+        return resolve(null);
+      }
+
+      const basketResponse = await pool.query(
+        `
+      SELECT
+        products_in_basket.quantity,
+        ${minorUnitsSql("product_view.price")} AS "pricePerItem",
+        COALESCE(products.weight_kg, 0)::float8 AS "weightKg"
+      FROM products_in_basket
+      JOIN product_view ON products_in_basket.product_id = product_view.id
+      JOIN products ON products.id = products_in_basket.product_id
+      WHERE products_in_basket.customer_id = $1
+      `,
+        [customerId]
+      );
+      const basketTotal = getSubtotalForLines(basketResponse.rows);
+      const basketWeight = getWeightForLines(basketResponse.rows);
+
+      const methodsResponse = await pool.query(
+        `
+      SELECT
+        shipping_methods.id,
+        shipping_methods.name,
+        shipping_methods.delivery_days AS "deliveryDays",
+        ${SHIPPING_RATE_COLUMNS}
+      FROM shipping_methods
+      WHERE shipping_methods.country_id = $1 AND shipping_methods.active
+      `,
+        [shippingAddressValidate.rows[0].country_id]
+      );
+      const methods: TShippingMethodOption[] = methodsResponse.rows.map(
+        (method) => ({
+          ...method,
+          cost: toMajorUnits(
+            getShippingCost(method, basketWeight, basketTotal)
+          ),
+        })
+      );
+      resolve(
+        methods.sort(
+          (a, b) => a.cost - b.cost || a.deliveryDays - b.deliveryDays
+        )
+      );
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Get a shipping method chosen for an order, checking it can be used for the
+ * shipping address
+ * @param shippingAddressId The id of the shipping address
+ * @param shippingMethodId The id of the chosen shipping method
+ * @param db A client with an open transaction, or the pool if not given
+ * @returns The shipping method, or null if it is inactive or does not deliver
+ * to the address's country. Rejects on database errors
+ */
+export const getShippingMethodForOrder = async (
+  shippingAddressId: number,
+  shippingMethodId: number,
+  db: Pool | PoolClient = pool
+): Promise<TOrderShippingMethod | null> => {
+  const methodResponse = await db.query(
+    `
+  SELECT
+    shipping_methods.id,
+    shipping_methods.name,
+    ${SHIPPING_RATE_COLUMNS}
+  FROM shipping_methods
+  JOIN shipping_addresses ON shipping_addresses.country_id = shipping_methods.country_id
+  WHERE shipping_addresses.id = $1 AND shipping_methods.id = $2 AND shipping_methods.active
+  `,
+    [shippingAddressId, shippingMethodId]
+  );
+  return methodResponse.rowCount > 0 ? methodResponse.rows[0] : null;
+};
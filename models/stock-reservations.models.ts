@@ -0,0 +1,189 @@
+import { PoolClient } from "pg";
+import pool from "../data/data";
+
+// How long stock is held for a customer during checkout
+const RESERVATION_MINUTES = Number(process.env.STOCK_RESERVATION_MINUTES) || 15;
+
+export enum EReserveStockResponse {
+  // The basket's stock is held
+  OK,
+  // Basket contained products not currently available, or the basket was empty
+  BASKET_INVALID,
+}
+
+type TStockReservation = {
+  productId: number;
+  quantity: number;
+};
+
+type TReserveStockResult = {
+  response: EReserveStockResponse;
+  // The time the holds are released, null unless the response is OK
+  expiresOn: Date | null;
+  // The products held, or the products that could not be held
+  products: TStockReservation[];
+};
+
+/**
+ * Build a query for the quantity of a product held by customers checking out.
+ * product_view.stock_count is the stock on hand, so active holds are taken off
+ * it wherever stock is shown as available
+ * @param productColumn The column holding the product id
+ * @returns A sub query to use alongside product_view
+ */
+export const reservedQuery = (productColumn: string) => `
+  SELECT COALESCE(sum(stock_reservations.quantity), 0)::integer
+  FROM stock_reservations
+  WHERE stock_reservations.product_id = ${productColumn}
+  AND stock_reservations.expires_on > now()
+`;
+
+/**
+ * Build a query for the quantity of a product other customers are holding.
+ * Other customers' holds are taken off product_view.stock_count when checking
+ * what a customer can order, leaving their own hold available to them
+ * @param customerParameter The query parameter or column holding the customer id
+ * @param productColumn The column holding the product id
+ * @returns A sub query to use alongside product_view
+ */
+export const reservedByOthersQuery = (
+  customerParameter: string,
+  productColumn: string
+) => `
+  ${reservedQuery(productColumn)}
+  AND stock_reservations.customer_id != ${customerParameter}
+`;
+
+/**
+ * Hold the stock for everything in a customer's basket while they check out,
+ * replacing any holds they already have. Holds expire after
+ * STOCK_RESERVATION_MINUTES
+ * @param customerId The id of the customer
+ * @returns The response, with the products held or the products that could not
+ * be held. Rejects on database errors
+ */
+export const reserveBasketStock = (
+  customerId: number
+): Promise<TReserveStockResult> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        await client.query(
+          "DELETE FROM stock_reservations WHERE customer_id = $1",
+          [customerId]
+        );
+        // Lock the stock levels so concurrent holds on the same products are
+        // made one after another, in product order to avoid deadlocks
+        await client.query(
+          `
+        SELECT product_stock_levels.product_id FROM product_stock_levels
+        JOIN products_in_basket ON products_in_basket.product_id = product_stock_levels.product_id
+        WHERE products_in_basket.customer_id = $1
+        ORDER BY product_stock_levels.product_id
+        FOR UPDATE OF product_stock_levels
+        `,
+          [customerId]
+        );
+        const basketResponse = await client.query(
+          `
+        SELECT
+          products_in_basket.product_id AS "productId",
+          products_in_basket.quantity,
+          (products_in_basket.quantity <= product_view.stock_count - (${reservedByOthersQuery(
+            "$1",
+            "products_in_basket.product_id"
+          )}) AND product_view.available) AS "available"
+        FROM products_in_basket
+        LEFT JOIN product_view ON products_in_basket.product_id = product_view.id
+        WHERE products_in_basket.customer_id = $1
+        `,
+          [customerId]
+        );
+        const unavailableProducts = basketResponse.rows.filter(
+          (row) => row.available !== true
+        );
+        if (basketResponse.rowCount <= 0 || unavailableProducts.length > 0) {
+          await client.query("ROLLBACK");
+          return resolve({
+            response: EReserveStockResponse.BASKET_INVALID,
+            expiresOn: null,
+            products: unavailableProducts.map(({ productId, quantity }) => ({
+              productId,
+              quantity,
+            })),
+          });
+        }
+
+        const reserveResponse = await client.query(
+          `
+        INSERT INTO stock_reservations(customer_id, product_id, quantity, expires_on)
+        SELECT customer_id, product_id, quantity, now() + make_interval(mins => $2)
+        FROM products_in_basket
+        WHERE customer_id = $1
+        RETURNING product_id AS "productId", quantity, expires_on AS "expiresOn"
+        `,
+          [customerId, RESERVATION_MINUTES]
+        );
+        await client.query("COMMIT");
+        resolve({
+          response: EReserveStockResponse.OK,
+          expiresOn: reserveResponse.rows[0].expiresOn,
+          products: reserveResponse.rows.map(({ productId, quantity }) => ({
+            productId,
+            quantity,
+          })),
+        });
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        reject(err);
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Release the stock a customer is holding
+ * @param customerId The id of the customer
+ * @param client A client with an open transaction, if the release should be
+ * part of it
+ * @returns True if any holds were released. Rejects on database errors
+ */
+export const releaseBasketStock = async (
+  customerId: number,
+  client?: PoolClient
+): Promise<boolean> => {
+  const releaseResponse = await (client ?? pool).query(
+    "DELETE FROM stock_reservations WHERE customer_id = $1",
+    [customerId]
+  );
+  return releaseResponse.rowCount > 0;
+};
+
+/**
+ * Remove holds that have expired. Expired holds already stop counting
+ * against stock, so this only keeps the table small
+ * @returns The number of holds removed. Rejects on database errors
+ */
+export const removeExpiredStockReservations = (): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      "DELETE FROM stock_reservations WHERE expires_on <= now()",
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rowCount);
+        }
+      }
+    );
+  });
+};
@@ -0,0 +1,260 @@
+import { Pool, PoolClient } from "pg";
+import { FOREIGN_KEY_VIOLATION } from "../common/postgresql-error-codes";
+import pool, { EDatabaseResponses, ICustomError } from "../data/data";
+
+type TTaxRule = {
+  // The id of the shipping country the rule is for
+  countryId: number;
+  // The name of the shipping country
+  countryName: string;
+  // The tax rate for the country as a percentage
+  rate: number;
+  // True if prices shown to customers in the country already include tax
+  pricesIncludeTax: boolean;
+  // Rates for product types that differ from the country's rate
+  productTypeRates: {
+    productTypeId: number;
+    productType: string;
+    rate: number;
+  }[];
+};
+
+type TOrderTaxRates = {
+  // True if the line prices already include tax
+  pricesIncludeTax: boolean;
+  // The tax rate for each product, keyed by product id
+  rates: Map<number, number>;
+};
+
+/**
+ * Get the tax rules for every shipping country that has one
+ * @returns A list of tax rules. Rejects on database errors
+ */
+export const getTaxRules = (): Promise<TTaxRule[]> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    SELECT
+      tax_rules.country_id AS "countryId",
+      shipping_countries.name AS "countryName",
+      tax_rules.rate::float8 AS "rate",
+      tax_rules.prices_include_tax AS "pricesIncludeTax",
+      COALESCE(
+        json_agg(
+          json_build_object(
+            'productTypeId', product_types.id,
+            'productType', product_types.type,
+            'rate', tax_rule_product_type_rates.rate::float8
+          ) ORDER BY product_types.type
+        ) FILTER (WHERE product_types.id IS NOT NULL),
+        '[]'
+      ) AS "productTypeRates"
+    FROM tax_rules
+    JOIN shipping_countries ON shipping_countries.id = tax_rules.country_id
+    LEFT JOIN tax_rule_product_type_rates ON tax_rule_product_type_rates.country_id = tax_rules.country_id
+    LEFT JOIN product_types ON product_types.id = tax_rule_product_type_rates.product_type_id
+    GROUP BY tax_rules.country_id, shipping_countries.name
+    ORDER BY shipping_countries.name
+    `,
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(res.rows);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Set the tax rule for a shipping country, replacing any existing rule
+ * @param countryId The id of the shipping country
+ * @param rate The tax rate as a percentage
+ * @param pricesIncludeTax True if prices already include tax
+ * @returns EDatabaseResponses.OK if the rule is set,
+ * EDatabaseResponses.DOES_NOT_EXIST if the country does not exist.
+ * Rejects on database errors
+ */
+export const setTaxRuleForCountry = (
+  countryId: number,
+  rate: number,
+  pricesIncludeTax: boolean
+): Promise<EDatabaseResponses> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    INSERT INTO tax_rules(country_id, rate, prices_include_tax) VALUES ($1, $2, $3)
+    ON CONFLICT (country_id) DO UPDATE SET rate = EXCLUDED.rate, prices_include_tax = EXCLUDED.prices_include_tax
+    `,
+      [countryId, rate, pricesIncludeTax],
+      (err: ICustomError) => {
+        if (err) {
+          if (err.code === FOREIGN_KEY_VIOLATION) {
+            resolve(EDatabaseResponses.DOES_NOT_EXIST);
+          } else {
+            console.error(err);
+            reject(err);
+          }
+        } else {
+          resolve(EDatabaseResponses.OK);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Remove the tax rule for a shipping country, along with its product type
+ * rates. Orders to the country are then not taxed
+ * @param countryId The id of the shipping country
+ * @returns EDatabaseResponses.OK if the rule is removed,
+ * EDatabaseResponses.DOES_NOT_EXIST if the country has no rule.
+ * Rejects on database errors
+ */
+export const deleteTaxRuleForCountry = (
+  countryId: number
+): Promise<EDatabaseResponses> => {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        await client.query(
+          "DELETE FROM tax_rule_product_type_rates WHERE country_id = $1",
+          [countryId]
+        );
+        const deleteResponse = await client.query(
+          "DELETE FROM tax_rules WHERE country_id = $1",
+          [countryId]
+        );
+        await client.query("COMMIT");
+        resolve(
+          deleteResponse.rowCount > 0
+            ? EDatabaseResponses.OK
+            : EDatabaseResponses.DOES_NOT_EXIST
+        );
+      } catch (err) {
+        await client.query("ROLLBACK");
+        console.error(err);
+        reject(err);
+      } finally {
+        client.release();
+      }
+    } catch (err) {
+      console.error(err);
+      reject(err);
+    }
+  });
+};
+
+/**
+ * Set the tax rate for a product type in a shipping country, used in place
+ * of the country's rate
+ * @param countryId The id of the shipping country, which must have a tax rule
+ * @param productTypeId The id of the product type
+ * @param rate The tax rate as a percentage
+ * @returns EDatabaseResponses.OK if the rate is set,
+ * EDatabaseResponses.DOES_NOT_EXIST if the country has no tax rule or the
+ * product type does not exist. Rejects on database errors
+ */
+export const setTaxRateForProductType = (
+  countryId: number,
+  productTypeId: number,
+  rate: number
+): Promise<EDatabaseResponses> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      `
+    INSERT INTO tax_rule_product_type_rates(country_id, product_type_id, rate) VALUES ($1, $2, $3)
+    ON CONFLICT (country_id, product_type_id) DO UPDATE SET rate = EXCLUDED.rate
+    `,
+      [countryId, productTypeId, rate],
+      (err: ICustomError) => {
+        if (err) {
+          if (err.code === FOREIGN_KEY_VIOLATION) {
+            resolve(EDatabaseResponses.DOES_NOT_EXIST);
+          } else {
+            console.error(err);
+            reject(err);
+          }
+        } else {
+          resolve(EDatabaseResponses.OK);
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Remove the tax rate for a product type in a shipping country, so the
+ * country's rate is used instead
+ * @param countryId The id of the shipping country
+ * @param productTypeId The id of the product type
+ * @returns EDatabaseResponses.OK if the rate is removed,
+ * EDatabaseResponses.DOES_NOT_EXIST if no rate was set. Rejects on database errors
+ */
+export const deleteTaxRateForProductType = (
+  countryId: number,
+  productTypeId: number
+): Promise<EDatabaseResponses> => {
+  return new Promise((resolve, reject) => {
+    pool.query(
+      "DELETE FROM tax_rule_product_type_rates WHERE country_id = $1 AND product_type_id = $2",
+      [countryId, productTypeId],
+      (err, res) => {
+        if (err) {
+          console.error(err);
+          reject(err);
+        } else {
+          resolve(
+            res.rowCount > 0
+              ? EDatabaseResponses.OK
+              : EDatabaseResponses.DOES_NOT_EXIST
+          );
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Get the tax rates for products sent to a shipping address. A product with
+ * several product types that have their own rate uses the highest of them.
+ * Countries without a tax rule are not taxed
+ * @param db The pool, or a client with an open transaction
+ * @param shippingAddressId The id of the shipping address
+ * @param productIds The ids of the products being sent
+ * @returns The tax rates for the products. Rejects on database errors
+ */
+export const getTaxRatesForOrder = async (
+  db: Pool | PoolClient,
+  shippingAddressId: number,
+  productIds: number[]
+): Promise<TOrderTaxRates> => {
+  const ratesResponse = await db.query(
+    `
+  SELECT
+    products.id AS "productId",
+    COALESCE((
+      SELECT max(tax_rule_product_type_rates.rate)
+      FROM tax_rule_product_type_rates
+      JOIN assigned_product_type ON assigned_product_type.type_id = tax_rule_product_type_rates.product_type_id
+      WHERE tax_rule_product_type_rates.country_id = tax_rules.country_id
+      AND assigned_product_type.product_id = products.base_product_id
+    ), tax_rules.rate, 0)::float8 AS "rate",
+    COALESCE(tax_rules.prices_include_tax, false) AS "pricesIncludeTax"
+  FROM products
+  LEFT JOIN tax_rules ON tax_rules.country_id = (
+    SELECT country_id FROM shipping_addresses WHERE id = $1
+  )
+  WHERE products.id = ANY($2)
+  `,
+    [shippingAddressId, productIds]
+  );
+  return {
+    pricesIncludeTax: ratesResponse.rows[0]?.pricesIncludeTax ?? false,
+    rates: new Map(ratesResponse.rows.map((row) => [row.productId, row.rate])),
+  };
+};
@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import { TPaymentProvider, TPaymentResult } from "./payments";
+
+// How the mock provider answers every request
+export enum EMockPaymentOutcome {
+  succeed = "succeed",
+  decline = "decline",
+  timeout = "timeout",
+}
+
+let mockPaymentOutcome: EMockPaymentOutcome = Object.values(
+  EMockPaymentOutcome
+).includes(process.env.MOCK_PAYMENT_OUTCOME as EMockPaymentOutcome)
+  ? (process.env.MOCK_PAYMENT_OUTCOME as EMockPaymentOutcome)
+  : EMockPaymentOutcome.succeed;
+
+/**
+ * Set how the mock provider answers, used for development and tests in place
+ * of a real provider. Defaults to the MOCK_PAYMENT_OUTCOME environment
+ * variable, or succeed if that is not set
+ * @param outcome The outcome every following request will have
+ */
+export const setMockPaymentOutcome = (outcome: EMockPaymentOutcome) => {
+  mockPaymentOutcome = outcome;
+};
+
+/**
+ * Answer a request to the mock provider with the configured outcome
+ * @param referencePrefix The prefix for the reference of an approved request
+ * @returns The result of the request, which never settles when timing out
+ */
+const answerMockPaymentRequest = (
+  referencePrefix: string
+): Promise<TPaymentResult> => {
+  switch (mockPaymentOutcome) {
+    case EMockPaymentOutcome.decline:
+      return Promise.resolve({
+        approved: false,
+        reference: null,
+        declineReason: "Declined by mock payment provider",
+      });
+    case EMockPaymentOutcome.timeout:
+      return new Promise(() => {});
+    default:
+      return Promise.resolve({
+        approved: true,
+        reference: `${referencePrefix}_${randomUUID()}`,
+      });
+  }
+};
+
+// A fake payment provider that never leaves this process
+const mockPaymentProvider: TPaymentProvider = {
+  id: "mock",
+  authorize: (_amount, _orderId, _paymentToken) =>
+    answerMockPaymentRequest("auth"),
+  capture: (_authorizationReference, _amount) =>
+    answerMockPaymentRequest("capture"),
+  refund: (_captureReference, _amount) => answerMockPaymentRequest("refund"),
+  void: (_authorizationReference) => answerMockPaymentRequest("void"),
+};
+
+export default mockPaymentProvider;
@@ -0,0 +1,97 @@
+import mockPaymentProvider from "./mock.payment";
+
+// The answer from a payment provider to a single request
+export type TPaymentResult = {
+  // True if the provider accepted the request
+  approved: boolean;
+  // The provider's reference for the authorization, capture, refund or void
+  reference: string | null;
+  // Why the provider declined the request, if it was declined
+  declineReason?: string;
+};
+
+/**
+ * An adapter for a payment provider. New providers are added by implementing
+ * this type and registering it with registerPaymentProvider. Every function
+ * resolves declines and rejects if the provider can't be reached
+ */
+export type TPaymentProvider = {
+  // The unique id stored against payments taken with the provider
+  id: string;
+  /**
+   * Reserve an amount on the customer's payment method
+   * @param amount The amount to reserve in minor units
+   * @param orderId The id of the order being paid for
+   * @param paymentToken The token for the customer's payment method, if any
+   */
+  authorize: (
+    amount: number,
+    orderId: number,
+    paymentToken?: string
+  ) => Promise<TPaymentResult>;
+  /**
+   * Take an amount that was reserved by an authorization
+   * @param authorizationReference The reference from authorize
+   * @param amount The amount to take in minor units
+   */
+  capture: (
+    authorizationReference: string,
+    amount: number
+  ) => Promise<TPaymentResult>;
+  /**
+   * Give back some or all of a captured amount
+   * @param captureReference The reference from capture
+   * @param amount The amount to give back in minor units
+   */
+  refund: (captureReference: string, amount: number) => Promise<TPaymentResult>;
+  /**
+   * Release an authorization that will not be captured
+   * @param authorizationReference The reference from authorize
+   */
+  void: (authorizationReference: string) => Promise<TPaymentResult>;
+};
+
+const paymentProviders: Map<string, TPaymentProvider> = new Map();
+
+/**
+ * Make a payment provider available for checkout to use
+ * @param provider The payment provider adapter to register
+ */
+export const registerPaymentProvider = (provider: TPaymentProvider) => {
+  paymentProviders.set(provider.id, provider);
+};
+
+/**
+ * Get a registered payment provider
+ * @param providerId The id of the provider, defaults to the PAYMENT_PROVIDER
+ * environment variable, or the mock provider if that is not set
+ * @returns The provider, or undefined if no provider is registered with the id
+ */
+export const getPaymentProvider = (
+  providerId: string = process.env.PAYMENT_PROVIDER || mockPaymentProvider.id
+): TPaymentProvider | undefined => {
+  return paymentProviders.get(providerId);
+};
+
+/**
+ * Reject a payment provider request that takes too long to answer, so a
+ * checkout is never left waiting on the provider
+ * @param request The request made to the provider
+ * @returns The provider's answer. Rejects if the request fails or does not
+ * answer within PAYMENT_TIMEOUT_MS milliseconds (default 10 seconds)
+ */
+export const withPaymentTimeout = <T>(request: Promise<T>): Promise<T> => {
+  const timeoutMs = Number(process.env.PAYMENT_TIMEOUT_MS) || 10000;
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(
+      () => reject(new Error("Payment provider timed out")),
+      timeoutMs
+    );
+    request
+      .then((result) => resolve(result))
+      .catch((err) => reject(err))
+      .finally(() => clearTimeout(timeout));
+  });
+};
+
+registerPaymentProvider(mockPaymentProvider);
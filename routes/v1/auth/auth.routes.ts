@@ -5,10 +5,10 @@ import {
   update_account_password,
 } from "../../../models/auth/auth.models";
 import {
-  COOKIE_OPTIONS,
   create_account_controller,
   login_to_account_controller,
 } from "../../../controllers/auth.controllers";
+import { COOKIE_OPTIONS } from "../../../common/cookies";
 import {
   EAccountTypes,
   hashPassword,
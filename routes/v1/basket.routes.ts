@@ -1,62 +1,202 @@
-import { Router } from "express";
-import basketWebSockets from "../../data/websockets";
-import { EAccountTypes, verifyToken } from "../../security/security";
+import { Request, Response, Router } from "express";
+import { v4 as uuidv4 } from "uuid";
+import basketWebSockets, { basketSocketStates } from "../../data/websockets";
+import { EAccountTypes, verifyOptionalToken } from "../../security/security";
 import {
   EResponseStatusCodes,
   ETextResponse,
 } from "../../common/response-types";
 import {
   addProductToBasket,
+  addProductToGuestBasket,
+  clearBasket,
   getAllProductsInBasket,
+  getAllProductsInGuestBasket,
+  getBasketPromotions,
+  getGuestBasketPromotions,
   removeProductFromBasket,
+  removeProductFromGuestBasket,
   updateQuantityOfProductInBasket,
+  updateQuantityOfProductInGuestBasket,
 } from "../../models/basket.models";
 import WebSocket from "ws";
 import { EDatabaseResponses } from "../../data/data";
+import { COOKIE_OPTIONS } from "../../common/cookies";
+import {
+  sendBasketChangesToAllCustomerClients,
+  sendBasketSnapshot,
+  TBasketRequestId,
+} from "../../common/basket-updates";
 
 const basketRouter = Router();
 
 // Create an express-ws instance for the router
 require("express-ws")(basketRouter);
 
+// Whose basket a request is for
+type TBasketOwner = { customerId: number } | { guestSessionId: string };
+
 /**
- * Send a basket notification to all connected customer clients
- * @param customerId The id of the customer for the connection
- * @returns True if the message is sent, false otherwise
+ * Find whose basket a request is for. Logged in customers use their own
+ * basket, and anyone not logged in uses the guest basket for their session,
+ * which is started for them if they don't have one yet
+ * @param req The express request object
+ * @param res The express response object, used to set the session cookie
+ * @returns The owner of the basket, or null if the account is not a customer account
  */
-export const sendBasketContentsToAllCustomerClients = (
-  customerId: number
-): Promise<boolean> => {
-  return new Promise((resolve, reject) => {
-    getAllProductsInBasket(customerId)
-      .then((basketContents) => {
-        const allCustomerSockets = basketWebSockets.get(customerId);
-        if (allCustomerSockets !== undefined) {
-          console.log(
-            `Sending basket update to ${allCustomerSockets.size} connections for customer: ${customerId}`
-          );
-          allCustomerSockets.forEach((ws) => {
-            ws.send(
-              JSON.stringify({ type: "basketUpdate", basket: basketContents })
-            );
-          });
-          resolve(true);
-        } else {
-          resolve(false);
-        }
-      })
-      .catch((err) => {
-        reject(err);
-      });
-  });
+const getBasketOwner = (req: Request, res: Response): TBasketOwner | null => {
+  if (req.user) {
+    return req.user.accountType === EAccountTypes.customer
+      ? { customerId: req.user.accountTypeId }
+      : null;
+  }
+  if (typeof req.sessionId !== "string") {
+    req.sessionId = uuidv4();
+    res.cookie("sessionId", req.sessionId, COOKIE_OPTIONS);
+  }
+  return { guestSessionId: req.sessionId };
+};
+
+// The commands a customer can send over the basket websocket
+enum EBasketCommand {
+  add = "add",
+  updateQuantity = "updateQuantity",
+  remove = "remove",
+  clear = "clear",
+  resync = "resync",
+}
+
+// A command that changes a customer's basket
+type TBasketChangeCommand = { requestId: TBasketRequestId } & (
+  | { type: EBasketCommand.add; productId: number; quantity: number }
+  | { type: EBasketCommand.updateQuantity; productId: number; quantity: number }
+  | { type: EBasketCommand.remove; productId: number }
+  | { type: EBasketCommand.clear }
+);
+
+// A command a customer can send over the basket websocket
+type TBasketCommand =
+  | TBasketChangeCommand
+  | { type: EBasketCommand.resync; requestId: TBasketRequestId };
+
+/**
+ * Read a command sent over the basket websocket
+ * @param message The message sent, parsed from JSON
+ * @returns The command, or null if the message is not a command with the
+ * fields its type needs
+ */
+const parseBasketCommand = (message: unknown): TBasketCommand | null => {
+  if (typeof message !== "object" || message === null) {
+    return null;
+  }
+  const { type, requestId, productId, quantity } = message as Record<
+    string,
+    unknown
+  >;
+  if (typeof requestId !== "string" && typeof requestId !== "number") {
+    return null;
+  }
+  switch (type) {
+    case EBasketCommand.add:
+    case EBasketCommand.updateQuantity:
+      return typeof productId === "number" &&
+        typeof quantity === "number" &&
+        quantity > 0
+        ? {
+            type: type,
+            requestId: requestId,
+            productId: productId,
+            quantity: quantity,
+          }
+        : null;
+    case EBasketCommand.remove:
+      return typeof productId === "number"
+        ? { type: type, requestId: requestId, productId: productId }
+        : null;
+    case EBasketCommand.clear:
+    case EBasketCommand.resync:
+      return { type: type, requestId: requestId };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Carry out a command a customer sent over the basket websocket, using the
+ * same model functions as the REST routes
+ * @param customerId The id of the customer
+ * @param command The command sent
+ * @returns null if the basket is changed, otherwise why the command failed.
+ * Rejects on database errors
+ */
+const runBasketCommand = async (
+  customerId: number,
+  command: TBasketChangeCommand
+): Promise<ETextResponse | null> => {
+  switch (command.type) {
+    case EBasketCommand.add:
+      switch (
+        await addProductToBasket(
+          customerId,
+          command.productId,
+          command.quantity
+        )
+      ) {
+        case EDatabaseResponses.OK:
+          return null;
+        case EDatabaseResponses.CONFLICT:
+          return ETextResponse.PRODUCT_ALREADY_IN_BASKET;
+        case EDatabaseResponses.FOREIGN_KEY_VIOLATION:
+          return ETextResponse.PRODUCT_ID_NOT_EXISTS;
+        default:
+          return ETextResponse.INTERNAL_ERROR;
+      }
+    case EBasketCommand.updateQuantity:
+      switch (
+        await updateQuantityOfProductInBasket(
+          customerId,
+          command.productId,
+          command.quantity
+        )
+      ) {
+        case EDatabaseResponses.OK:
+          return null;
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return ETextResponse.PRODUCT_NOT_IN_BASKET;
+        default:
+          return ETextResponse.INTERNAL_ERROR;
+      }
+    case EBasketCommand.remove:
+      switch (await removeProductFromBasket(customerId, command.productId)) {
+        case EDatabaseResponses.OK:
+          return null;
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return ETextResponse.PRODUCT_NOT_IN_BASKET;
+        default:
+          return ETextResponse.INTERNAL_ERROR;
+      }
+    case EBasketCommand.clear:
+      // Clearing a basket that is already empty leaves it as asked
+      await clearBasket(customerId);
+      return null;
+  }
 };
 
 /**
  * @swagger
- * /basket/:
+ * /basket/updates:
  *   ws:
  *     tags: [Basket]
- *     summary: Open a websocket connection for basket updates
+ *     summary: Open a websocket connection for basket updates and commands
+ *     description: On connecting, a customer is sent a basketSnapshot with the basket and
+ *       its version. Every change after that is sent as a basketDiff with the next version
+ *       and the changes, each a productId and its new quantity, where 0 means removed.
+ *       A client that sees a version gap should send a resync command to get a new
+ *       basketSnapshot. Commands are JSON with a type of add, updateQuantity, remove,
+ *       clear or resync, a requestId, and the productId and quantity the REST routes take.
+ *       The sender gets an ack with the requestId, version and changes, or an error with
+ *       the requestId and the reason, and the changes go to the customer's other sessions
+ *       as a basketDiff
  */
 basketRouter.ws("/updates", (ws, req) => {
   const sessionId: string | undefined = req.sessionId;
@@ -69,8 +209,13 @@ basketRouter.ws("/updates", (ws, req) => {
     // Check if a customer already has a Map for their session ids
     console.log(`New (Customer: ${customerId}) connection`);
     if (!basketWebSockets.has(customerId)) {
-      // If not, create one
+      // If not, create one, along with the basket their connections are sent
       basketWebSockets.set(customerId, new Map<string, WebSocket>());
+      basketSocketStates.set(customerId, {
+        version: 0,
+        contents: new Map(),
+        queue: Promise.resolve(),
+      });
     }
     // Then add to the customer's map their current session id
     basketWebSockets.get(customerId)!.set(sessionId, ws);
@@ -79,6 +224,67 @@ basketRouter.ws("/updates", (ws, req) => {
         basketWebSockets.get(customerId)?.size
       } connection(s)`
     );
+    sendBasketSnapshot(customerId, sessionId, ws).catch((_) => {
+      ws.send(
+        JSON.stringify({ type: "error", error: ETextResponse.INTERNAL_ERROR })
+      );
+    });
+
+    ws.on("message", (data) => {
+      let message: unknown = null;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (_) {}
+      const command = parseBasketCommand(message);
+      if (command === null) {
+        // Send back the request id if there is one, so the client can match the error
+        const requestId = (message as { requestId?: unknown } | null)
+          ?.requestId;
+        return ws.send(
+          JSON.stringify({
+            type: "error",
+            requestId:
+              typeof requestId === "string" || typeof requestId === "number"
+                ? requestId
+                : null,
+            error: ETextResponse.BASKET_COMMAND_INVALID,
+          })
+        );
+      }
+
+      const sendError = (error: ETextResponse) => {
+        ws.send(
+          JSON.stringify({
+            type: "error",
+            requestId: command.requestId,
+            error: error,
+          })
+        );
+      };
+      (command.type === EBasketCommand.resync
+        ? sendBasketSnapshot(customerId, sessionId, ws, command.requestId)
+        : runBasketCommand(customerId, command).then((failure) => {
+            if (failure !== null) {
+              return sendError(failure);
+            }
+            return sendBasketChangesToAllCustomerClients(
+              customerId,
+              sessionId
+            ).then((diff) => {
+              ws.send(
+                JSON.stringify({
+                  type: "ack",
+                  requestId: command.requestId,
+                  ...diff,
+                })
+              );
+            });
+          })
+      ).catch((_) => {
+        sendError(ETextResponse.INTERNAL_ERROR);
+      });
+    });
+
     ws.on("close", () => {
       basketWebSockets.get(customerId)!.delete(sessionId);
       console.log(
@@ -89,6 +295,7 @@ basketRouter.ws("/updates", (ws, req) => {
       if (basketWebSockets.get(customerId)!.size <= 0) {
         console.log(`No (Customer: ${customerId}) connections left`);
         basketWebSockets.delete(customerId);
+        basketSocketStates.delete(customerId);
       }
     });
   }
@@ -100,6 +307,8 @@ basketRouter.ws("/updates", (ws, req) => {
  *   get:
  *     tags: [Basket]
  *     summary: Get all products in a customer's basket
+ *     description: Anyone not logged in gets the guest basket for their session, which is
+ *       merged into their own basket when they log in
  *     responses:
  *       200:
  *         description: Customer's basket contents
@@ -115,16 +324,19 @@ basketRouter.ws("/updates", (ws, req) => {
  *                type: number
  *                description: The quantity of the product in the basket.
  *       401:
- *          description: Account details invalid or account is not a customer account
+ *          description: Account is not a customer account
  *       500:
  *          description: Internal server error
  */
-basketRouter.get("/", verifyToken, (req, res) => {
-  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+basketRouter.get("/", verifyOptionalToken, (req, res) => {
+  const owner = getBasketOwner(req, res);
+  if (owner === null) {
     return res.sendStatus(EResponseStatusCodes.UNAUTHORIZED_CODE);
   }
-  const customerId = req.user.accountTypeId;
-  getAllProductsInBasket(customerId)
+  ("customerId" in owner
+    ? getAllProductsInBasket(owner.customerId)
+    : getAllProductsInGuestBasket(owner.guestSessionId)
+  )
     .then((basketContents) => {
       return res.json(basketContents);
     })
@@ -133,12 +345,59 @@ basketRouter.get("/", verifyToken, (req, res) => {
     });
 });
 
+/**
+ * @swagger
+ * /basket/promotions:
+ *   get:
+ *     tags: [Basket]
+ *     summary: Get the promotions that apply to a customer's basket
+ *     description: Checkout applies the same promotions, before any discount codes. Anyone
+ *       not logged in gets the promotions for the guest basket for their session
+ *     responses:
+ *       200:
+ *         description: The promotions that apply, and what they take off each line
+ *         schema:
+ *           type: object
+ *           properties:
+ *             promotions:
+ *               type: array
+ *               description: The promotions applied, in the order they were chosen. Each has a
+ *                 promotionId, name, promotionType, timesApplied, amount, and the products used
+ *                 with the quantity of each
+ *             lines:
+ *               type: array
+ *               description: The productId, quantity and discount for each basket line
+ *             saving:
+ *               type: number
+ *               description: The amount the promotions take off the basket
+ *       401:
+ *          description: Account is not a customer account
+ *       500:
+ *          description: Internal server error
+ */
+basketRouter.get("/promotions", verifyOptionalToken, (req, res) => {
+  const owner = getBasketOwner(req, res);
+  if (owner === null) {
+    return res.sendStatus(EResponseStatusCodes.UNAUTHORIZED_CODE);
+  }
+  ("customerId" in owner
+    ? getBasketPromotions(owner.customerId)
+    : getGuestBasketPromotions(owner.guestSessionId)
+  )
+    .then((basketPromotions) => {
+      return res.json(basketPromotions);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
 /**
  * @swagger
  * /basket/:
  *   post:
  *     tags: [Basket]
- *     summary: Add a new product to a customer's basket
+ *     summary: Add a new product to a customer's basket, or the guest basket for the session
  *     parameters:
  *       - in: body
  *         name: productId
@@ -158,17 +417,17 @@ basketRouter.get("/", verifyToken, (req, res) => {
  *       400:
  *          description: Request fields missing or product does not exist
  *       401:
- *          description: Account details invalid or account is not a customer account
+ *          description: Account is not a customer account
  *       409:
  *          description: Product already in basket
  *       500:
  *          description: Internal server error
  */
-basketRouter.post("/", verifyToken, (req, res) => {
-  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+basketRouter.post("/", verifyOptionalToken, (req, res) => {
+  const owner = getBasketOwner(req, res);
+  if (owner === null) {
     return res.sendStatus(EResponseStatusCodes.UNAUTHORIZED_CODE);
   }
-  const customerId = req.user.accountTypeId;
   const { productId, quantity } = req.body;
   if (
     typeof productId !== "number" ||
@@ -179,11 +438,20 @@ basketRouter.post("/", verifyToken, (req, res) => {
       .status(EResponseStatusCodes.BAD_REQUEST_CODE)
       .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
   }
-  addProductToBasket(customerId, productId, quantity)
+  ("customerId" in owner
+    ? addProductToBasket(owner.customerId, productId, quantity)
+    : addProductToGuestBasket(owner.guestSessionId, productId, quantity)
+  )
     .then((response) => {
       switch (response) {
         case EDatabaseResponses.OK:
-          sendBasketContentsToAllCustomerClients(customerId);
+          if ("customerId" in owner) {
+            sendBasketChangesToAllCustomerClients(owner.customerId).catch(
+              (err) => {
+                console.error(err);
+              }
+            );
+          }
           return res.sendStatus(200);
         case EDatabaseResponses.CONFLICT:
           return res
@@ -229,15 +497,15 @@ basketRouter.post("/", verifyToken, (req, res) => {
  *       400:
  *          description: Request fields missing or product does not exist in basket
  *       401:
- *          description: Account details invalid or account is not a customer account
+ *          description: Account is not a customer account
  *       500:
  *          description: Internal server error
  */
-basketRouter.put("/", verifyToken, (req, res) => {
-  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+basketRouter.put("/", verifyOptionalToken, (req, res) => {
+  const owner = getBasketOwner(req, res);
+  if (owner === null) {
     return res.sendStatus(EResponseStatusCodes.UNAUTHORIZED_CODE);
   }
-  const customerId = req.user.accountTypeId;
   const { productId, quantity } = req.body;
   if (
     typeof productId !== "number" ||
@@ -248,11 +516,24 @@ basketRouter.put("/", verifyToken, (req, res) => {
       .status(EResponseStatusCodes.BAD_REQUEST_CODE)
       .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
   }
-  updateQuantityOfProductInBasket(customerId, productId, quantity)
+  ("customerId" in owner
+    ? updateQuantityOfProductInBasket(owner.customerId, productId, quantity)
+    : updateQuantityOfProductInGuestBasket(
+        owner.guestSessionId,
+        productId,
+        quantity
+      )
+  )
     .then((response) => {
       switch (response) {
         case EDatabaseResponses.OK:
-          sendBasketContentsToAllCustomerClients(customerId);
+          if ("customerId" in owner) {
+            sendBasketChangesToAllCustomerClients(owner.customerId).catch(
+              (err) => {
+                console.error(err);
+              }
+            );
+          }
           return res.sendStatus(200);
         case EDatabaseResponses.DOES_NOT_EXIST:
           return res
@@ -274,7 +555,7 @@ basketRouter.put("/", verifyToken, (req, res) => {
  * /basket/:
  *   delete:
  *     tags: [Basket]
- *     summary: Remove a product from a customer's basket
+ *     summary: Remove a product from a customer's basket, or the guest basket for the session
  *     parameters:
  *       - in: body
  *         name: productId
@@ -288,26 +569,35 @@ basketRouter.put("/", verifyToken, (req, res) => {
  *       400:
  *          description: Request fields missing or product does not exist in basket
  *       401:
- *          description: Account details invalid or account is not a customer account
+ *          description: Account is not a customer account
  *       500:
  *          description: Internal server error
  */
-basketRouter.delete("/", verifyToken, (req, res) => {
-  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+basketRouter.delete("/", verifyOptionalToken, (req, res) => {
+  const owner = getBasketOwner(req, res);
+  if (owner === null) {
     return res.sendStatus(EResponseStatusCodes.UNAUTHORIZED_CODE);
   }
-  const customerId = req.user.accountTypeId;
   const { productId } = req.body;
   if (typeof productId !== "number") {
     return res
       .status(EResponseStatusCodes.BAD_REQUEST_CODE)
       .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
   }
-  removeProductFromBasket(customerId, productId)
+  ("customerId" in owner
+    ? removeProductFromBasket(owner.customerId, productId)
+    : removeProductFromGuestBasket(owner.guestSessionId, productId)
+  )
     .then((response) => {
       switch (response) {
         case EDatabaseResponses.OK:
-          sendBasketContentsToAllCustomerClients(customerId);
+          if ("customerId" in owner) {
+            sendBasketChangesToAllCustomerClients(owner.customerId).catch(
+              (err) => {
+                console.error(err);
+              }
+            );
+          }
           return res.sendStatus(200);
         case EDatabaseResponses.DOES_NOT_EXIST:
           return res
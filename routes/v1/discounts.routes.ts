@@ -1,13 +1,182 @@
-import { Router } from "express";
+import { Response, Router } from "express";
 import { EAccountTypes, verifyToken } from "../../security/security";
 import {
   EResponseStatusCodes,
   ETextResponse,
 } from "../../common/response-types";
-import { validateDiscountCode } from "../../models/discount.models";
+import {
+  createDiscountCode,
+  deactivateDiscountCode,
+  EDiscountType,
+  getDiscountCodes,
+  getOrdersUsingDiscountCode,
+  TDiscountCodeDetails,
+  TDiscountScope,
+  updateDiscountCode,
+  validateDiscountCode,
+} from "../../models/discount.models";
+import { EDatabaseResponses } from "../../data/data";
+import { isArrayOfDiscountScopes, isValidDate } from "../../common/validation";
+import {
+  createDiscountCodeBatch,
+  deactivateDiscountCodeBatch,
+  getDiscountCodeBatch,
+  getDiscountCodeBatchCodes,
+  getDiscountCodeBatches,
+  MAX_DISCOUNT_CODE_BATCH_SIZE,
+} from "../../models/discount-batches.models";
+import { TCsvValue, toCsv } from "../../common/csv";
+import {
+  EReportInterval,
+  getCodePerformance,
+  getCodeRedemptionsOverTime,
+  getOrderValueComparison,
+  TReportDateRange,
+} from "../../models/discount-reports.models";
 
 export const discountRouter = Router();
 
+/**
+ * Check an optional value sent in a request
+ * @param value The value to check
+ * @param isValid Checks the value when it is given
+ * @returns True if the value is not given, null, or passes isValid
+ */
+const isValidOptional = (value: any, isValid: (value: any) => boolean) => {
+  return value === undefined || value === null || isValid(value);
+};
+
+/**
+ * Read the details of a discount code sent in a request body
+ * @param body The request body
+ * @returns The discount code details, or null if any are missing or invalid
+ */
+const getDiscountCodeDetailsFromBody = (
+  body: any
+): TDiscountCodeDetails | null => {
+  const {
+    discountType = EDiscountType.percent,
+    percent,
+    amountOff,
+    minSpend,
+    startsOn,
+    endsOn,
+    maxUsesPerCustomer,
+    firstOrderOnly = false,
+    numberOfUses,
+    stackable,
+    active,
+    scopes = [],
+  } = body;
+  if (
+    (discountType === EDiscountType.percent &&
+      (typeof percent !== "number" || percent <= 0 || percent > 100)) ||
+    (discountType === EDiscountType.fixed &&
+      (typeof amountOff !== "number" || amountOff <= 0)) ||
+    !Object.values(EDiscountType).includes(discountType) ||
+    !isValidOptional(
+      minSpend,
+      (value) => typeof value === "number" && value >= 0
+    ) ||
+    !isValidOptional(startsOn, isValidDate) ||
+    !isValidOptional(endsOn, isValidDate) ||
+    (isValidDate(startsOn) &&
+      isValidDate(endsOn) &&
+      Date.parse(endsOn) <= Date.parse(startsOn)) ||
+    !isValidOptional(
+      maxUsesPerCustomer,
+      (value) => Number.isInteger(value) && value > 0
+    ) ||
+    typeof firstOrderOnly !== "boolean" ||
+    !isValidOptional(
+      numberOfUses,
+      (value) => Number.isInteger(value) && value >= 0
+    ) ||
+    typeof stackable !== "boolean" ||
+    typeof active !== "boolean" ||
+    !isArrayOfDiscountScopes(scopes)
+  ) {
+    return null;
+  }
+  return {
+    discountType: discountType,
+    percent: discountType === EDiscountType.percent ? percent : 0,
+    amountOff: discountType === EDiscountType.fixed ? amountOff : 0,
+    minSpend: minSpend ?? null,
+    startsOn: startsOn ? new Date(startsOn) : null,
+    endsOn: endsOn ? new Date(endsOn) : null,
+    maxUsesPerCustomer: maxUsesPerCustomer ?? null,
+    firstOrderOnly: firstOrderOnly,
+    numberOfUses: numberOfUses ?? null,
+    stackable: stackable,
+    active: active,
+    scopes: scopes.map((scope: TDiscountScope) => ({
+      scopeType: scope.scopeType,
+      targetId: scope.targetId,
+      excluded: scope.excluded ?? false,
+    })),
+  };
+};
+
+/**
+ * Read the date range and format of a report from a request's query
+ * @param query The request query
+ * @returns The date range and format, or null if any are invalid
+ */
+const getReportOptionsFromQuery = (
+  query: any
+): { range: TReportDateRange; format: "json" | "csv" } | null => {
+  const { from, to, format = "json" } = query;
+  if (
+    !isValidOptional(from, isValidDate) ||
+    !isValidOptional(to, isValidDate) ||
+    (isValidDate(from) &&
+      isValidDate(to) &&
+      Date.parse(to) <= Date.parse(from)) ||
+    (format !== "json" && format !== "csv")
+  ) {
+    return null;
+  }
+  return {
+    range: {
+      from: from ? new Date(from) : null,
+      to: to ? new Date(to) : null,
+    },
+    format: format,
+  };
+};
+
+/**
+ * Send a report as JSON, or as a CSV file
+ * @param res The response to send the report on
+ * @param format The format to send the report in
+ * @param filename The name of the CSV file, without the extension
+ * @param headers The keys of each row, in the order of the CSV columns
+ * @param rows The rows of the report
+ */
+const sendReport = <T extends Record<string, TCsvValue>>(
+  res: Response,
+  format: "json" | "csv",
+  filename: string,
+  headers: (keyof T & string)[],
+  rows: T[]
+) => {
+  if (format === "json") {
+    return res.json(rows);
+  }
+  res.setHeader("Content-Type", "text/csv");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${filename}.csv"`
+  );
+  res.send(
+    toCsv(
+      headers,
+      rows.map((row) => headers.map((header) => row[header]))
+    )
+  );
+};
+
 /**
  * @swagger
  * /discounts/code:
@@ -31,12 +200,53 @@ export const discountRouter = Router();
  *               type: boolean
  *               description: The discount code is valid.
  *               example: 1
+ *             rejectionReason:
+ *               type: string
+ *               description: Why the code can't be used, null if it is valid. One of inactive,
+ *                 notStarted, expired, usedUp, customerLimitReached, firstOrderOnly or minimumSpendNotMet
+ *             discountType:
+ *               type: string
+ *               description: percent or fixed
  *             percent:
  *               type: number
- *               description: The percentage the code will take off from the order
+ *               description: The percentage the code will take off from the order, 0 for fixed codes
+ *             amountOff:
+ *               type: number
+ *               description: The amount the code will take off from the order, 0 for percent codes
+ *             minSpend:
+ *               type: number
+ *               description: The smallest basket value the code can be used on, null for any
+ *             startsOn:
+ *               type: date
+ *               description: The code can't be used before this date, null if always usable
+ *             endsOn:
+ *               type: date
+ *               description: The code can't be used after this date, null if it never expires
+ *             maxUsesPerCustomer:
+ *               type: number
+ *               description: The number of orders each customer can use the code on, null for unlimited
+ *             firstOrderOnly:
+ *               type: boolean
+ *               description: If the code can only be used on a customer's first order
  *             stackable:
  *               type: boolean
  *               description: If the code can be used in conjunction with other offers
+ *             scopes:
+ *               type: array
+ *               description: The products the code is restricted to or excludes. The code only
+ *                 takes money off the basket lines it covers
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   scopeType:
+ *                     type: string
+ *                     description: product, baseProduct, brand or productType
+ *                   targetId:
+ *                     type: number
+ *                     description: The id of the product, base product, brand or product type
+ *                   excluded:
+ *                     type: boolean
+ *                     description: True if matching products are excluded from the discount
  *       400:
  *          description: Request missing code or code invalid
  *       401:
@@ -55,7 +265,7 @@ discountRouter.get("/code", verifyToken, (req, res) => {
     return res.sendStatus(EResponseStatusCodes.BAD_REQUEST_CODE);
   }
 
-  validateDiscountCode(discountCode)
+  validateDiscountCode(discountCode, req.user.accountTypeId)
     .then((validation) => {
       if (validation !== null) {
         res.json(validation);
@@ -71,4 +281,1119 @@ discountRouter.get("/code", verifyToken, (req, res) => {
     });
 });
 
+/**
+ * @swagger
+ * /discounts:
+ *   get:
+ *     tags: [Discounts]
+ *     summary: Get every discount code
+ *     responses:
+ *       200:
+ *         description: A list of discount codes
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the discount code
+ *              code:
+ *                type: string
+ *                description: The code customers enter
+ *              discountType:
+ *                type: string
+ *                description: percent or fixed
+ *              percent:
+ *                type: number
+ *                description: The percentage taken off the order, 0 for fixed codes
+ *              amountOff:
+ *                type: number
+ *                description: The amount taken off the order, 0 for percent codes
+ *              minSpend:
+ *                type: number
+ *                description: The smallest basket value the code can be used on, null for any
+ *              startsOn:
+ *                type: date
+ *                description: The code can't be used before this date, null if always usable
+ *              endsOn:
+ *                type: date
+ *                description: The code can't be used after this date, null if it never expires
+ *              maxUsesPerCustomer:
+ *                type: number
+ *                description: The number of orders each customer can use the code on, null for unlimited
+ *              firstOrderOnly:
+ *                type: boolean
+ *                description: If the code can only be used on a customer's first order
+ *              numberOfUses:
+ *                type: number
+ *                description: The number of uses remaining, null for unlimited
+ *              stackable:
+ *                type: boolean
+ *                description: If the code can be used in conjunction with other offers
+ *              active:
+ *                type: boolean
+ *                description: If the code can currently be used
+ *              scopes:
+ *                type: array
+ *                description: The products the code is restricted to or excludes, each with a
+ *                  scopeType (product, baseProduct, brand or productType), targetId and excluded flag
+ *              timesUsed:
+ *                type: number
+ *                description: The number of orders the code has been used on
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.get("/", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+
+  getDiscountCodes()
+    .then((discountCodes) => {
+      res.json(discountCodes);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts:
+ *   post:
+ *     tags: [Discounts]
+ *     summary: Create a discount code
+ *     parameters:
+ *       - in: body
+ *         name: code
+ *         required: true
+ *         description: The code customers enter
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: discountType
+ *         required: false
+ *         description: percent to take a percentage off the order, or fixed to take off an amount. Defaults to percent
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: percent
+ *         required: false
+ *         description: The percentage taken off the order, more than 0 and at most 100. Required for percent codes
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: amountOff
+ *         required: false
+ *         description: The amount taken off the order, never more than the lines the code covers. Required for fixed codes
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: minSpend
+ *         required: false
+ *         description: The smallest basket value the code can be used on
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: startsOn
+ *         required: false
+ *         description: The code can't be used before this date
+ *         schema:
+ *           type: date
+ *       - in: body
+ *         name: endsOn
+ *         required: false
+ *         description: The code can't be used after this date
+ *         schema:
+ *           type: date
+ *       - in: body
+ *         name: maxUsesPerCustomer
+ *         required: false
+ *         description: The number of orders each customer can use the code on. Unlimited if not given
+ *         schema:
+ *           type: integer
+ *       - in: body
+ *         name: firstOrderOnly
+ *         required: false
+ *         description: If the code can only be used on a customer's first order. Defaults to false
+ *         schema:
+ *           type: boolean
+ *       - in: body
+ *         name: numberOfUses
+ *         required: false
+ *         description: The number of times the code can be used. Unlimited if not given or null
+ *         schema:
+ *           type: integer
+ *       - in: body
+ *         name: stackable
+ *         required: true
+ *         description: If the code can be used in conjunction with other offers
+ *         schema:
+ *           type: boolean
+ *       - in: body
+ *         name: active
+ *         required: true
+ *         description: If the code can currently be used
+ *         schema:
+ *           type: boolean
+ *       - in: body
+ *         name: scopes
+ *         required: false
+ *         description: The products the code is restricted to or excludes. Each scope has a
+ *           scopeType of product, baseProduct, brand or productType, the targetId it matches and
+ *           an optional excluded flag. Without any included scopes the code covers every product
+ *           that is not excluded
+ *         schema:
+ *           type: array
+ *     responses:
+ *       201:
+ *          description: Discount code created
+ *       400:
+ *          description: Fields missing or invalid in request
+ *       401:
+ *          description: Account lacks required permissions
+ *       409:
+ *          description: The code already exists
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.post("/", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { code } = req.body;
+  const details = getDiscountCodeDetailsFromBody(req.body);
+  if (typeof code !== "string" || code.trim().length <= 0 || details === null) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.DISCOUNT_CODE_DETAILS_INVALID);
+  }
+
+  createDiscountCode(code.trim(), details)
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res
+            .status(EResponseStatusCodes.CREATED_CODE)
+            .send(ETextResponse.DISCOUNT_CODE_CREATED);
+        case EDatabaseResponses.CONFLICT:
+          return res
+            .status(EResponseStatusCodes.CONFLICT_CODE)
+            .send(ETextResponse.DISCOUNT_CODE_ALREADY_EXISTS);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/{discountCodeId}:
+ *   put:
+ *     tags: [Discounts]
+ *     summary: Update a discount code
+ *     description: Orders that already used the code are not changed
+ *     parameters:
+ *       - in: params
+ *         name: discountCodeId
+ *         required: true
+ *         description: The id of the discount code
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: discountType
+ *         required: false
+ *         description: percent to take a percentage off the order, or fixed to take off an amount. Defaults to percent
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: percent
+ *         required: false
+ *         description: The percentage taken off the order, more than 0 and at most 100. Required for percent codes
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: amountOff
+ *         required: false
+ *         description: The amount taken off the order, never more than the lines the code covers. Required for fixed codes
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: minSpend
+ *         required: false
+ *         description: The smallest basket value the code can be used on
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: startsOn
+ *         required: false
+ *         description: The code can't be used before this date
+ *         schema:
+ *           type: date
+ *       - in: body
+ *         name: endsOn
+ *         required: false
+ *         description: The code can't be used after this date
+ *         schema:
+ *           type: date
+ *       - in: body
+ *         name: maxUsesPerCustomer
+ *         required: false
+ *         description: The number of orders each customer can use the code on. Unlimited if not given
+ *         schema:
+ *           type: integer
+ *       - in: body
+ *         name: firstOrderOnly
+ *         required: false
+ *         description: If the code can only be used on a customer's first order. Defaults to false
+ *         schema:
+ *           type: boolean
+ *       - in: body
+ *         name: numberOfUses
+ *         required: false
+ *         description: The number of times the code can be used. Unlimited if not given or null
+ *         schema:
+ *           type: integer
+ *       - in: body
+ *         name: stackable
+ *         required: true
+ *         description: If the code can be used in conjunction with other offers
+ *         schema:
+ *           type: boolean
+ *       - in: body
+ *         name: active
+ *         required: true
+ *         description: If the code can currently be used
+ *         schema:
+ *           type: boolean
+ *       - in: body
+ *         name: scopes
+ *         required: false
+ *         description: The products the code is restricted to or excludes. Each scope has a
+ *           scopeType of product, baseProduct, brand or productType, the targetId it matches and
+ *           an optional excluded flag. Without any included scopes the code covers every product
+ *           that is not excluded
+ *         schema:
+ *           type: array
+ *     responses:
+ *       200:
+ *          description: Discount code updated
+ *       400:
+ *          description: Fields missing or invalid in request, or the code does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.put("/:discountCodeId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { discountCodeId } = req.params;
+  if (Number.isNaN(Number(discountCodeId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+  const details = getDiscountCodeDetailsFromBody(req.body);
+  if (details === null) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.DISCOUNT_CODE_DETAILS_INVALID);
+  }
+
+  updateDiscountCode(Number(discountCodeId), details)
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res.send(ETextResponse.DISCOUNT_CODE_UPDATED);
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.DISCOUNT_CODE_NOT_EXIST);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/{discountCodeId}:
+ *   delete:
+ *     tags: [Discounts]
+ *     summary: Deactivate a discount code
+ *     description: The code is kept, as orders that used it still refer to it
+ *     parameters:
+ *       - in: params
+ *         name: discountCodeId
+ *         required: true
+ *         description: The id of the discount code
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *          description: Discount code deactivated
+ *       400:
+ *          description: Id invalid, or the code does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.delete("/:discountCodeId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { discountCodeId } = req.params;
+  if (Number.isNaN(Number(discountCodeId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  deactivateDiscountCode(Number(discountCodeId))
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res.send(ETextResponse.DISCOUNT_CODE_DEACTIVATED);
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.DISCOUNT_CODE_NOT_EXIST);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/{discountCodeId}/orders:
+ *   get:
+ *     tags: [Discounts]
+ *     summary: Get every order a discount code was used on
+ *     parameters:
+ *       - in: params
+ *         name: discountCodeId
+ *         required: true
+ *         description: The id of the discount code
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: A list of orders, newest first
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the order
+ *              customerId:
+ *                type: number
+ *                description: The id of the customer who placed the order
+ *              status:
+ *                type: string
+ *                description: The current status of the order
+ *              pricePaid:
+ *                type: number
+ *                description: The amount paid for the order
+ *              placedOn:
+ *                type: date
+ *                description: The date the order was placed
+ *       400:
+ *          description: Id invalid, or the code does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.get("/:discountCodeId/orders", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { discountCodeId } = req.params;
+  if (Number.isNaN(Number(discountCodeId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  getOrdersUsingDiscountCode(Number(discountCodeId))
+    .then((orders) => {
+      if (orders !== null) {
+        res.json(orders);
+      } else {
+        res
+          .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+          .send(ETextResponse.DISCOUNT_CODE_NOT_EXIST);
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/batches:
+ *   get:
+ *     tags: [Discounts]
+ *     summary: Get every batch of generated discount codes, with redemption stats
+ *     description: Orders that were cancelled give their codes back, so are not counted
+ *     responses:
+ *       200:
+ *         description: A list of batches, newest first
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the batch
+ *              prefix:
+ *                type: string
+ *                description: The prefix every code in the batch starts with
+ *              createdOn:
+ *                type: date
+ *                description: The date the batch was created
+ *              codesIssued:
+ *                type: number
+ *                description: The number of codes in the batch
+ *              codesRedeemed:
+ *                type: number
+ *                description: The number of codes used on an order
+ *              redemptionRate:
+ *                type: number
+ *                description: The share of codes redeemed, between 0 and 1
+ *              codesActive:
+ *                type: number
+ *                description: The number of codes that can still be used
+ *              revenue:
+ *                type: number
+ *                description: The amount paid for the orders the codes were used on
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.get("/batches", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+
+  getDiscountCodeBatches()
+    .then((batches) => {
+      res.json(batches);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/batches:
+ *   post:
+ *     tags: [Discounts]
+ *     summary: Create a batch of single use discount codes
+ *     description: Every code gets a random suffix after the prefix, and can be used once. The
+ *       codes share the rules given, which are the same as for creating a discount code apart
+ *       from numberOfUses
+ *     parameters:
+ *       - in: body
+ *         name: prefix
+ *         required: true
+ *         description: The prefix every code starts with, up to 16 letters and numbers
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: count
+ *         required: true
+ *         description: The number of codes to create, at most 10000
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       201:
+ *         description: Batch created
+ *         schema:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: number
+ *               description: The id of the batch
+ *       400:
+ *          description: Fields missing or invalid in request
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.post("/batches", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { prefix, count } = req.body;
+  const details = getDiscountCodeDetailsFromBody({
+    ...req.body,
+    numberOfUses: 1,
+  });
+  if (
+    typeof prefix !== "string" ||
+    !/^[A-Za-z0-9]{1,16}$/.test(prefix) ||
+    !Number.isInteger(count) ||
+    count <= 0 ||
+    count > MAX_DISCOUNT_CODE_BATCH_SIZE ||
+    details === null
+  ) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.DISCOUNT_CODE_BATCH_DETAILS_INVALID);
+  }
+
+  createDiscountCodeBatch(prefix.toUpperCase(), count, details)
+    .then((batchId) => {
+      res.status(EResponseStatusCodes.CREATED_CODE).json({ id: batchId });
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/batches/{batchId}:
+ *   get:
+ *     tags: [Discounts]
+ *     summary: Get the redemption stats for a batch of discount codes
+ *     parameters:
+ *       - in: params
+ *         name: batchId
+ *         required: true
+ *         description: The id of the batch
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: The batch, with the same stats as listing every batch
+ *       400:
+ *          description: Id invalid, or the batch does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.get("/batches/:batchId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { batchId } = req.params;
+  if (Number.isNaN(Number(batchId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  getDiscountCodeBatch(Number(batchId))
+    .then((batch) => {
+      if (batch !== null) {
+        res.json(batch);
+      } else {
+        res
+          .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+          .send(ETextResponse.DISCOUNT_CODE_BATCH_NOT_EXIST);
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/batches/{batchId}/codes:
+ *   get:
+ *     tags: [Discounts]
+ *     summary: Export the codes in a batch as CSV
+ *     description: Each row has the code, whether it can still be used, and the id and date of
+ *       the order it was redeemed on
+ *     produces:
+ *       - text/csv
+ *     parameters:
+ *       - in: params
+ *         name: batchId
+ *         required: true
+ *         description: The id of the batch
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *          description: A CSV file of the codes, in code order
+ *       400:
+ *          description: Id invalid, or the batch does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.get("/batches/:batchId/codes", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { batchId } = req.params;
+  if (Number.isNaN(Number(batchId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  getDiscountCodeBatchCodes(Number(batchId))
+    .then((codes) => {
+      if (codes === null) {
+        return res
+          .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+          .send(ETextResponse.DISCOUNT_CODE_BATCH_NOT_EXIST);
+      }
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="discount-batch-${Number(batchId)}.csv"`
+      );
+      res.send(
+        toCsv(
+          ["code", "active", "orderId", "redeemedOn"],
+          codes.map((code) => [
+            code.code,
+            code.active,
+            code.orderId,
+            code.redeemedOn,
+          ])
+        )
+      );
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/batches/{batchId}:
+ *   delete:
+ *     tags: [Discounts]
+ *     summary: Deactivate every code in a batch
+ *     description: The codes are kept, as orders that used them still refer to them
+ *     parameters:
+ *       - in: params
+ *         name: batchId
+ *         required: true
+ *         description: The id of the batch
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *          description: Batch deactivated
+ *       400:
+ *          description: Id invalid, or the batch does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.delete("/batches/:batchId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { batchId } = req.params;
+  if (Number.isNaN(Number(batchId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  deactivateDiscountCodeBatch(Number(batchId))
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res.send(ETextResponse.DISCOUNT_CODE_BATCH_DEACTIVATED);
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.DISCOUNT_CODE_BATCH_NOT_EXIST);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/reports/redemptions:
+ *   get:
+ *     tags: [Discounts]
+ *     summary: Report the number of times each discount code was used over time
+ *     description: Generated codes are reported together under their batch prefix followed
+ *       by -*. Cancelled orders are not counted
+ *     produces:
+ *       - application/json
+ *       - text/csv
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         description: Only orders placed on or after this date
+ *         schema:
+ *           type: date
+ *       - in: query
+ *         name: to
+ *         description: Only orders placed before this date
+ *         schema:
+ *           type: date
+ *       - in: query
+ *         name: format
+ *         description: json, the default, or csv to download the report as a CSV file
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: interval
+ *         description: The length of each period, day, week or month. Defaults to day
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A list of redemptions, oldest period first
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              period:
+ *                type: date
+ *                description: The start of the period
+ *              code:
+ *                type: string
+ *                description: The code, or the batch prefix followed by -*
+ *              redemptions:
+ *                type: number
+ *                description: The number of orders the code was used on in the period
+ *              amountGivenAway:
+ *                type: number
+ *                description: The amount the code took off those orders
+ *       400:
+ *          description: Query invalid
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.get("/reports/redemptions", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { interval = EReportInterval.day } = req.query;
+  const options = getReportOptionsFromQuery(req.query);
+  if (
+    options === null ||
+    !Object.values(EReportInterval).includes(interval as EReportInterval)
+  ) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.DISCOUNT_REPORT_QUERY_INVALID);
+  }
+
+  getCodeRedemptionsOverTime(options.range, interval as EReportInterval)
+    .then((redemptions) => {
+      sendReport(
+        res,
+        options.format,
+        "discount-redemptions",
+        ["period", "code", "redemptions", "amountGivenAway"],
+        redemptions
+      );
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/reports/codes:
+ *   get:
+ *     tags: [Discounts]
+ *     summary: Report how each discount code performed
+ *     description: Generated codes are reported together under their batch prefix followed
+ *       by -*. Cancelled orders are not counted, and a customer is new if the order was the
+ *       first they placed
+ *     produces:
+ *       - application/json
+ *       - text/csv
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         description: Only orders placed on or after this date
+ *         schema:
+ *           type: date
+ *       - in: query
+ *         name: to
+ *         description: Only orders placed before this date
+ *         schema:
+ *           type: date
+ *       - in: query
+ *         name: format
+ *         description: json, the default, or csv to download the report as a CSV file
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A list of codes, most redeemed first
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              code:
+ *                type: string
+ *                description: The code, or the batch prefix followed by -*
+ *              batchId:
+ *                type: number
+ *                description: The id of the batch for generated codes, null otherwise
+ *              redemptions:
+ *                type: number
+ *                description: The number of orders the code was used on
+ *              amountGivenAway:
+ *                type: number
+ *                description: The amount the code took off those orders
+ *              revenue:
+ *                type: number
+ *                description: The amount paid for those orders
+ *              newCustomers:
+ *                type: number
+ *                description: Customers whose first order used the code
+ *              returningCustomers:
+ *                type: number
+ *                description: Customers who had ordered before using the code
+ *       400:
+ *          description: Query invalid
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.get("/reports/codes", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const options = getReportOptionsFromQuery(req.query);
+  if (options === null) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.DISCOUNT_REPORT_QUERY_INVALID);
+  }
+
+  getCodePerformance(options.range)
+    .then((codes) => {
+      sendReport(
+        res,
+        options.format,
+        "discount-codes",
+        [
+          "code",
+          "batchId",
+          "redemptions",
+          "amountGivenAway",
+          "revenue",
+          "newCustomers",
+          "returningCustomers",
+        ],
+        codes
+      );
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /discounts/reports/order-value:
+ *   get:
+ *     tags: [Discounts]
+ *     summary: Compare the average order value with and without a discount code
+ *     description: Cancelled orders are not counted
+ *     produces:
+ *       - application/json
+ *       - text/csv
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         description: Only orders placed on or after this date
+ *         schema:
+ *           type: date
+ *       - in: query
+ *         name: to
+ *         description: Only orders placed before this date
+ *         schema:
+ *           type: date
+ *       - in: query
+ *         name: format
+ *         description: json, the default, or csv to download the report as a CSV file
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The orders with a code, then the orders without one
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              withCode:
+ *                type: boolean
+ *                description: True for orders that used at least one code
+ *              orders:
+ *                type: number
+ *                description: The number of orders
+ *              revenue:
+ *                type: number
+ *                description: The amount paid for the orders
+ *              averageOrderValue:
+ *                type: number
+ *                description: The average amount paid per order, 0 if there were none
+ *       400:
+ *          description: Query invalid
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+discountRouter.get("/reports/order-value", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const options = getReportOptionsFromQuery(req.query);
+  if (options === null) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.DISCOUNT_REPORT_QUERY_INVALID);
+  }
+
+  getOrderValueComparison(options.range)
+    .then((comparison) => {
+      sendReport(
+        res,
+        options.format,
+        "discount-order-value",
+        ["withCode", "orders", "revenue", "averageOrderValue"],
+        comparison
+      );
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
 export default discountRouter;
@@ -0,0 +1,570 @@
+import { Router } from "express";
+import { FOREIGN_KEY_VIOLATION } from "../../common/postgresql-error-codes";
+import { EAccountTypes, verifyToken } from "../../security/security";
+import {
+  EResponseStatusCodes,
+  ETextResponse,
+} from "../../common/response-types";
+import {
+  createShipmentForOrder,
+  ECreateShipmentResponse,
+  getFulfilmentQueue,
+  getPickList,
+  TShipmentItem,
+} from "../../models/fulfilment.models";
+import {
+  isArrayOfNumbers,
+  isArrayOfProductQuantities,
+} from "../../common/validation";
+import {
+  getAllCarriers,
+  getCarrier,
+  TTrackingEvent,
+} from "../../carriers/carriers";
+import {
+  addTrackingEventsToShipment,
+  getOrderIdForShipment,
+  getShipmentCarrier,
+  setShipmentTracking,
+} from "../../models/shipment-tracking.models";
+import {
+  EOrderEvent,
+  sendOrderEventToCustomerClients,
+  sendOrderStatusChangeToCustomerClients,
+} from "./orders.routes";
+
+export const fulfilmentRouter = Router();
+
+/**
+ * Send new tracking events for a shipment to the customer who placed the order
+ * @param shipmentId The id of the shipment
+ * @param events The tracking events that were added
+ */
+const sendTrackingEventsToCustomerClients = async (
+  shipmentId: number,
+  events: TTrackingEvent[]
+) => {
+  try {
+    const orderId = await getOrderIdForShipment(shipmentId);
+    if (orderId !== null) {
+      await sendOrderEventToCustomerClients(
+        orderId,
+        EOrderEvent.trackingEvent,
+        { shipmentId, trackingEvents: events }
+      );
+    }
+  } catch (err) {
+    console.error(err);
+  }
+};
+
+/**
+ * @swagger
+ * /fulfilment/queue:
+ *   get:
+ *     tags: [Fulfilment]
+ *     summary: Get the orders that still have products waiting to be shipped
+ *     responses:
+ *       200:
+ *         description: A list of orders, oldest first
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the order
+ *              status:
+ *                type: string
+ *                description: The current status of the order
+ *              placedOn:
+ *                type: date
+ *                description: The date the order was placed
+ *              itemsRemaining:
+ *                type: number
+ *                description: The number of items still to be shipped
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+fulfilmentRouter.get("/queue", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.warehouse &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+
+  getFulfilmentQueue()
+    .then((queue) => {
+      res.json(queue);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /fulfilment/pick-list:
+ *   get:
+ *     tags: [Fulfilment]
+ *     summary: Get the products to pick, grouped by product across orders
+ *     parameters:
+ *       - in: query
+ *         name: orderIds
+ *         required: false
+ *         description: A comma separated list of orders to pick for. Every
+ *           order in the fulfilment queue is used if missing
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A list of products to pick
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              productId:
+ *                type: number
+ *                description: The id of the product
+ *              productName:
+ *                type: string
+ *                description: The name of the product
+ *              quantity:
+ *                type: number
+ *                description: The total quantity to pick
+ *              orderIds:
+ *                type: array
+ *                description: The orders the product is being picked for
+ *       400:
+ *          description: Order ids invalid
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+fulfilmentRouter.get("/pick-list", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.warehouse &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderIds } = req.query;
+  let orderIdsToPick: number[] | undefined = undefined;
+  if (orderIds !== undefined) {
+    const splitOrderIds =
+      typeof orderIds === "string" ? orderIds.split(",") : undefined;
+    if (splitOrderIds === undefined || !isArrayOfNumbers(splitOrderIds)) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.ID_INVALID_IN_REQ);
+    }
+    orderIdsToPick = splitOrderIds.map((orderId) => Number(orderId));
+  }
+
+  getPickList(orderIdsToPick)
+    .then((pickList) => {
+      res.json(pickList);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /fulfilment/orders/{orderId}/shipments:
+ *   post:
+ *     tags: [Fulfilment]
+ *     summary: Ship some, or all, of the products remaining in a packed order
+ *     description: Anything not shipped stays on the order as backordered.
+ *       The order is moved to partially shipped or shipped to match
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: items
+ *         required: true
+ *         description: The products and quantities being shipped
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               productId:
+ *                 type: number
+ *               quantity:
+ *                 type: number
+ *     responses:
+ *       201:
+ *          description: Shipment created
+ *       400:
+ *          description: Fields missing in request, the order does not exist
+ *            or more is being shipped than is remaining
+ *       401:
+ *          description: Account lacks required permissions
+ *       409:
+ *          description: The order has not been packed
+ *       500:
+ *          description: Internal server error
+ */
+fulfilmentRouter.post("/orders/:orderId/shipments", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.warehouse &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderId } = req.params;
+  const { items } = req.body;
+  if (Number.isNaN(Number(orderId)) || !isArrayOfProductQuantities(items)) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
+  }
+
+  createShipmentForOrder(Number(orderId), items as TShipmentItem[], req.user)
+    .then((response) => {
+      switch (response) {
+        case ECreateShipmentResponse.OK:
+          sendOrderStatusChangeToCustomerClients(Number(orderId));
+          return res
+            .status(EResponseStatusCodes.CREATED_CODE)
+            .send(ETextResponse.SHIPMENT_CREATED);
+        case ECreateShipmentResponse.ORDER_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.ORDER_ID_NOT_EXIST);
+        case ECreateShipmentResponse.ITEMS_INVALID:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.SHIPMENT_ITEMS_INVALID);
+        case ECreateShipmentResponse.TRANSITION_NOT_ALLOWED:
+          return res
+            .status(EResponseStatusCodes.CONFLICT_CODE)
+            .send(ETextResponse.SHIPMENT_ORDER_NOT_PACKED);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      return res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /fulfilment/carriers:
+ *   get:
+ *     tags: [Fulfilment]
+ *     summary: Get the carriers that shipments can be sent with
+ *     responses:
+ *       200:
+ *         description: A list of carriers
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: string
+ *                description: The id of the carrier
+ *              name:
+ *                type: string
+ *                description: The name of the carrier
+ *       401:
+ *          description: Account lacks required permissions
+ */
+fulfilmentRouter.get("/carriers", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.warehouse &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  res.json(
+    getAllCarriers().map((carrier) => ({ id: carrier.id, name: carrier.name }))
+  );
+});
+
+/**
+ * @swagger
+ * /fulfilment/shipments/{shipmentId}/tracking:
+ *   put:
+ *     tags: [Fulfilment]
+ *     summary: Record the carrier and tracking number for a shipment
+ *     parameters:
+ *       - in: params
+ *         name: shipmentId
+ *         required: true
+ *         description: The id of the shipment
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: carrier
+ *         required: true
+ *         description: The id of the carrier delivering the shipment
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: trackingNumber
+ *         required: true
+ *         description: The carrier's tracking number
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *          description: Shipment tracking updated
+ *       400:
+ *          description: Fields missing in request, the carrier is not
+ *            supported or the shipment does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+fulfilmentRouter.put(
+  "/shipments/:shipmentId/tracking",
+  verifyToken,
+  (req, res) => {
+    if (
+      !req.user ||
+      (req.user.accountType !== EAccountTypes.warehouse &&
+        req.user.accountType !== EAccountTypes.admin)
+    ) {
+      return res
+        .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+        .send(ETextResponse.UNAUTHORIZED_REQUEST);
+    }
+    const { shipmentId } = req.params;
+    const { carrier, trackingNumber } = req.body;
+    if (
+      Number.isNaN(Number(shipmentId)) ||
+      typeof carrier !== "string" ||
+      typeof trackingNumber !== "string" ||
+      trackingNumber.trim().length === 0
+    ) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
+    }
+    if (getCarrier(carrier) === undefined) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.CARRIER_NOT_SUPPORTED);
+    }
+
+    setShipmentTracking(Number(shipmentId), carrier, trackingNumber.trim())
+      .then((updated) => {
+        if (updated) {
+          res.send(ETextResponse.SHIPMENT_TRACKING_UPDATED);
+        } else {
+          res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.SHIPMENT_ID_NOT_EXIST);
+        }
+      })
+      .catch((_) => {
+        res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+      });
+  }
+);
+
+/**
+ * @swagger
+ * /fulfilment/shipments/{shipmentId}/events:
+ *   post:
+ *     tags: [Fulfilment]
+ *     summary: Add a tracking event to a shipment by hand
+ *     parameters:
+ *       - in: params
+ *         name: shipmentId
+ *         required: true
+ *         description: The id of the shipment
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: occurredOn
+ *         required: true
+ *         description: The time the event happened
+ *         schema:
+ *           type: date
+ *       - in: body
+ *         name: location
+ *         required: true
+ *         description: Where the shipment was when the event happened
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: description
+ *         required: true
+ *         description: A description of the event
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *          description: Tracking event added
+ *       400:
+ *          description: Fields missing in request, or the shipment does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+fulfilmentRouter.post(
+  "/shipments/:shipmentId/events",
+  verifyToken,
+  (req, res) => {
+    if (
+      !req.user ||
+      (req.user.accountType !== EAccountTypes.warehouse &&
+        req.user.accountType !== EAccountTypes.admin)
+    ) {
+      return res
+        .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+        .send(ETextResponse.UNAUTHORIZED_REQUEST);
+    }
+    const { shipmentId } = req.params;
+    const { occurredOn, location, description } = req.body;
+    if (
+      Number.isNaN(Number(shipmentId)) ||
+      typeof occurredOn !== "string" ||
+      Number.isNaN(Date.parse(occurredOn)) ||
+      typeof location !== "string" ||
+      typeof description !== "string"
+    ) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
+    }
+
+    const event: TTrackingEvent = {
+      occurredOn: new Date(occurredOn),
+      location,
+      description,
+    };
+    addTrackingEventsToShipment(Number(shipmentId), [event])
+      .then((added) => {
+        if (added > 0) {
+          sendTrackingEventsToCustomerClients(Number(shipmentId), [event]);
+        }
+        res
+          .status(EResponseStatusCodes.CREATED_CODE)
+          .send(ETextResponse.TRACKING_EVENT_ADDED);
+      })
+      .catch((err) => {
+        if (err.code === FOREIGN_KEY_VIOLATION) {
+          res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.SHIPMENT_ID_NOT_EXIST);
+        } else {
+          res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+        }
+      });
+  }
+);
+
+/**
+ * @swagger
+ * /fulfilment/shipments/{shipmentId}/events/sync:
+ *   post:
+ *     tags: [Fulfilment]
+ *     summary: Fetch the latest tracking events for a shipment from its carrier
+ *     parameters:
+ *       - in: params
+ *         name: shipmentId
+ *         required: true
+ *         description: The id of the shipment
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: The number of new tracking events added
+ *         schema:
+ *           type: object
+ *           properties:
+ *             added:
+ *               type: number
+ *               description: The number of new tracking events added
+ *       400:
+ *          description: The shipment does not exist or has no tracking recorded
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error, or the carrier could not be reached
+ */
+fulfilmentRouter.post(
+  "/shipments/:shipmentId/events/sync",
+  verifyToken,
+  async (req, res) => {
+    if (
+      !req.user ||
+      (req.user.accountType !== EAccountTypes.warehouse &&
+        req.user.accountType !== EAccountTypes.admin)
+    ) {
+      return res
+        .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+        .send(ETextResponse.UNAUTHORIZED_REQUEST);
+    }
+    const { shipmentId } = req.params;
+    if (Number.isNaN(Number(shipmentId))) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.ID_INVALID_IN_REQ);
+    }
+
+    try {
+      const shipmentCarrier = await getShipmentCarrier(Number(shipmentId));
+      const carrier =
+        shipmentCarrier !== null
+          ? getCarrier(shipmentCarrier.carrier)
+          : undefined;
+      if (shipmentCarrier === null || carrier === undefined) {
+        return res
+          .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+          .send(ETextResponse.SHIPMENT_TRACKING_NOT_SET);
+      }
+      const events = await carrier.getTrackingEvents(
+        shipmentCarrier.trackingNumber
+      );
+      const added = await addTrackingEventsToShipment(
+        Number(shipmentId),
+        events
+      );
+      if (added > 0) {
+        sendTrackingEventsToCustomerClients(Number(shipmentId), events);
+      }
+      res.json({ added: added });
+    } catch (err) {
+      console.error(err);
+      res
+        .status(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE)
+        .send(ETextResponse.INTERNAL_ERROR);
+    }
+  }
+);
+
+export default fulfilmentRouter;
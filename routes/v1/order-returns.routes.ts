@@ -0,0 +1,324 @@
+import { Router } from "express";
+import { EAccountTypes, verifyToken } from "../../security/security";
+import {
+  EResponseStatusCodes,
+  ETextResponse,
+} from "../../common/response-types";
+import {
+  EReturnRequestResponse,
+  EReturnStatusUpdateResponse,
+  getReturnDetails,
+  getReturnsWithStatus,
+  requestReturnForOrder,
+  TReturnItem,
+  updateReturnStatus,
+} from "../../models/order-returns.models";
+import { EReturnStatus } from "../../common/return-status";
+import { isArrayOfProductQuantities } from "../../common/validation";
+import { sendOrderRefundToCustomerClients } from "./orders.routes";
+
+export const orderReturnsRouter = Router();
+
+/**
+ * @swagger
+ * /orders/returns:
+ *   post:
+ *     tags: [Order returns]
+ *     summary: Request a return for items from a delivered order
+ *     parameters:
+ *       - in: body
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order the items are from
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: reason
+ *         required: true
+ *         description: The reason for the return
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: items
+ *         required: true
+ *         description: The products and quantities to return
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               productId:
+ *                 type: number
+ *               quantity:
+ *                 type: number
+ *     responses:
+ *       201:
+ *          description: Return requested
+ *       400:
+ *          description: Fields missing in request, the order does not exist or
+ *            the items are not in the order
+ *       401:
+ *          description: Account lacks required permissions
+ *       409:
+ *          description: The order has not been delivered
+ *       500:
+ *          description: Internal server error
+ */
+orderReturnsRouter.post("/", verifyToken, (req, res) => {
+  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderId, reason, items } = req.body;
+  if (
+    typeof orderId !== "number" ||
+    typeof reason !== "string" ||
+    reason.trim().length === 0 ||
+    !isArrayOfProductQuantities(items)
+  ) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
+  }
+
+  requestReturnForOrder(
+    req.user.accountTypeId,
+    req.user.user_id,
+    orderId,
+    reason.trim(),
+    items as TReturnItem[]
+  )
+    .then((response) => {
+      switch (response) {
+        case EReturnRequestResponse.OK:
+          return res
+            .status(EResponseStatusCodes.CREATED_CODE)
+            .send(ETextResponse.RETURN_REQUESTED);
+        case EReturnRequestResponse.ORDER_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.ORDER_ID_NOT_EXIST);
+        case EReturnRequestResponse.ORDER_NOT_DELIVERED:
+          return res
+            .status(EResponseStatusCodes.CONFLICT_CODE)
+            .send(ETextResponse.RETURN_ORDER_NOT_DELIVERED);
+        case EReturnRequestResponse.ITEMS_INVALID:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.RETURN_ITEMS_INVALID);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      return res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/returns:
+ *   get:
+ *     tags: [Order returns]
+ *     summary: Get all returns in a status, for staff to work through
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: true
+ *         description: The status of the returns to get
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A list of returns, oldest first
+ *       400:
+ *          description: Status missing or invalid
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderReturnsRouter.get("/", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.support &&
+      req.user.accountType !== EAccountTypes.warehouse &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { status } = req.query;
+  if (
+    typeof status !== "string" ||
+    !Object.values(EReturnStatus).includes(status as EReturnStatus)
+  ) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.RETURN_STATUS_INVALID);
+  }
+
+  getReturnsWithStatus(status as EReturnStatus)
+    .then((returns) => {
+      res.json(returns);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/returns/{returnId}:
+ *   get:
+ *     tags: [Order returns]
+ *     summary: Get a return, with its items and status history
+ *     parameters:
+ *       - in: params
+ *         name: returnId
+ *         required: true
+ *         description: The id of the return
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: The return, or null if it does not exist
+ *       400:
+ *          description: Fields missing in request
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderReturnsRouter.get("/:returnId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.customer &&
+      req.user.accountType !== EAccountTypes.support &&
+      req.user.accountType !== EAccountTypes.warehouse &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { returnId } = req.params;
+  if (Number.isNaN(Number(returnId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+  // Customers can only see returns for their own orders
+  const customerId =
+    req.user.accountType === EAccountTypes.customer
+      ? req.user.accountTypeId
+      : undefined;
+
+  getReturnDetails(Number(returnId), customerId)
+    .then((orderReturn) => {
+      res.json({ return: orderReturn });
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/returns/{returnId}/status:
+ *   put:
+ *     tags: [Order returns]
+ *     summary: Move a return to a new status
+ *     description: Support approve, reject and refund returns. Warehouse mark
+ *       approved returns as received, which puts the items back into stock
+ *     parameters:
+ *       - in: params
+ *         name: returnId
+ *         required: true
+ *         description: The id of the return
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: status
+ *         required: true
+ *         description: The status to move the return to
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *          description: Return status updated
+ *       400:
+ *          description: Fields missing in request, or the return does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       409:
+ *          description: The return cannot be moved from its current status to the new status
+ *       500:
+ *          description: Internal server error
+ */
+orderReturnsRouter.put("/:returnId/status", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.support &&
+      req.user.accountType !== EAccountTypes.warehouse &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { returnId } = req.params;
+  const { status } = req.body;
+  if (
+    Number.isNaN(Number(returnId)) ||
+    typeof status !== "string" ||
+    !Object.values(EReturnStatus).includes(status as EReturnStatus)
+  ) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
+  }
+
+  updateReturnStatus(
+    Number(returnId),
+    status as EReturnStatus,
+    req.user.accountType,
+    req.user.user_id
+  )
+    .then((response) => {
+      switch (response) {
+        case EReturnStatusUpdateResponse.OK:
+          if (status === EReturnStatus.refunded) {
+            getReturnDetails(Number(returnId))
+              .then((details) => {
+                if (details !== null) {
+                  sendOrderRefundToCustomerClients(details.orderId);
+                }
+              })
+              .catch((_) => {});
+          }
+          return res.send(ETextResponse.RETURN_STATUS_UPDATED);
+        case EReturnStatusUpdateResponse.RETURN_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.RETURN_ID_NOT_EXIST);
+        case EReturnStatusUpdateResponse.TRANSITION_NOT_ALLOWED:
+          return res
+            .status(EResponseStatusCodes.CONFLICT_CODE)
+            .send(ETextResponse.RETURN_STATUS_CHANGE_NOT_ALLOWED);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      return res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+export default orderReturnsRouter;
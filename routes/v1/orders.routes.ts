@@ -1,28 +1,242 @@
-import { Router } from "express";
+import { Response, Router } from "express";
+import { createHash } from "crypto";
 import { EAccountTypes, verifyToken } from "../../security/security";
 import {
   EResponseStatusCodes,
   ETextResponse,
 } from "../../common/response-types";
 import {
+  cancelOrder,
+  ECheckoutQuoteResponse,
   EOrderPlaceStatus,
+  EOrderStatusUpdateResponse,
+  getCheckoutAttempt,
+  getCheckoutQuote,
+  getCustomerIdForOrder,
   getDiscountsUsedForOrder,
+  getPromotionsUsedForOrder,
   getLastPurchaseDateForProduct,
   getOrderDetails,
   getOrdersForCustomer,
+  getOrderStatusHistory,
   getPossibleOrderStatuses,
   getProductsInOrder,
   placeOrder,
+  TOrderEntry,
+  updateOrderStatus,
 } from "../../models/orders.models";
-import { sendBasketContentsToAllCustomerClients } from "./basket.routes";
-import { isArrayOfStrings } from "../../common/validation";
+import { sendBasketChangesToAllCustomerClients } from "../../common/basket-updates";
+import { reorderIntoBasket } from "../../models/basket.models";
 import {
+  EReserveStockResponse,
+  releaseBasketStock,
+  reserveBasketStock,
+} from "../../models/stock-reservations.models";
+import {
+  isArrayOfStrings,
+  isUndefinedOrNumericString,
+  isUndefinedOrString,
+  isUndefinedOrValidDate,
+} from "../../common/validation";
+import {
+  EOrderStatus,
+  getOrderStatusTransitionsForAccountType,
+} from "../../common/order-status";
+import { getReturnsForOrder } from "../../models/order-returns.models";
+import { getShipmentsForOrder } from "../../models/fulfilment.models";
+import { getTrackingForOrder } from "../../models/shipment-tracking.models";
+import { getCarrier } from "../../carriers/carriers";
+import {
+  getCreditNotesForOrder,
+  getOrIssueInvoiceForOrder,
+} from "../../models/invoices.models";
+import { getShippingAddress } from "../../models/auth/address-book.model";
+import {
+  writeCreditNotePdf,
+  writeInvoicePdf,
+} from "../../common/order-documents";
+import {
+  EDiscountRejectionReason,
   TDiscountCodeValidation,
   validateDiscountCode,
 } from "../../models/discount.models";
+import {
+  decodeOrderSearchCursor,
+  EOrderSearchSort,
+  searchOrders,
+  TOrderSearchCursor,
+  TOrderSearchFilters,
+} from "../../models/order-search.models";
+import { orderWebSockets, staffOrderWebSockets } from "../../data/websockets";
+import WebSocket from "ws";
 
 export const orderRouter = Router();
 
+// Create an express-ws instance for the router
+require("express-ws")(orderRouter);
+
+// The events customers are sent about their orders
+export enum EOrderEvent {
+  placed = "placed",
+  statusChange = "statusChange",
+  trackingEvent = "trackingEvent",
+  refunded = "refunded",
+}
+
+/**
+ * Send an order event to all connected clients of the customer who placed the
+ * order. Sending is best effort, so errors are logged rather than rejected
+ * @param orderId The id of the order the event is for
+ * @param event The event that happened to the order
+ * @param details Extra fields to send with the event
+ * @returns The order details that were sent, or null if no message was sent
+ */
+export const sendOrderEventToCustomerClients = (
+  orderId: number,
+  event: EOrderEvent,
+  details: object = {}
+): Promise<TOrderEntry | null> => {
+  return new Promise(async (resolve) => {
+    try {
+      const customerId = await getCustomerIdForOrder(orderId);
+      const allCustomerSockets =
+        customerId !== null ? orderWebSockets.get(customerId) : undefined;
+      if (customerId === null || allCustomerSockets === undefined) {
+        return resolve(null);
+      }
+      // Send the latest order details so clients do not need to refetch them
+      const order = await getOrderDetails(customerId, orderId);
+      allCustomerSockets.forEach((ws) => {
+        ws.send(
+          JSON.stringify({ type: "orderUpdate", event, order, ...details })
+        );
+      });
+      resolve(order);
+    } catch (err) {
+      console.error(err);
+      resolve(null);
+    }
+  });
+};
+
+/**
+ * Send an order's new status to all connected clients of the customer who
+ * placed the order. Cancelled orders are refunded, so the refund is sent too
+ * @param orderId The id of the order that changed status
+ */
+export const sendOrderStatusChangeToCustomerClients = async (
+  orderId: number
+) => {
+  const order = await sendOrderEventToCustomerClients(
+    orderId,
+    EOrderEvent.statusChange
+  );
+  if (order !== null && order.status === EOrderStatus.cancelled) {
+    await sendOrderRefundToCustomerClients(orderId);
+  }
+};
+
+/**
+ * Send the latest credit note issued for an order to all connected clients of
+ * the customer who placed the order
+ * @param orderId The id of the order that was refunded
+ * @returns True if the message is sent, false otherwise
+ */
+export const sendOrderRefundToCustomerClients = (
+  orderId: number
+): Promise<boolean> => {
+  return new Promise(async (resolve) => {
+    try {
+      const creditNotes = await getCreditNotesForOrder(orderId);
+      const order = await sendOrderEventToCustomerClients(
+        orderId,
+        EOrderEvent.refunded,
+        { creditNote: creditNotes[creditNotes.length - 1] ?? null }
+      );
+      resolve(order !== null);
+    } catch (err) {
+      console.error(err);
+      resolve(false);
+    }
+  });
+};
+
+/**
+ * Send a newly placed order to all connected staff clients
+ * @param customerId The id of the customer who placed the order
+ * @param orderId The id of the order that was placed
+ * @returns True if the message is sent, false otherwise
+ */
+const sendPlacedOrderToStaffClients = (
+  customerId: number,
+  orderId: number
+): Promise<boolean> => {
+  return new Promise(async (resolve) => {
+    if (staffOrderWebSockets.size <= 0) {
+      return resolve(false);
+    }
+    try {
+      const order = await getOrderDetails(customerId, orderId);
+      staffOrderWebSockets.forEach((ws) => {
+        ws.send(JSON.stringify({ type: "orderPlaced", customerId, order }));
+      });
+      resolve(true);
+    } catch (err) {
+      console.error(err);
+      resolve(false);
+    }
+  });
+};
+
+/**
+ * @swagger
+ * /orders/updates:
+ *   ws:
+ *     tags: [Orders]
+ *     summary: Open a websocket connection for updates to a customer's orders
+ */
+orderRouter.ws("/updates", (ws, req) => {
+  const sessionId: string | undefined = req.sessionId;
+  if (
+    req.user &&
+    req.user.accountType === EAccountTypes.customer &&
+    typeof sessionId === "string"
+  ) {
+    const customerId: number = req.user.accountTypeId;
+    if (!orderWebSockets.has(customerId)) {
+      orderWebSockets.set(customerId, new Map<string, WebSocket>());
+    }
+    orderWebSockets.get(customerId)!.set(sessionId, ws);
+    ws.on("close", () => {
+      orderWebSockets.get(customerId)!.delete(sessionId);
+      if (orderWebSockets.get(customerId)!.size <= 0) {
+        orderWebSockets.delete(customerId);
+      }
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /orders/staff/updates:
+ *   ws:
+ *     tags: [Orders]
+ *     summary: Open a websocket connection for a staff feed of newly placed orders
+ */
+orderRouter.ws("/staff/updates", (ws, req) => {
+  const sessionId: string | undefined = req.sessionId;
+  if (
+    req.user &&
+    req.user.accountType !== EAccountTypes.customer &&
+    typeof sessionId === "string"
+  ) {
+    staffOrderWebSockets.set(sessionId, ws);
+    ws.on("close", () => {
+      staffOrderWebSockets.delete(sessionId);
+    });
+  }
+});
+
 /**
  * @swagger
  * /orders/last-purchase/{id}:
@@ -79,6 +293,125 @@ orderRouter.get("/last-purchase/:id", verifyToken, async (req, res) => {
   }
 });
 
+type TRejectedDiscountCode = {
+  code: string;
+  reason: EDiscountRejectionReason;
+};
+
+/**
+ * Validate the discount codes sent for a checkout
+ * @param customerId The id of the customer checking out
+ * @param discountCodes The discount codes sent by the customer
+ * @returns The validated codes, and the codes that can't be used with the
+ * reason for each. Codes that are not allowed to stack are rejected when
+ * more than one code is sent
+ */
+const validateCheckoutDiscountCodes = async (
+  customerId: number,
+  discountCodes: string[]
+): Promise<{
+  validatedCodes: TDiscountCodeValidation[];
+  rejectedCodes: TRejectedDiscountCode[];
+}> => {
+  // Remove duplicates to prevent users from stacking the same discount multiple times
+  const uniqueDiscountCodes: string[] = [...new Set(discountCodes)];
+
+  // Validate discount codes
+  const validations = await Promise.all(
+    uniqueDiscountCodes.map(async (code) => {
+      try {
+        return await validateDiscountCode(code, customerId);
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  const validatedCodes: TDiscountCodeValidation[] = [];
+  const rejectedCodes: TRejectedDiscountCode[] = [];
+  validations.forEach((validation, index) => {
+    if (validation === null) {
+      rejectedCodes.push({
+        code: uniqueDiscountCodes[index],
+        reason: EDiscountRejectionReason.notFound,
+      });
+    } else if (validation.rejectionReason !== null) {
+      rejectedCodes.push({
+        code: validation.code,
+        reason: validation.rejectionReason,
+      });
+    } else if (uniqueDiscountCodes.length > 1 && !validation.stackable) {
+      // Check that all codes in the list are allowed to stack
+      rejectedCodes.push({
+        code: validation.code,
+        reason: EDiscountRejectionReason.notStackable,
+      });
+    } else {
+      validatedCodes.push(validation);
+    }
+  });
+  return { validatedCodes, rejectedCodes };
+};
+
+/**
+ * Send the response for the result of placing an order
+ * @param res The response to send
+ * @param status The result of placing the order
+ * @param replayed True if the result is from an earlier checkout with the same idempotency key
+ */
+const sendPlaceOrderResponse = (
+  res: Response,
+  status: EOrderPlaceStatus,
+  replayed: boolean
+) => {
+  if (replayed && status !== EOrderPlaceStatus.IDEMPOTENCY_KEY_REUSED) {
+    res.set("Idempotent-Replayed", "true");
+  }
+  switch (status) {
+    case EOrderPlaceStatus.OK:
+      return res.send(ETextResponse.ORDER_CONFIRMED);
+    case EOrderPlaceStatus.BASKET_INVALID:
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.BASKET_INVALID_FOR_ORDER);
+    case EOrderPlaceStatus.SHIPPING_ADDRESS_INVALID:
+      return res
+        .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+        .send(ETextResponse.ADDRESS_ID_NOT_EXIST);
+    case EOrderPlaceStatus.IDEMPOTENCY_KEY_REUSED:
+      return res
+        .status(EResponseStatusCodes.CONFLICT_CODE)
+        .send(ETextResponse.IDEMPOTENCY_KEY_REUSED);
+    case EOrderPlaceStatus.PAYMENT_DECLINED:
+      return res
+        .status(EResponseStatusCodes.PAYMENT_REQUIRED_CODE)
+        .send(ETextResponse.PAYMENT_DECLINED);
+    case EOrderPlaceStatus.PAYMENT_FAILED:
+      return res
+        .status(EResponseStatusCodes.BAD_GATEWAY_CODE)
+        .send(ETextResponse.PAYMENT_FAILED);
+    case EOrderPlaceStatus.SHIPPING_METHOD_INVALID:
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.SHIPPING_METHOD_INVALID);
+    case EOrderPlaceStatus.DISCOUNT_MINIMUM_SPEND_NOT_MET:
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.DISCOUNT_MINIMUM_SPEND_NOT_MET);
+    case EOrderPlaceStatus.DISCOUNT_CODE_REJECTED:
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.DISCOUNT_CODE_REJECTED);
+    case EOrderPlaceStatus.PAYMENT_PENDING:
+      return res
+        .status(EResponseStatusCodes.CONFLICT_CODE)
+        .send(ETextResponse.CHECKOUT_IN_PROGRESS);
+    default:
+      console.log(`Unhandled status: ${status}`);
+      return res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+  }
+};
+
 /**
  * @swagger
  * /orders/checkout:
@@ -86,6 +419,13 @@ orderRouter.get("/last-purchase/:id", verifyToken, async (req, res) => {
  *     tags: [Orders]
  *     summary: Place an order, using the products found in the customer's basket
  *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         description: A unique key for the checkout. Retrying with the same key
+ *           returns the result of the first attempt instead of placing another order
+ *         schema:
+ *           type: string
  *       - in: body
  *         name: shippingId
  *         required: true
@@ -93,6 +433,12 @@ orderRouter.get("/last-purchase/:id", verifyToken, async (req, res) => {
  *         schema:
  *           type: number
  *       - in: body
+ *         name: shippingMethodId
+ *         required: true
+ *         description: The id of the shipping method to deliver the order with, must be available for the shipping address
+ *         schema:
+ *           type: number
+ *       - in: body
  *         name: discountCodes
  *         required: true
  *         description: A list of discount codes to apply to the order
@@ -100,13 +446,27 @@ orderRouter.get("/last-purchase/:id", verifyToken, async (req, res) => {
  *           type: Array
  *           items:
  *             type: string
+ *       - in: body
+ *         name: paymentToken
+ *         required: false
+ *         description: The payment provider's token for the customer's payment method
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Order confirmed
  *       400:
- *          description: Fields missing in request, or basket contained products no longer available
+ *          description: Fields missing in request, basket contained products no longer available,
+ *            the shipping method is not available for the address, or a discount code can't be used
  *       401:
  *          description: Account lacks required permissions, or shipping address used is not customer's
+ *       402:
+ *          description: The payment was declined, no order was placed
+ *       409:
+ *          description: The idempotency key was already used for a different checkout, or the
+ *            checkout made with it is still taking payment
+ *       502:
+ *          description: The payment provider could not be reached, no order was placed
  *       500:
  *          description: Internal server error
  */
@@ -116,72 +476,101 @@ orderRouter.post("/checkout", verifyToken, async (req, res) => {
       .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
       .send(ETextResponse.UNAUTHORIZED_REQUEST);
   }
-  const { shippingId, discountCodes: discountCodesInput } = req.body;
+  const {
+    shippingId,
+    shippingMethodId,
+    discountCodes: discountCodesInput,
+    paymentToken,
+  } = req.body;
 
   // Validate the type that was supplied for discount codes
-  if (typeof shippingId !== "number" || !isArrayOfStrings(discountCodesInput)) {
+  if (
+    typeof shippingId !== "number" ||
+    typeof shippingMethodId !== "number" ||
+    !isArrayOfStrings(discountCodesInput) ||
+    (paymentToken !== undefined && typeof paymentToken !== "string")
+  ) {
     return res
       .status(EResponseStatusCodes.BAD_REQUEST_CODE)
       .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
   }
   const discountCodes: string[] = discountCodesInput;
+  const customerId = req.user.accountTypeId;
 
-  // Remove duplicates to prevent users from stacking the same discount multiple times
-  const uniqueDiscountCodes: string[] = [...new Set(discountCodes)];
-
-  // Validate discount codes
-  const validatedDiscountCodesWithNull = await Promise.all(
-    uniqueDiscountCodes.map(async (code) => {
-      try {
-        return await validateDiscountCode(code);
-      } catch {
-        return null;
-      }
-    })
-  );
-
-  // Remove null codes
-  const validatedDiscountCodes = validatedDiscountCodesWithNull.filter(
-    (validation) => validation !== null
-  ) as TDiscountCodeValidation[];
-
-  // Check that all codes in the list are allowed to stack
-  const discountListValid =
-    validatedDiscountCodes.length > 1
-      ? validatedDiscountCodes.every((code) => code.stackable === true)
-      : true;
-
+  const idempotencyKey = req.get("Idempotency-Key");
   if (
-    validatedDiscountCodes.length !== discountCodes.length ||
-    !discountListValid
+    idempotencyKey !== undefined &&
+    (idempotencyKey.length <= 0 || idempotencyKey.length > 255)
   ) {
     return res
       .status(EResponseStatusCodes.BAD_REQUEST_CODE)
-      .send(ETextResponse.DISCOUNT_CODE_NOT_EXIST);
+      .send(ETextResponse.IDEMPOTENCY_KEY_INVALID);
+  }
+  // The payment token is part of the request, but only its hash is stored
+  const requestHash = createHash("sha256")
+    .update(
+      JSON.stringify([
+        shippingId,
+        shippingMethodId,
+        [...discountCodes].sort(),
+        paymentToken ?? null,
+      ])
+    )
+    .digest("hex");
+
+  // A retried checkout gets the result of the first attempt. This is checked
+  // before the discount codes, since the first attempt may have used them up
+  if (idempotencyKey !== undefined) {
+    try {
+      const previousAttempt = await getCheckoutAttempt(
+        customerId,
+        idempotencyKey
+      );
+      if (previousAttempt !== null) {
+        return sendPlaceOrderResponse(
+          res,
+          previousAttempt.requestHash === requestHash
+            ? previousAttempt.status
+            : EOrderPlaceStatus.IDEMPOTENCY_KEY_REUSED,
+          true
+        );
+      }
+    } catch (_) {
+      return res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    }
+  }
+
+  const { validatedCodes: validatedDiscountCodes, rejectedCodes } =
+    await validateCheckoutDiscountCodes(customerId, discountCodes);
+  if (rejectedCodes.length > 0) {
+    return res.status(EResponseStatusCodes.BAD_REQUEST_CODE).json({
+      message: ETextResponse.DISCOUNT_CODE_REJECTED,
+      rejectedCodes: rejectedCodes,
+    });
   }
 
   // Now discount codes have been validated, they can be used with place order
-  const customerId = req.user.accountTypeId;
-  placeOrder(customerId, shippingId, validatedDiscountCodes)
-    .then((status) => {
-      sendBasketContentsToAllCustomerClients(customerId);
-      switch (status) {
-        case EOrderPlaceStatus.OK:
-          return res.send(ETextResponse.ORDER_CONFIRMED);
-        case EOrderPlaceStatus.BASKET_INVALID:
-          return res
-            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
-            .send(ETextResponse.BASKET_INVALID_FOR_ORDER);
-        case EOrderPlaceStatus.SHIPPING_ADDRESS_INVALID:
-          return res
-            .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
-            .send(ETextResponse.ADDRESS_ID_NOT_EXIST);
-        default:
-          console.log(`Unhandled status: ${status}`);
-          return res.sendStatus(
-            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
-          );
+  placeOrder(
+    customerId,
+    shippingId,
+    shippingMethodId,
+    validatedDiscountCodes,
+    idempotencyKey !== undefined
+      ? { idempotencyKey: idempotencyKey, requestHash: requestHash }
+      : undefined,
+    paymentToken
+  )
+    .then(({ status, orderId, replayed }) => {
+      if (!replayed) {
+        sendBasketChangesToAllCustomerClients(customerId).catch((err) => {
+          console.error(err);
+        });
+        if (status === EOrderPlaceStatus.OK) {
+          sendOrderEventToCustomerClients(orderId!, EOrderEvent.placed);
+          sendPlacedOrderToStaffClients(customerId, orderId!);
+        }
       }
+      return sendPlaceOrderResponse(res, status, replayed);
     })
     .catch((err) => {
       console.error(err);
@@ -191,33 +580,60 @@ orderRouter.post("/checkout", verifyToken, async (req, res) => {
 
 /**
  * @swagger
- * /orders/status:
- *   get:
+ * /orders/checkout/reservation:
+ *   post:
  *     tags: [Orders]
- *     summary: Get all possible order statuses for an order
+ *     summary: Hold the stock for the customer's basket while they check out
+ *     description: Replaces any stock the customer is already holding. The
+ *       hold is released automatically when it expires, or when the order is placed
  *     responses:
  *       200:
- *         description: A list of all statuses an order can be
+ *         description: The stock held
  *         schema:
- *           type: array
- *           items:
- *             type: object
- *             properties:
- *              id:
- *                type: number
- *                description: The id of the status
- *              status:
- *                type: string
- *                description: The name of the status
+ *           type: object
+ *           properties:
+ *            expiresOn:
+ *              type: date
+ *              description: The time the stock stops being held
+ *            products:
+ *             type: array
+ *             items:
+ *               type: object
+ *               properties:
+ *                productId:
+ *                  type: number
+ *                quantity:
+ *                  type: number
+ *       400:
+ *          description: Basket is empty or contains products no longer available,
+ *            with the products that could not be held
  *       401:
  *          description: Account lacks required permissions
  *       500:
  *          description: Internal server error
  */
-orderRouter.get("/status", (req, res) => {
-  getPossibleOrderStatuses()
-    .then((allStatuses) => {
-      res.json(allStatuses);
+orderRouter.post("/checkout/reservation", verifyToken, (req, res) => {
+  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+
+  reserveBasketStock(req.user.accountTypeId)
+    .then(({ response, expiresOn, products }) => {
+      switch (response) {
+        case EReserveStockResponse.OK:
+          return res.json({ expiresOn: expiresOn, products: products });
+        case EReserveStockResponse.BASKET_INVALID:
+          return res.status(EResponseStatusCodes.BAD_REQUEST_CODE).json({
+            message: ETextResponse.BASKET_INVALID_FOR_ORDER,
+            products: products,
+          });
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
     })
     .catch((_) => {
       res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
@@ -226,116 +642,682 @@ orderRouter.get("/status", (req, res) => {
 
 /**
  * @swagger
- * /orders/:
- *   get:
+ * /orders/checkout/reservation:
+ *   delete:
  *     tags: [Orders]
- *     summary: Get all possible orders that a customer has placed
+ *     summary: Release the stock held for the customer's checkout
  *     responses:
  *       200:
- *         description: A list of all orders a customer has placed
- *         schema:
- *           type: array
- *           items:
- *             type: object
- *             properties:
- *              id:
- *                type: number
- *                description: The id of the order
- *              status:
- *                type: string
- *                description: The name of the status
- *              product_count:
- *                type: number
- *                description: The number of products in the order
- *              total:
- *                type: number
- *                description: The total price of the order
- *              placed_on:
- *                type: date
- *                description: The time and date the order was placed
+ *          description: Stock released
+ *       400:
+ *          description: No stock is held for the customer
  *       401:
  *          description: Account lacks required permissions
  *       500:
  *          description: Internal server error
  */
-orderRouter.get("/", verifyToken, (req, res) => {
+orderRouter.delete("/checkout/reservation", verifyToken, (req, res) => {
   if (!req.user || req.user.accountType !== EAccountTypes.customer) {
     return res
       .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
       .send(ETextResponse.UNAUTHORIZED_REQUEST);
   }
-  const customerId = req.user.accountTypeId;
 
-  getOrdersForCustomer(customerId)
-    .then((orders) => {
-      res.json(orders);
+  releaseBasketStock(req.user.accountTypeId)
+    .then((released) => {
+      if (released) {
+        res.send(ETextResponse.STOCK_RESERVATION_RELEASED);
+      } else {
+        res
+          .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+          .send(ETextResponse.STOCK_RESERVATION_NOT_EXIST);
+      }
     })
-    .catch((_) => {
+    .catch((err) => {
+      console.error(err);
       res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
     });
 });
 
 /**
  * @swagger
- * /orders/{orderId}:
- *   get:
+ * /orders/checkout/quote:
+ *   post:
  *     tags: [Orders]
- *     summary: Get all possible orders that a customer has placed
+ *     summary: Preview what placing an order would cost, without placing it
  *     parameters:
- *       - in: params
- *         name: orderId
+ *       - in: body
+ *         name: shippingId
  *         required: true
- *         description: The id of the order to get the information for
+ *         description: The id of the shipping address to use for the order
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: shippingMethodId
+ *         required: false
+ *         description: The id of the shipping method to deliver the order with. Shipping is left out of the quote if not given
  *         schema:
  *           type: number
+ *       - in: body
+ *         name: discountCodes
+ *         required: true
+ *         description: A list of discount codes to apply to the order
+ *         schema:
+ *           type: Array
+ *           items:
+ *             type: string
  *     responses:
  *       200:
- *         description: The order that was placed
+ *         description: The quote for the order
  *         schema:
  *           type: object
  *           properties:
- *            order:
- *             type: object
- *             properties:
- *              id:
- *                type: integer
- *                description: The id of the order
- *              status:
- *                type: string
- *                description: The name of the status
- *              product_count:
- *                type: number
- *                description: The number of products in the order
- *              total:
- *                type: number
- *                description: The total price of the order
- *              placed_on:
- *                type: date
- *                description: The time and date the order was placed
+ *            lines:
+ *             type: array
+ *             description: The basket lines that would be ordered
+ *             items:
+ *               type: object
+ *               properties:
+ *                productId:
+ *                  type: number
+ *                  description: The id of the product
+ *                name:
+ *                  type: string
+ *                  description: The name of the product
+ *                quantity:
+ *                  type: number
+ *                  description: The quantity of the product in the basket
+ *                pricePerItem:
+ *                  type: number
+ *                  description: The current price of a single item
+ *                lineTotal:
+ *                  type: number
+ *                  description: The price of the line
+ *                taxRate:
+ *                  type: number
+ *                  description: The tax rate for the line as a percentage
+ *                discount:
+ *                  type: number
+ *                  description: The amount the promotions and discount codes take off the line
+ *                tax:
+ *                  type: number
+ *                  description: The tax for the line, after discounts
+ *                weightKg:
+ *                  type: number
+ *                  description: The weight of a single item in kg
+ *            unavailableLines:
+ *             type: array
+ *             description: The basket lines that would stop the order being placed
+ *             items:
+ *               type: object
+ *               properties:
+ *                productId:
+ *                  type: number
+ *                  description: The id of the product
+ *                name:
+ *                  type: string
+ *                  description: The name of the product
+ *                quantity:
+ *                  type: number
+ *                  description: The quantity of the product in the basket
+ *                stockCount:
+ *                  type: number
+ *                  description: The amount of the product available, less what other customers are holding
+ *                available:
+ *                  type: boolean
+ *                  description: False if the product is no longer sold
+ *            subtotal:
+ *              type: number
+ *              description: The price of all the lines before promotions and discounts
+ *            promotions:
+ *             type: array
+ *             description: The promotions that apply to the order, before any discount codes
+ *             items:
+ *               type: object
+ *               properties:
+ *                promotionId:
+ *                  type: number
+ *                  description: The id of the promotion
+ *                name:
+ *                  type: string
+ *                  description: The name of the promotion
+ *                promotionType:
+ *                  type: string
+ *                  description: buyXGetY or bundle
+ *                timesApplied:
+ *                  type: number
+ *                  description: The number of groups or bundles the promotion was applied to
+ *                amount:
+ *                  type: number
+ *                  description: The amount the promotion takes off the order
+ *                products:
+ *                  type: array
+ *                  description: The productId and quantity of each product the promotion used
+ *            discounts:
+ *             type: array
+ *             items:
+ *               type: object
+ *               properties:
+ *                code:
+ *                  type: string
+ *                  description: The discount code
+ *                discountType:
+ *                  type: string
+ *                  description: percent or fixed
+ *                percent:
+ *                  type: number
+ *                  description: The percentage taken off the subtotal, 0 for fixed amount codes
+ *                amount:
+ *                  type: number
+ *                  description: The amount taken off the order
+ *            shippingMethodId:
+ *              type: number
+ *              description: The id of the shipping method the quote is for, null if none was given
+ *            shipping:
+ *              type: number
+ *              description: The cost of shipping the order, 0 if no shipping method was given
+ *            tax:
+ *              type: number
+ *              description: The tax for the order
+ *            pricesIncludeTax:
+ *              type: boolean
+ *              description: True if the line prices already include the tax
+ *            total:
+ *              type: number
+ *              description: The amount that would be paid for the order
  *       400:
- *          description: Fields missing in request
+ *          description: Fields missing in request, the shipping method is not available for the address,
+ *            or a discount code can't be used, with the reason for each code rejected
  *       401:
- *          description: Account lacks required permissions
+ *          description: Account lacks required permissions, or shipping address used is not customer's
  *       500:
  *          description: Internal server error
  */
-orderRouter.get("/:orderId", verifyToken, (req, res) => {
+orderRouter.post("/checkout/quote", verifyToken, async (req, res) => {
   if (!req.user || req.user.accountType !== EAccountTypes.customer) {
     return res
       .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
       .send(ETextResponse.UNAUTHORIZED_REQUEST);
   }
-  const customerId = req.user.accountTypeId;
-  const { orderId } = req.params;
-  if (Number.isNaN(Number(orderId))) {
+  const { shippingId, shippingMethodId, discountCodes } = req.body;
+  if (
+    typeof shippingId !== "number" ||
+    (shippingMethodId !== undefined && typeof shippingMethodId !== "number") ||
+    !isArrayOfStrings(discountCodes)
+  ) {
     return res
       .status(EResponseStatusCodes.BAD_REQUEST_CODE)
-      .send(ETextResponse.ID_INVALID_IN_REQ);
+      .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
+  }
+
+  const { validatedCodes: validatedDiscountCodes, rejectedCodes } =
+    await validateCheckoutDiscountCodes(req.user.accountTypeId, discountCodes);
+  if (rejectedCodes.length > 0) {
+    return res.status(EResponseStatusCodes.BAD_REQUEST_CODE).json({
+      message: ETextResponse.DISCOUNT_CODE_REJECTED,
+      rejectedCodes: rejectedCodes,
+    });
   }
 
-  getOrderDetails(customerId, Number(orderId))
-    .then((order) => {
-      res.json({ order: order });
+  getCheckoutQuote(
+    req.user.accountTypeId,
+    shippingId,
+    validatedDiscountCodes,
+    shippingMethodId ?? null
+  )
+    .then(({ response, quote }) => {
+      switch (response) {
+        case ECheckoutQuoteResponse.OK:
+          return res.json(quote);
+        case ECheckoutQuoteResponse.SHIPPING_ADDRESS_INVALID:
+          return res
+            .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+            .send(ETextResponse.ADDRESS_ID_NOT_EXIST);
+        case ECheckoutQuoteResponse.SHIPPING_METHOD_INVALID:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.SHIPPING_METHOD_INVALID);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/status:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get all possible order statuses for an order
+ *     responses:
+ *       200:
+ *         description: A list of all statuses an order can be
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the status
+ *              status:
+ *                type: string
+ *                description: The name of the status
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get("/status", (req, res) => {
+  getPossibleOrderStatuses()
+    .then((allStatuses) => {
+      res.json(allStatuses);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/status/transitions:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get the order status changes the account is allowed to make
+ *     responses:
+ *       200:
+ *         description: A list of allowed status changes
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              from:
+ *                type: string
+ *                description: The name of the status the order must be in
+ *              to:
+ *                type: string
+ *                description: The name of the status the order can be moved to
+ *       401:
+ *          description: Account lacks required permissions
+ */
+orderRouter.get("/status/transitions", verifyToken, (req, res) => {
+  if (!req.user) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  res.json(getOrderStatusTransitionsForAccountType(req.user.accountType));
+});
+
+/**
+ * @swagger
+ * /orders/search:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Search every order placed, for staff
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         description: Only orders currently in this status
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: placedFrom
+ *         description: Only orders placed on or after this date
+ *         schema:
+ *           type: date
+ *       - in: query
+ *         name: placedTo
+ *         description: Only orders placed on or before this date
+ *         schema:
+ *           type: date
+ *       - in: query
+ *         name: customerEmail
+ *         description: Only orders placed by the customer with this email
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: productId
+ *         description: Only orders containing this product
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: discountCode
+ *         description: Only orders that used this discount code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: minPricePaid
+ *         description: Only orders where at least this much was paid
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxPricePaid
+ *         description: Only orders where at most this much was paid
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: sort
+ *         description: The field to sort by, placedOn (default) or pricePaid
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: direction
+ *         description: asc or desc (default)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         description: The number of orders per page, 1 to 100 (default 25)
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: cursor
+ *         description: The nextCursor from the previous page, searched with the same sort and direction
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A page of orders matching the search
+ *         schema:
+ *           type: object
+ *           properties:
+ *            orders:
+ *             type: array
+ *             items:
+ *               type: object
+ *               properties:
+ *                id:
+ *                  type: number
+ *                  description: The id of the order
+ *                customerId:
+ *                  type: number
+ *                  description: The id of the customer who placed the order
+ *                customerEmail:
+ *                  type: string
+ *                  description: The email of the customer who placed the order
+ *                status:
+ *                  type: string
+ *                  description: The name of the status
+ *                productCount:
+ *                  type: number
+ *                  description: The number of products in the order
+ *                pricePaid:
+ *                  type: number
+ *                  description: The amount paid for the order
+ *                placedOn:
+ *                  type: date
+ *                  description: The time and date the order was placed
+ *            nextCursor:
+ *              type: string
+ *              description: The cursor for the next page, null on the last page
+ *       400:
+ *          description: Search filters invalid, or the cursor is invalid or was made for a different sort
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get("/search", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    ![EAccountTypes.sales, EAccountTypes.support, EAccountTypes.admin].includes(
+      req.user.accountType
+    )
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+
+  const {
+    status,
+    placedFrom,
+    placedTo,
+    customerEmail,
+    productId,
+    discountCode,
+    minPricePaid,
+    maxPricePaid,
+    sort = EOrderSearchSort.placedOn,
+    direction = "desc",
+    limit = "25",
+    cursor,
+  } = req.query;
+
+  const pageSize = Number(limit);
+  if (
+    !(
+      status === undefined ||
+      Object.values(EOrderStatus).includes(status as EOrderStatus)
+    ) ||
+    !isUndefinedOrValidDate(placedFrom) ||
+    !isUndefinedOrValidDate(placedTo) ||
+    !isUndefinedOrString(customerEmail) ||
+    !isUndefinedOrNumericString(productId) ||
+    !isUndefinedOrString(discountCode) ||
+    !isUndefinedOrNumericString(minPricePaid) ||
+    !isUndefinedOrNumericString(maxPricePaid) ||
+    !Object.values(EOrderSearchSort).includes(sort as EOrderSearchSort) ||
+    (direction !== "asc" && direction !== "desc") ||
+    !Number.isInteger(pageSize) ||
+    pageSize < 1 ||
+    pageSize > 100 ||
+    !isUndefinedOrString(cursor)
+  ) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ORDER_SEARCH_INVALID);
+  }
+
+  let startAfter: TOrderSearchCursor | undefined = undefined;
+  if (cursor !== undefined) {
+    const decodedCursor = decodeOrderSearchCursor(cursor as string);
+    // A cursor only marks a position in the search sorted the way it was made
+    if (
+      decodedCursor === null ||
+      decodedCursor.sort !== sort ||
+      decodedCursor.ascending !== (direction === "asc")
+    ) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.ORDER_SEARCH_CURSOR_INVALID);
+    }
+    startAfter = decodedCursor;
+  }
+
+  const filters: TOrderSearchFilters = {
+    status: status as string | undefined,
+    placedFrom:
+      placedFrom !== undefined ? new Date(placedFrom as string) : undefined,
+    placedTo: placedTo !== undefined ? new Date(placedTo as string) : undefined,
+    customerEmail: customerEmail as string | undefined,
+    productId: productId !== undefined ? Number(productId) : undefined,
+    discountCode: discountCode as string | undefined,
+    minPricePaid: minPricePaid !== undefined ? Number(minPricePaid) : undefined,
+    maxPricePaid: maxPricePaid !== undefined ? Number(maxPricePaid) : undefined,
+  };
+
+  searchOrders(
+    filters,
+    sort as EOrderSearchSort,
+    direction === "asc",
+    pageSize,
+    startAfter
+  )
+    .then((page) => {
+      res.json(page);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get all possible orders that a customer has placed
+ *     responses:
+ *       200:
+ *         description: A list of all orders a customer has placed
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the order
+ *              status:
+ *                type: string
+ *                description: The name of the status
+ *              product_count:
+ *                type: number
+ *                description: The number of products in the order
+ *              total:
+ *                type: number
+ *                description: The total price of the order
+ *              placed_on:
+ *                type: date
+ *                description: The time and date the order was placed
+ *              shippedOn:
+ *                type: date
+ *                description: The date the order was first shipped, or null
+ *              deliveredOn:
+ *                type: date
+ *                description: The date the order was delivered, or null
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get("/", verifyToken, (req, res) => {
+  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const customerId = req.user.accountTypeId;
+
+  getOrdersForCustomer(customerId)
+    .then((orders) => {
+      res.json(orders);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/{orderId}:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get all possible orders that a customer has placed
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order to get the information for
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: The order that was placed
+ *         schema:
+ *           type: object
+ *           properties:
+ *            order:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: integer
+ *                description: The id of the order
+ *              status:
+ *                type: string
+ *                description: The name of the status
+ *              product_count:
+ *                type: number
+ *                description: The number of products in the order
+ *              total:
+ *                type: number
+ *                description: The total price of the order
+ *              tax:
+ *                type: number
+ *                description: The tax for the order
+ *              pricesIncludeTax:
+ *                type: boolean
+ *                description: True if the prices already include the tax
+ *              shippingMethod:
+ *                type: string
+ *                description: The name of the shipping method, null for orders placed before shipping methods
+ *              shipping:
+ *                type: number
+ *                description: The cost of shipping the order
+ *              placed_on:
+ *                type: date
+ *                description: The time and date the order was placed
+ *            timeline:
+ *             type: array
+ *             items:
+ *               type: object
+ *               properties:
+ *                status:
+ *                  type: string
+ *                  description: The status the order was moved to
+ *                changedOn:
+ *                  type: date
+ *                  description: The date the status was changed
+ *                accountType:
+ *                  type: number
+ *                  description: The type of account that made the change
+ *                note:
+ *                  type: string
+ *                  description: The note recorded with the change, or null
+ *       400:
+ *          description: Fields missing in request
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get("/:orderId", verifyToken, (req, res) => {
+  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const customerId = req.user.accountTypeId;
+  const { orderId } = req.params;
+  if (Number.isNaN(Number(orderId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  Promise.all([
+    getOrderDetails(customerId, Number(orderId)),
+    getOrderStatusHistory(Number(orderId), customerId),
+  ])
+    .then(([order, history]) => {
+      res.json({
+        order: order,
+        // Customers aren't shown which staff account made each change
+        timeline: history.map((entry) => ({
+          status: entry.status,
+          changedOn: entry.changedOn,
+          accountType: entry.accountType,
+          note: entry.note,
+        })),
+      });
     })
     .catch((_) => {
       res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
@@ -369,9 +1351,21 @@ orderRouter.get("/:orderId", verifyToken, (req, res) => {
  *              quantity:
  *                type: number
  *                description: The amount of that product ordered
+ *              shippedQuantity:
+ *                type: number
+ *                description: The amount of that product shipped so far
  *              price:
  *                type: number
  *                description: The item price for each product
+ *              taxRate:
+ *                type: number
+ *                description: The tax rate for the product as a percentage
+ *              discount:
+ *                type: number
+ *                description: The amount the promotions and discount codes took off the line
+ *              tax:
+ *                type: number
+ *                description: The tax charged for the line, after discounts
  *       400:
  *          description: Fields missing in request
  *       401:
@@ -421,7 +1415,14 @@ orderRouter.get("/:orderId/products", verifyToken, (req, res) => {
  *         schema:
  *           type: array
  *           items:
- *             type: string
+ *             type: object
+ *             properties:
+ *              code:
+ *                type: string
+ *              amount:
+ *                type: number
+ *                description: The amount the code took off, null for orders
+ *                  placed before it was recorded
  *       400:
  *          description: Fields missing in request
  *       401:
@@ -451,3 +1452,851 @@ orderRouter.get("/:orderId/discounts", verifyToken, (req, res) => {
       res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
     });
 });
+
+/**
+ * @swagger
+ * /orders/{orderId}/returns:
+ *   get:
+ *     tags: [Orders, Order returns]
+ *     summary: Get all returns requested for an order
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order to get the returns for
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: A list of returns for the order
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the return
+ *              status:
+ *                type: string
+ *                description: The current status of the return
+ *              reason:
+ *                type: string
+ *                description: The reason given for the return
+ *              refundAmount:
+ *                type: number
+ *                description: The amount to refund
+ *              requestedOn:
+ *                type: date
+ *                description: The date the return was requested
+ *       400:
+ *          description: Fields missing in request
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get("/:orderId/returns", verifyToken, (req, res) => {
+  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const customerId = req.user.accountTypeId;
+  const { orderId } = req.params;
+  if (Number.isNaN(Number(orderId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  getReturnsForOrder(Number(orderId), customerId)
+    .then((returns) => {
+      res.json(returns);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/{orderId}/shipments:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get all shipments sent for an order
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order to get the shipments for
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: A list of shipments, oldest first
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the shipment
+ *              shippedOn:
+ *                type: date
+ *                description: The date the shipment was sent
+ *              items:
+ *                type: array
+ *                description: The products and quantities in the shipment
+ *       400:
+ *          description: Fields missing in request
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get("/:orderId/shipments", verifyToken, (req, res) => {
+  if (!req.user) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderId } = req.params;
+  if (Number.isNaN(Number(orderId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+  // Customers can only see shipments for their own orders
+  const customerId =
+    req.user.accountType === EAccountTypes.customer
+      ? req.user.accountTypeId
+      : undefined;
+
+  getShipmentsForOrder(Number(orderId), customerId)
+    .then((shipments) => {
+      res.json(shipments);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/{orderId}/tracking:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get the carrier tracking for every shipment of an order
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order to get the tracking for
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: A list of shipments with their tracking events
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              shipmentId:
+ *                type: number
+ *                description: The id of the shipment
+ *              shippedOn:
+ *                type: date
+ *                description: The date the shipment was sent
+ *              carrier:
+ *                type: string
+ *                description: The name of the carrier, or null if not recorded yet
+ *              trackingNumber:
+ *                type: string
+ *                description: The carrier's tracking number, or null if not recorded yet
+ *              trackingUrl:
+ *                type: string
+ *                description: A link to the carrier's tracking page, or null
+ *              events:
+ *                type: array
+ *                description: Tracking events with occurredOn, location and description
+ *       400:
+ *          description: Fields missing in request
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get("/:orderId/tracking", verifyToken, (req, res) => {
+  if (!req.user) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderId } = req.params;
+  if (Number.isNaN(Number(orderId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+  // Customers can only see tracking for their own orders
+  const customerId =
+    req.user.accountType === EAccountTypes.customer
+      ? req.user.accountTypeId
+      : undefined;
+
+  getTrackingForOrder(Number(orderId), customerId)
+    .then((shipments) => {
+      res.json(
+        shipments.map((shipment) => {
+          const carrier =
+            shipment.carrier !== null
+              ? getCarrier(shipment.carrier)
+              : undefined;
+          return {
+            ...shipment,
+            carrier: carrier?.name ?? shipment.carrier,
+            trackingUrl:
+              carrier !== undefined && shipment.trackingNumber !== null
+                ? carrier.getTrackingUrl(shipment.trackingNumber)
+                : null,
+          };
+        })
+      );
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/{orderId}/invoice:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Download the invoice for an order as a PDF
+ *     description: The invoice number is issued the first time the invoice is
+ *       downloaded. Available to the customer who placed the order and to staff
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: The invoice PDF
+ *       400:
+ *          description: Fields missing in request, or the order does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get("/:orderId/invoice", verifyToken, async (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.customer &&
+      req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.support &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderId } = req.params;
+  if (Number.isNaN(Number(orderId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  try {
+    const customerId = await getCustomerIdForOrder(Number(orderId));
+    // Customers can only download invoices for their own orders
+    if (
+      customerId === null ||
+      (req.user.accountType === EAccountTypes.customer &&
+        customerId !== req.user.accountTypeId)
+    ) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.ORDER_ID_NOT_EXIST);
+    }
+    const order = await getOrderDetails(customerId, Number(orderId));
+    if (order === null) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.ORDER_ID_NOT_EXIST);
+    }
+    const [products, discounts, promotions, shippingAddress, invoice] =
+      await Promise.all([
+        getProductsInOrder(order.id, customerId),
+        getDiscountsUsedForOrder(order.id, customerId),
+        getPromotionsUsedForOrder(order.id, customerId),
+        getShippingAddress(customerId, order.shippingAddressId),
+        getOrIssueInvoiceForOrder(order.id),
+      ]);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="invoice-${invoice.invoiceNumber}.pdf"`
+    );
+    writeInvoicePdf(
+      {
+        invoiceNumber: invoice.invoiceNumber,
+        issuedOn: invoice.issuedOn,
+        orderId: order.id,
+        placedOn: order.placed_on,
+        shippingAddress: shippingAddress,
+        lines: products,
+        promotions: promotions,
+        discountCodes: discounts,
+        total: order.total,
+        tax: order.tax ?? 0,
+        pricesIncludeTax: order.pricesIncludeTax ?? false,
+        shippingMethod: order.shippingMethod ?? null,
+        shipping: order.shipping ?? 0,
+        pricePaid: order.pricePaid,
+      },
+      res
+    );
+  } catch (_) {
+    res
+      .status(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE)
+      .send(ETextResponse.INTERNAL_ERROR);
+  }
+});
+
+/**
+ * @swagger
+ * /orders/{orderId}/credit-notes:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get the credit notes issued against an order
+ *     description: Credit notes are issued when an order is cancelled or a
+ *       return is refunded
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: A list of credit notes, oldest first
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the credit note
+ *              creditNoteNumber:
+ *                type: number
+ *                description: The sequential number of the credit note
+ *              returnId:
+ *                type: number
+ *                description: The id of the return refunded, or null
+ *              amount:
+ *                type: number
+ *                description: The amount credited
+ *              reason:
+ *                type: string
+ *                description: The reason the credit note was issued
+ *              issuedOn:
+ *                type: date
+ *                description: The date the credit note was issued
+ *       400:
+ *          description: Fields missing in request, or the order does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get("/:orderId/credit-notes", verifyToken, async (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.customer &&
+      req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.support &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderId } = req.params;
+  if (Number.isNaN(Number(orderId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  try {
+    const customerId = await getCustomerIdForOrder(Number(orderId));
+    if (
+      customerId === null ||
+      (req.user.accountType === EAccountTypes.customer &&
+        customerId !== req.user.accountTypeId)
+    ) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.ORDER_ID_NOT_EXIST);
+    }
+    res.json(await getCreditNotesForOrder(Number(orderId)));
+  } catch (_) {
+    res
+      .status(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE)
+      .send(ETextResponse.INTERNAL_ERROR);
+  }
+});
+
+/**
+ * @swagger
+ * /orders/{orderId}/credit-notes/{creditNoteId}:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Download a credit note for an order as a PDF
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order
+ *         schema:
+ *           type: number
+ *       - in: params
+ *         name: creditNoteId
+ *         required: true
+ *         description: The id of the credit note
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: The credit note PDF
+ *       400:
+ *          description: Fields missing in request, or the order or credit note does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get(
+  "/:orderId/credit-notes/:creditNoteId",
+  verifyToken,
+  async (req, res) => {
+    if (
+      !req.user ||
+      (req.user.accountType !== EAccountTypes.customer &&
+        req.user.accountType !== EAccountTypes.sales &&
+        req.user.accountType !== EAccountTypes.support &&
+        req.user.accountType !== EAccountTypes.admin)
+    ) {
+      return res
+        .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+        .send(ETextResponse.UNAUTHORIZED_REQUEST);
+    }
+    const { orderId, creditNoteId } = req.params;
+    if (Number.isNaN(Number(orderId)) || Number.isNaN(Number(creditNoteId))) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.ID_INVALID_IN_REQ);
+    }
+
+    try {
+      const customerId = await getCustomerIdForOrder(Number(orderId));
+      if (
+        customerId === null ||
+        (req.user.accountType === EAccountTypes.customer &&
+          customerId !== req.user.accountTypeId)
+      ) {
+        return res
+          .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+          .send(ETextResponse.ORDER_ID_NOT_EXIST);
+      }
+      const creditNote = (await getCreditNotesForOrder(Number(orderId))).find(
+        (note) => note.id === Number(creditNoteId)
+      );
+      if (creditNote === undefined) {
+        return res
+          .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+          .send(ETextResponse.CREDIT_NOTE_ID_NOT_EXIST);
+      }
+      // A credit note always refers back to the order's invoice
+      const invoice = await getOrIssueInvoiceForOrder(Number(orderId));
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="credit-note-${creditNote.creditNoteNumber}.pdf"`
+      );
+      writeCreditNotePdf(
+        {
+          creditNoteNumber: creditNote.creditNoteNumber,
+          issuedOn: creditNote.issuedOn,
+          orderId: creditNote.orderId,
+          invoiceNumber: invoice.invoiceNumber,
+          reason: creditNote.reason,
+          amount: creditNote.amount,
+        },
+        res
+      );
+    } catch (_) {
+      res
+        .status(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE)
+        .send(ETextResponse.INTERNAL_ERROR);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /orders/{orderId}/history:
+ *   get:
+ *     tags: [Orders]
+ *     summary: Get the full status history of an order, for staff
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: A list of status changes, oldest first
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              status:
+ *                type: string
+ *                description: The status the order was moved to
+ *              changedOn:
+ *                type: date
+ *                description: The date the status was changed
+ *              accountId:
+ *                type: number
+ *                description: The id of the account that made the change
+ *              accountType:
+ *                type: number
+ *                description: The type of account that made the change
+ *              note:
+ *                type: string
+ *                description: The note recorded with the change, or null
+ *       400:
+ *          description: Fields missing in request
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.get("/:orderId/history", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.admin &&
+      req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.support &&
+      req.user.accountType !== EAccountTypes.warehouse)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderId } = req.params;
+  if (Number.isNaN(Number(orderId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  getOrderStatusHistory(Number(orderId))
+    .then((history) => {
+      res.json(history);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/{orderId}/status:
+ *   put:
+ *     tags: [Orders]
+ *     summary: Move an order to a new status
+ *     description: Move an order to a new status. Each staff account type can
+ *       only make the status changes listed by /orders/status/transitions
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order to update
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: statusId
+ *         required: true
+ *         description: The id of the status to move the order to
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: note
+ *         required: false
+ *         description: A note to record in the order's status history
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *          description: Order status updated
+ *       400:
+ *          description: Fields missing in request, or the order or status does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       409:
+ *          description: The order cannot be moved from its current status to the new status
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.put("/:orderId/status", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.admin &&
+      req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.support &&
+      req.user.accountType !== EAccountTypes.warehouse)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderId } = req.params;
+  const { statusId, note } = req.body;
+  if (
+    Number.isNaN(Number(orderId)) ||
+    typeof statusId !== "number" ||
+    (note !== undefined && typeof note !== "string")
+  ) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
+  }
+
+  updateOrderStatus(Number(orderId), statusId, req.user, note)
+    .then((response) => {
+      switch (response) {
+        case EOrderStatusUpdateResponse.OK:
+          sendOrderStatusChangeToCustomerClients(Number(orderId));
+          return res.send(ETextResponse.ORDER_STATUS_UPDATED);
+        case EOrderStatusUpdateResponse.ORDER_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.ORDER_ID_NOT_EXIST);
+        case EOrderStatusUpdateResponse.STATUS_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.ORDER_STATUS_ID_NOT_EXIST);
+        case EOrderStatusUpdateResponse.TRANSITION_NOT_ALLOWED:
+          return res
+            .status(EResponseStatusCodes.CONFLICT_CODE)
+            .send(ETextResponse.ORDER_STATUS_CHANGE_NOT_ALLOWED);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      return res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/{orderId}/reorder:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Add the products from an earlier order to the customer's basket
+ *     description: Quantities are merged with what is already in the basket.
+ *       Products no longer sold are skipped, and quantities are reduced to the
+ *       stock available
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order to copy
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: What happened to each product in the order
+ *         schema:
+ *           type: object
+ *           properties:
+ *            added:
+ *             type: array
+ *             description: Products added to the basket in full
+ *             items:
+ *               type: object
+ *               properties:
+ *                productId:
+ *                  type: number
+ *                productName:
+ *                  type: string
+ *                orderedQuantity:
+ *                  type: number
+ *                  description: The quantity in the earlier order
+ *                addedQuantity:
+ *                  type: number
+ *                  description: The quantity added to the basket
+ *                basketQuantity:
+ *                  type: number
+ *                  description: The quantity now in the basket
+ *            adjusted:
+ *             type: array
+ *             description: Products added with less than was ordered, as there is not enough stock. Same fields as added
+ *            skipped:
+ *             type: array
+ *             description: Products that could not be added
+ *             items:
+ *               type: object
+ *               properties:
+ *                productId:
+ *                  type: number
+ *                productName:
+ *                  type: string
+ *                orderedQuantity:
+ *                  type: number
+ *                  description: The quantity in the earlier order
+ *                reason:
+ *                  type: string
+ *                  description: unavailable if the product is no longer sold, outOfStock if there is no more stock than is already in the basket
+ *       400:
+ *          description: Order id invalid, or the order does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.post("/:orderId/reorder", verifyToken, (req, res) => {
+  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderId } = req.params;
+  if (Number.isNaN(Number(orderId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+  const customerId = req.user.accountTypeId;
+
+  reorderIntoBasket(customerId, Number(orderId))
+    .then((result) => {
+      if (result === null) {
+        return res
+          .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+          .send(ETextResponse.ORDER_ID_NOT_EXIST);
+      }
+      if (result.added.length > 0 || result.adjusted.length > 0) {
+        sendBasketChangesToAllCustomerClients(customerId).catch((err) => {
+          console.error(err);
+        });
+      }
+      return res.json(result);
+    })
+    .catch((_) => {
+      return res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /orders/{orderId}/cancel:
+ *   post:
+ *     tags: [Orders]
+ *     summary: Cancel an order that has not shipped yet
+ *     description: Cancel an order, putting its products back into stock and
+ *       giving back the uses of any discount codes applied. Customers can only
+ *       cancel their own orders
+ *     parameters:
+ *       - in: params
+ *         name: orderId
+ *         required: true
+ *         description: The id of the order to cancel
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: note
+ *         required: false
+ *         description: A note to record in the order's status history
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *          description: Order cancelled
+ *       400:
+ *          description: Fields missing in request, or the order does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       409:
+ *          description: The order can no longer be cancelled
+ *       500:
+ *          description: Internal server error
+ */
+orderRouter.post("/:orderId/cancel", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.customer &&
+      req.user.accountType !== EAccountTypes.support &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { orderId } = req.params;
+  const { note } = req.body;
+  if (
+    Number.isNaN(Number(orderId)) ||
+    (note !== undefined && typeof note !== "string")
+  ) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  // Customers can only cancel orders they have placed
+  cancelOrder(Number(orderId), req.user, note)
+    .then((response) => {
+      switch (response) {
+        case EOrderStatusUpdateResponse.OK:
+          sendOrderStatusChangeToCustomerClients(Number(orderId));
+          return res.send(ETextResponse.ORDER_CANCELLED);
+        case EOrderStatusUpdateResponse.ORDER_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.ORDER_ID_NOT_EXIST);
+        case EOrderStatusUpdateResponse.TRANSITION_NOT_ALLOWED:
+          return res
+            .status(EResponseStatusCodes.CONFLICT_CODE)
+            .send(ETextResponse.ORDER_CANNOT_BE_CANCELLED);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      return res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
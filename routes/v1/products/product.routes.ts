@@ -9,6 +9,7 @@ import {
   setPriceForProduct,
   updateProductDescription,
   updateProductName,
+  updateProductWeight,
 } from "../../../models/products/product.models";
 import {
   EResponseStatusCodes,
@@ -749,6 +750,87 @@ productRouter.delete("/:id/description", verifyToken, async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /products/{id}/weight:
+ *   put:
+ *     tags: [Products]
+ *     summary: Update a product's shipping weight
+ *     description: Set the weight of a single item of a product, used to price weight based shipping. Send null to remove the weight
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The id of the product to update
+ *         schema:
+ *           type: integer
+ *       - in: body
+ *         name: weightKg
+ *         required: true
+ *         description: The weight of a single item in kg, or null
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *          description: Product's weight updated
+ *       400:
+ *          description: Product does not exist, or the weight is invalid
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+productRouter.put("/:id/weight", verifyToken, async (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.admin &&
+      req.user.accountType !== EAccountTypes.sales)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { id } = req.params;
+  if (Number.isNaN(Number(id))) {
+    res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  } else {
+    const { weightKg } = req.body;
+    if (
+      weightKg === null ||
+      (typeof weightKg === "number" &&
+        Number.isFinite(weightKg) &&
+        weightKg >= 0)
+    ) {
+      try {
+        const updated = await updateProductWeight(Number(id), weightKg);
+        switch (updated) {
+          case EDatabaseResponses.OK:
+            res.send(ETextResponse.PRODUCT_UPDATED);
+            break;
+          case EDatabaseResponses.DOES_NOT_EXIST:
+            res
+              .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+              .send(ETextResponse.PRODUCT_ID_NOT_EXISTS);
+            break;
+          default:
+            res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+            break;
+        }
+      } catch (_) {
+        res
+          .status(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE)
+          .send(ETextResponse.INTERNAL_ERROR);
+      }
+    } else {
+      res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.PRODUCT_WEIGHT_INVALID);
+    }
+  }
+});
+
 /**
  * @swagger
  * /products:
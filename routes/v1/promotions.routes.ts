@@ -0,0 +1,442 @@
+import { Router } from "express";
+import { EAccountTypes, verifyToken } from "../../security/security";
+import {
+  EResponseStatusCodes,
+  ETextResponse,
+} from "../../common/response-types";
+import { EDatabaseResponses } from "../../data/data";
+import {
+  isArrayOfDiscountScopes,
+  isArrayOfProductQuantities,
+  isValidDate,
+} from "../../common/validation";
+import { TDiscountScope } from "../../models/discount.models";
+import {
+  createPromotion,
+  deactivatePromotion,
+  EPromotionType,
+  getPromotions,
+  TPromotionBundleItem,
+  TPromotionDetails,
+  updatePromotion,
+} from "../../models/promotions.models";
+
+export const promotionRouter = Router();
+
+/**
+ * Read the details of a promotion sent in a request body
+ * @param body The request body
+ * @returns The promotion details, or null if any are missing or invalid
+ */
+const getPromotionDetailsFromBody = (body: any): TPromotionDetails | null => {
+  const {
+    name,
+    promotionType,
+    buyQuantity,
+    getQuantity,
+    getPercentOff,
+    scopes = [],
+    bundleItems,
+    bundlePrice,
+    startsOn,
+    endsOn,
+    active,
+  } = body;
+  if (
+    typeof name !== "string" ||
+    name.trim().length <= 0 ||
+    !Object.values(EPromotionType).includes(promotionType) ||
+    (promotionType === EPromotionType.buyXGetY &&
+      (!Number.isInteger(buyQuantity) ||
+        buyQuantity <= 0 ||
+        !Number.isInteger(getQuantity) ||
+        getQuantity <= 0 ||
+        typeof getPercentOff !== "number" ||
+        getPercentOff <= 0 ||
+        getPercentOff > 100 ||
+        !isArrayOfDiscountScopes(scopes))) ||
+    (promotionType === EPromotionType.bundle &&
+      (!isArrayOfProductQuantities(bundleItems) ||
+        bundleItems.length <= 0 ||
+        bundleItems.some((item: TPromotionBundleItem) => item.quantity <= 0) ||
+        new Set(bundleItems.map((item: TPromotionBundleItem) => item.productId))
+          .size !== bundleItems.length ||
+        typeof bundlePrice !== "number" ||
+        bundlePrice < 0)) ||
+    (startsOn !== undefined && startsOn !== null && !isValidDate(startsOn)) ||
+    (endsOn !== undefined && endsOn !== null && !isValidDate(endsOn)) ||
+    (isValidDate(startsOn) &&
+      isValidDate(endsOn) &&
+      Date.parse(endsOn) <= Date.parse(startsOn)) ||
+    typeof active !== "boolean"
+  ) {
+    return null;
+  }
+  const isBundle = promotionType === EPromotionType.bundle;
+  return {
+    name: name.trim(),
+    promotionType: promotionType,
+    buyQuantity: isBundle ? 0 : buyQuantity,
+    getQuantity: isBundle ? 0 : getQuantity,
+    getPercentOff: isBundle ? 0 : getPercentOff,
+    scopes: isBundle
+      ? []
+      : scopes.map((scope: TDiscountScope) => ({
+          scopeType: scope.scopeType,
+          targetId: scope.targetId,
+          excluded: scope.excluded ?? false,
+        })),
+    bundleItems: isBundle
+      ? bundleItems.map((item: TPromotionBundleItem) => ({
+          productId: item.productId,
+          quantity: item.quantity,
+        }))
+      : [],
+    bundlePrice: isBundle ? bundlePrice : 0,
+    startsOn: startsOn ? new Date(startsOn) : null,
+    endsOn: endsOn ? new Date(endsOn) : null,
+    active: active,
+  };
+};
+
+/**
+ * @swagger
+ * /promotions:
+ *   get:
+ *     tags: [Promotions]
+ *     summary: Get every promotion, including inactive ones
+ *     responses:
+ *       200:
+ *         description: A list of promotions
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the promotion
+ *              name:
+ *                type: string
+ *                description: The name shown to customers
+ *              promotionType:
+ *                type: string
+ *                description: buyXGetY or bundle
+ *              buyQuantity:
+ *                type: number
+ *                description: The number of full price items in each group, 0 for bundles
+ *              getQuantity:
+ *                type: number
+ *                description: The number of cheaper items in each group, 0 for bundles
+ *              getPercentOff:
+ *                type: number
+ *                description: The percentage taken off the cheaper items, 0 for bundles
+ *              scopes:
+ *                type: array
+ *                description: The products that count towards a buyXGetY promotion, each with a
+ *                  scopeType (product, baseProduct, brand or productType), targetId and excluded flag
+ *              bundleItems:
+ *                type: array
+ *                description: The productId and quantity of each product in one bundle
+ *              bundlePrice:
+ *                type: number
+ *                description: The price of one bundle, 0 for buyXGetY promotions
+ *              startsOn:
+ *                type: date
+ *                description: The promotion doesn't apply before this date, null if it always has
+ *              endsOn:
+ *                type: date
+ *                description: The promotion doesn't apply after this date, null if it never ends
+ *              active:
+ *                type: boolean
+ *                description: If the promotion can currently apply
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+promotionRouter.get("/", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+
+  getPromotions()
+    .then((promotions) => {
+      res.json(promotions);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /promotions:
+ *   post:
+ *     tags: [Promotions]
+ *     summary: Create a promotion that applies to baskets without a code
+ *     description: buyXGetY promotions split the matching items into groups, most expensive
+ *       first, and take getPercentOff off the cheapest getQuantity items in each group, so
+ *       "3 for 2" is buyQuantity 2, getQuantity 1 and getPercentOff 100. bundle promotions
+ *       charge bundlePrice for each full set of bundleItems
+ *     parameters:
+ *       - in: body
+ *         name: name
+ *         required: true
+ *         description: The name shown to customers
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: promotionType
+ *         required: true
+ *         description: buyXGetY or bundle
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: buyQuantity
+ *         required: false
+ *         description: The number of full price items in each group. Required for buyXGetY promotions
+ *         schema:
+ *           type: integer
+ *       - in: body
+ *         name: getQuantity
+ *         required: false
+ *         description: The number of cheaper items in each group. Required for buyXGetY promotions
+ *         schema:
+ *           type: integer
+ *       - in: body
+ *         name: getPercentOff
+ *         required: false
+ *         description: The percentage taken off the cheaper items, more than 0 and at most 100.
+ *           Required for buyXGetY promotions
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: scopes
+ *         required: false
+ *         description: The products that count towards a buyXGetY promotion, each with a scopeType
+ *           of product, baseProduct, brand or productType, the targetId it matches and an optional
+ *           excluded flag. Every product counts if not given
+ *         schema:
+ *           type: array
+ *       - in: body
+ *         name: bundleItems
+ *         required: false
+ *         description: The productId and quantity of each product in one bundle. Required for
+ *           bundle promotions
+ *         schema:
+ *           type: array
+ *       - in: body
+ *         name: bundlePrice
+ *         required: false
+ *         description: The price of one bundle. Required for bundle promotions
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: startsOn
+ *         required: false
+ *         description: The promotion doesn't apply before this date
+ *         schema:
+ *           type: date
+ *       - in: body
+ *         name: endsOn
+ *         required: false
+ *         description: The promotion doesn't apply after this date
+ *         schema:
+ *           type: date
+ *       - in: body
+ *         name: active
+ *         required: true
+ *         description: If the promotion can currently apply
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       201:
+ *          description: Promotion created
+ *       400:
+ *          description: Fields missing or invalid in request, or a bundle product does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+promotionRouter.post("/", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const details = getPromotionDetailsFromBody(req.body);
+  if (details === null) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.PROMOTION_DETAILS_INVALID);
+  }
+
+  createPromotion(details)
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res
+            .status(EResponseStatusCodes.CREATED_CODE)
+            .send(ETextResponse.PROMOTION_CREATED);
+        case EDatabaseResponses.FOREIGN_KEY_VIOLATION:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.PRODUCT_ID_NOT_EXISTS);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /promotions/{promotionId}:
+ *   put:
+ *     tags: [Promotions]
+ *     summary: Update a promotion
+ *     description: Orders already placed keep the discounts they were given. Takes the same
+ *       fields as creating a promotion
+ *     parameters:
+ *       - in: params
+ *         name: promotionId
+ *         required: true
+ *         description: The id of the promotion
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *          description: Promotion updated
+ *       400:
+ *          description: Fields missing or invalid in request, a bundle product does not exist,
+ *            or the promotion does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+promotionRouter.put("/:promotionId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { promotionId } = req.params;
+  if (Number.isNaN(Number(promotionId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+  const details = getPromotionDetailsFromBody(req.body);
+  if (details === null) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.PROMOTION_DETAILS_INVALID);
+  }
+
+  updatePromotion(Number(promotionId), details)
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res.send(ETextResponse.PROMOTION_UPDATED);
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.PROMOTION_NOT_EXIST);
+        case EDatabaseResponses.FOREIGN_KEY_VIOLATION:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.PRODUCT_ID_NOT_EXISTS);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /promotions/{promotionId}:
+ *   delete:
+ *     tags: [Promotions]
+ *     summary: Deactivate a promotion
+ *     description: The promotion is kept, as orders it applied to still refer to it
+ *     parameters:
+ *       - in: params
+ *         name: promotionId
+ *         required: true
+ *         description: The id of the promotion
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *          description: Promotion deactivated
+ *       400:
+ *          description: Promotion does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+promotionRouter.delete("/:promotionId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { promotionId } = req.params;
+  if (Number.isNaN(Number(promotionId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  deactivatePromotion(Number(promotionId))
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res.send(ETextResponse.PROMOTION_DEACTIVATED);
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.PROMOTION_NOT_EXIST);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+export default promotionRouter;
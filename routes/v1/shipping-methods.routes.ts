@@ -0,0 +1,496 @@
+import { Router } from "express";
+import { EAccountTypes, verifyToken } from "../../security/security";
+import {
+  EResponseStatusCodes,
+  ETextResponse,
+} from "../../common/response-types";
+import { EDatabaseResponses } from "../../data/data";
+import { EShippingRateType } from "../../common/order-pricing";
+import {
+  createShippingMethod,
+  deactivateShippingMethod,
+  getShippingMethods,
+  getShippingMethodsForAddress,
+  TShippingMethodDetails,
+  updateShippingMethod,
+} from "../../models/shipping-methods.models";
+
+export const shippingMethodRouter = Router();
+
+/**
+ * Check an amount of money sent in a request
+ * @param amount The amount to check
+ * @returns True if the amount is a number that is not negative
+ */
+const isValidCost = (amount: any): boolean => {
+  return typeof amount === "number" && Number.isFinite(amount) && amount >= 0;
+};
+
+/**
+ * Read the details of a shipping method sent in a request body
+ * @param body The request body
+ * @returns The shipping method details, or null if any are missing or invalid
+ */
+const getShippingMethodDetailsFromBody = (
+  body: any
+): TShippingMethodDetails | null => {
+  const { name, deliveryDays, rateType, baseCost, costPerKg, freeOver } = body;
+  if (
+    typeof name !== "string" ||
+    name.trim().length <= 0 ||
+    !Number.isInteger(deliveryDays) ||
+    deliveryDays < 0 ||
+    !Object.values(EShippingRateType).includes(rateType) ||
+    !isValidCost(baseCost) ||
+    (costPerKg !== undefined && !isValidCost(costPerKg)) ||
+    (rateType === EShippingRateType.weight && costPerKg === undefined) ||
+    (freeOver !== undefined && freeOver !== null && !isValidCost(freeOver))
+  ) {
+    return null;
+  }
+  return {
+    name: name.trim(),
+    deliveryDays: deliveryDays,
+    rateType: rateType,
+    baseCost: baseCost,
+    costPerKg: costPerKg ?? 0,
+    freeOver: freeOver ?? null,
+  };
+};
+
+/**
+ * @swagger
+ * /shipping-methods:
+ *   get:
+ *     tags: [Shipping methods]
+ *     summary: Get every shipping method, including inactive ones
+ *     parameters:
+ *       - in: query
+ *         name: countryId
+ *         required: false
+ *         description: Only get the methods for this shipping country
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: A list of shipping methods
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the shipping method
+ *              countryId:
+ *                type: number
+ *                description: The id of the shipping country
+ *              countryName:
+ *                type: string
+ *                description: The name of the shipping country
+ *              name:
+ *                type: string
+ *                description: The name shown to customers
+ *              deliveryDays:
+ *                type: number
+ *                description: The number of days delivery is expected to take
+ *              rateType:
+ *                type: string
+ *                description: flat for a fixed cost, weight to add a cost for each kg
+ *              baseCost:
+ *                type: number
+ *                description: The cost every order pays
+ *              costPerKg:
+ *                type: number
+ *                description: The cost for each kg, only used by weight rates
+ *              freeOver:
+ *                type: number
+ *                description: Orders costing at least this much after discounts ship for free, null if never free
+ *              active:
+ *                type: boolean
+ *                description: False if the method can no longer be chosen at checkout
+ *       400:
+ *          description: Country id invalid
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+shippingMethodRouter.get("/", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { countryId } = req.query;
+  if (countryId !== undefined && Number.isNaN(Number(countryId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  getShippingMethods(countryId !== undefined ? Number(countryId) : undefined)
+    .then((shippingMethods) => {
+      res.json(shippingMethods);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /shipping-methods/address/{addressId}:
+ *   get:
+ *     tags: [Shipping methods]
+ *     summary: Get the shipping methods that can be chosen for an address in the customer's address book
+ *     description: Each method includes what it would cost for the current basket, before discounts
+ *     parameters:
+ *       - in: params
+ *         name: addressId
+ *         required: true
+ *         description: The id of the shipping address
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: A list of shipping methods, cheapest first
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              id:
+ *                type: number
+ *                description: The id of the shipping method
+ *              name:
+ *                type: string
+ *                description: The name of the shipping method
+ *              deliveryDays:
+ *                type: number
+ *                description: The number of days delivery is expected to take
+ *              rateType:
+ *                type: string
+ *                description: flat for a fixed cost, weight to add a cost for each kg
+ *              baseCost:
+ *                type: number
+ *                description: The cost every order pays
+ *              costPerKg:
+ *                type: number
+ *                description: The cost for each kg, only used by weight rates
+ *              freeOver:
+ *                type: number
+ *                description: Orders costing at least this much after discounts ship for free, null if never free
+ *              cost:
+ *                type: number
+ *                description: The cost of shipping the current basket
+ *       400:
+ *          description: Address id invalid
+ *       401:
+ *          description: Account lacks required permissions, or the address is not the customer's
+ *       500:
+ *          description: Internal server error
+ */
+shippingMethodRouter.get("/address/:addressId", verifyToken, (req, res) => {
+  if (!req.user || req.user.accountType !== EAccountTypes.customer) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { addressId } = req.params;
+  if (Number.isNaN(Number(addressId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  getShippingMethodsForAddress(req.user.accountTypeId, Number(addressId))
+    .then((shippingMethods) => {
+      if (shippingMethods !== null) {
+        res.json(shippingMethods);
+      } else {
+        res
+          .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+          .send(ETextResponse.ADDRESS_ID_NOT_EXIST);
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /shipping-methods:
+ *   post:
+ *     tags: [Shipping methods]
+ *     summary: Create a shipping method for a shipping country
+ *     parameters:
+ *       - in: body
+ *         name: countryId
+ *         required: true
+ *         description: The id of the shipping country
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: name
+ *         required: true
+ *         description: The name shown to customers, such as Standard or Express
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: deliveryDays
+ *         required: true
+ *         description: The number of days delivery is expected to take
+ *         schema:
+ *           type: integer
+ *       - in: body
+ *         name: rateType
+ *         required: true
+ *         description: flat for a fixed cost, weight to add a cost for each kg
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: baseCost
+ *         required: true
+ *         description: The cost every order pays
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: costPerKg
+ *         required: false
+ *         description: The cost for each kg, required for weight rates
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: freeOver
+ *         required: false
+ *         description: Orders costing at least this much after discounts ship for free
+ *         schema:
+ *           type: number
+ *     responses:
+ *       201:
+ *          description: Shipping method created
+ *       400:
+ *          description: Fields missing or invalid in request, or the country does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+shippingMethodRouter.post("/", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { countryId } = req.body;
+  const details = getShippingMethodDetailsFromBody(req.body);
+  if (typeof countryId !== "number" || details === null) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.SHIPPING_METHOD_DETAILS_INVALID);
+  }
+
+  createShippingMethod(countryId, details)
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res
+            .status(EResponseStatusCodes.CREATED_CODE)
+            .send(ETextResponse.SHIPPING_METHOD_CREATED);
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.ADDRESS_COUNTRY_ID_INVALID);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /shipping-methods/{shippingMethodId}:
+ *   put:
+ *     tags: [Shipping methods]
+ *     summary: Update a shipping method
+ *     description: Orders already placed keep the shipping cost they were charged
+ *     parameters:
+ *       - in: params
+ *         name: shippingMethodId
+ *         required: true
+ *         description: The id of the shipping method
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: name
+ *         required: true
+ *         description: The name shown to customers
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: deliveryDays
+ *         required: true
+ *         description: The number of days delivery is expected to take
+ *         schema:
+ *           type: integer
+ *       - in: body
+ *         name: rateType
+ *         required: true
+ *         description: flat for a fixed cost, weight to add a cost for each kg
+ *         schema:
+ *           type: string
+ *       - in: body
+ *         name: baseCost
+ *         required: true
+ *         description: The cost every order pays
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: costPerKg
+ *         required: false
+ *         description: The cost for each kg, required for weight rates
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: freeOver
+ *         required: false
+ *         description: Orders costing at least this much after discounts ship for free
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: active
+ *         required: true
+ *         description: False to stop the method being chosen at checkout
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *          description: Shipping method updated
+ *       400:
+ *          description: Fields missing or invalid in request, or the shipping method does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+shippingMethodRouter.put("/:shippingMethodId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { shippingMethodId } = req.params;
+  if (Number.isNaN(Number(shippingMethodId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+  const { active } = req.body;
+  const details = getShippingMethodDetailsFromBody(req.body);
+  if (typeof active !== "boolean" || details === null) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.SHIPPING_METHOD_DETAILS_INVALID);
+  }
+
+  updateShippingMethod(Number(shippingMethodId), details, active)
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res.send(ETextResponse.SHIPPING_METHOD_UPDATED);
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.SHIPPING_METHOD_NOT_EXIST);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /shipping-methods/{shippingMethodId}:
+ *   delete:
+ *     tags: [Shipping methods]
+ *     summary: Stop a shipping method being chosen at checkout
+ *     description: The method is kept, as orders placed with it still refer to it
+ *     parameters:
+ *       - in: params
+ *         name: shippingMethodId
+ *         required: true
+ *         description: The id of the shipping method
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *          description: Shipping method deactivated
+ *       400:
+ *          description: Id invalid, or the shipping method does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+shippingMethodRouter.delete("/:shippingMethodId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { shippingMethodId } = req.params;
+  if (Number.isNaN(Number(shippingMethodId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  deactivateShippingMethod(Number(shippingMethodId))
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res.send(ETextResponse.SHIPPING_METHOD_DEACTIVATED);
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.SHIPPING_METHOD_NOT_EXIST);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+export default shippingMethodRouter;
@@ -0,0 +1,394 @@
+import { Router } from "express";
+import { EAccountTypes, verifyToken } from "../../security/security";
+import {
+  EResponseStatusCodes,
+  ETextResponse,
+} from "../../common/response-types";
+import { EDatabaseResponses } from "../../data/data";
+import {
+  deleteTaxRateForProductType,
+  deleteTaxRuleForCountry,
+  getTaxRules,
+  setTaxRateForProductType,
+  setTaxRuleForCountry,
+} from "../../models/tax.models";
+
+export const taxRouter = Router();
+
+/**
+ * Check a tax rate sent in a request
+ * @param rate The rate to check
+ * @returns True if the rate is a percentage between 0 and 100
+ */
+const isValidTaxRate = (rate: any): boolean => {
+  return typeof rate === "number" && rate >= 0 && rate <= 100;
+};
+
+/**
+ * @swagger
+ * /tax-rules:
+ *   get:
+ *     tags: [Tax rules]
+ *     summary: Get the tax rules for every shipping country that has one
+ *     responses:
+ *       200:
+ *         description: A list of tax rules
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *              countryId:
+ *                type: number
+ *                description: The id of the shipping country
+ *              countryName:
+ *                type: string
+ *                description: The name of the shipping country
+ *              rate:
+ *                type: number
+ *                description: The tax rate for the country as a percentage
+ *              pricesIncludeTax:
+ *                type: boolean
+ *                description: True if prices already include tax
+ *              productTypeRates:
+ *                type: array
+ *                description: Rates for product types that differ from the country's rate
+ *                items:
+ *                  type: object
+ *                  properties:
+ *                    productTypeId:
+ *                      type: number
+ *                      description: The id of the product type
+ *                    productType:
+ *                      type: string
+ *                      description: The name of the product type
+ *                    rate:
+ *                      type: number
+ *                      description: The tax rate for the product type as a percentage
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+taxRouter.get("/", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+
+  getTaxRules()
+    .then((taxRules) => {
+      res.json(taxRules);
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /tax-rules/{countryId}:
+ *   put:
+ *     tags: [Tax rules]
+ *     summary: Set the tax rule for a shipping country
+ *     parameters:
+ *       - in: params
+ *         name: countryId
+ *         required: true
+ *         description: The id of the shipping country
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: rate
+ *         required: true
+ *         description: The tax rate as a percentage
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: pricesIncludeTax
+ *         required: true
+ *         description: True if prices already include tax, false if tax is added on top
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *          description: Tax rule updated
+ *       400:
+ *          description: Fields missing in request, rate invalid, or the country does not exist
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+taxRouter.put("/:countryId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { countryId } = req.params;
+  const { rate, pricesIncludeTax } = req.body;
+  if (
+    Number.isNaN(Number(countryId)) ||
+    typeof pricesIncludeTax !== "boolean"
+  ) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.MISSING_FIELD_IN_REQ_BODY);
+  }
+  if (!isValidTaxRate(rate)) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.TAX_RATE_INVALID);
+  }
+
+  setTaxRuleForCountry(Number(countryId), rate, pricesIncludeTax)
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res.send(ETextResponse.TAX_RULE_UPDATED);
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.ADDRESS_COUNTRY_ID_INVALID);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /tax-rules/{countryId}:
+ *   delete:
+ *     tags: [Tax rules]
+ *     summary: Remove the tax rule for a shipping country, so orders to it are not taxed
+ *     parameters:
+ *       - in: params
+ *         name: countryId
+ *         required: true
+ *         description: The id of the shipping country
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *          description: Tax rule deleted
+ *       400:
+ *          description: Country id invalid, or the country has no tax rule
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+taxRouter.delete("/:countryId", verifyToken, (req, res) => {
+  if (
+    !req.user ||
+    (req.user.accountType !== EAccountTypes.sales &&
+      req.user.accountType !== EAccountTypes.admin)
+  ) {
+    return res
+      .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+      .send(ETextResponse.UNAUTHORIZED_REQUEST);
+  }
+  const { countryId } = req.params;
+  if (Number.isNaN(Number(countryId))) {
+    return res
+      .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+      .send(ETextResponse.ID_INVALID_IN_REQ);
+  }
+
+  deleteTaxRuleForCountry(Number(countryId))
+    .then((response) => {
+      switch (response) {
+        case EDatabaseResponses.OK:
+          return res.send(ETextResponse.TAX_RULE_DELETED);
+        case EDatabaseResponses.DOES_NOT_EXIST:
+          return res
+            .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+            .send(ETextResponse.TAX_RULE_NOT_EXIST);
+        default:
+          return res.sendStatus(
+            EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+          );
+      }
+    })
+    .catch((_) => {
+      res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+    });
+});
+
+/**
+ * @swagger
+ * /tax-rules/{countryId}/product-types/{productTypeId}:
+ *   put:
+ *     tags: [Tax rules]
+ *     summary: Set the tax rate for a product type in a shipping country
+ *     description: The rate is used in place of the country's rate. A product
+ *       with several product types that have their own rate uses the highest
+ *     parameters:
+ *       - in: params
+ *         name: countryId
+ *         required: true
+ *         description: The id of the shipping country, which must have a tax rule
+ *         schema:
+ *           type: number
+ *       - in: params
+ *         name: productTypeId
+ *         required: true
+ *         description: The id of the product type
+ *         schema:
+ *           type: number
+ *       - in: body
+ *         name: rate
+ *         required: true
+ *         description: The tax rate as a percentage
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *          description: Tax rule updated
+ *       400:
+ *          description: Fields missing in request, rate invalid, or the country has no tax rule
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+taxRouter.put(
+  "/:countryId/product-types/:productTypeId",
+  verifyToken,
+  (req, res) => {
+    if (
+      !req.user ||
+      (req.user.accountType !== EAccountTypes.sales &&
+        req.user.accountType !== EAccountTypes.admin)
+    ) {
+      return res
+        .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+        .send(ETextResponse.UNAUTHORIZED_REQUEST);
+    }
+    const { countryId, productTypeId } = req.params;
+    const { rate } = req.body;
+    if (
+      Number.isNaN(Number(countryId)) ||
+      Number.isNaN(Number(productTypeId))
+    ) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.ID_INVALID_IN_REQ);
+    }
+    if (!isValidTaxRate(rate)) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.TAX_RATE_INVALID);
+    }
+
+    setTaxRateForProductType(Number(countryId), Number(productTypeId), rate)
+      .then((response) => {
+        switch (response) {
+          case EDatabaseResponses.OK:
+            return res.send(ETextResponse.TAX_RULE_UPDATED);
+          case EDatabaseResponses.DOES_NOT_EXIST:
+            return res
+              .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+              .send(ETextResponse.TAX_RULE_OR_PRODUCT_TYPE_NOT_EXIST);
+          default:
+            return res.sendStatus(
+              EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+            );
+        }
+      })
+      .catch((_) => {
+        res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+      });
+  }
+);
+
+/**
+ * @swagger
+ * /tax-rules/{countryId}/product-types/{productTypeId}:
+ *   delete:
+ *     tags: [Tax rules]
+ *     summary: Remove the tax rate for a product type, so the country's rate is used
+ *     parameters:
+ *       - in: params
+ *         name: countryId
+ *         required: true
+ *         description: The id of the shipping country
+ *         schema:
+ *           type: number
+ *       - in: params
+ *         name: productTypeId
+ *         required: true
+ *         description: The id of the product type
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *          description: Tax rule deleted
+ *       400:
+ *          description: Ids invalid, or no rate was set for the product type
+ *       401:
+ *          description: Account lacks required permissions
+ *       500:
+ *          description: Internal server error
+ */
+taxRouter.delete(
+  "/:countryId/product-types/:productTypeId",
+  verifyToken,
+  (req, res) => {
+    if (
+      !req.user ||
+      (req.user.accountType !== EAccountTypes.sales &&
+        req.user.accountType !== EAccountTypes.admin)
+    ) {
+      return res
+        .status(EResponseStatusCodes.UNAUTHORIZED_CODE)
+        .send(ETextResponse.UNAUTHORIZED_REQUEST);
+    }
+    const { countryId, productTypeId } = req.params;
+    if (
+      Number.isNaN(Number(countryId)) ||
+      Number.isNaN(Number(productTypeId))
+    ) {
+      return res
+        .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+        .send(ETextResponse.ID_INVALID_IN_REQ);
+    }
+
+    deleteTaxRateForProductType(Number(countryId), Number(productTypeId))
+      .then((response) => {
+        switch (response) {
+          case EDatabaseResponses.OK:
+            return res.send(ETextResponse.TAX_RULE_DELETED);
+          case EDatabaseResponses.DOES_NOT_EXIST:
+            return res
+              .status(EResponseStatusCodes.BAD_REQUEST_CODE)
+              .send(ETextResponse.TAX_RULE_OR_PRODUCT_TYPE_NOT_EXIST);
+          default:
+            return res.sendStatus(
+              EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE
+            );
+        }
+      })
+      .catch((_) => {
+        res.sendStatus(EResponseStatusCodes.INTERNAL_SERVER_ERROR_CODE);
+      });
+  }
+);
+
+export default taxRouter;
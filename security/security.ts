@@ -179,3 +179,32 @@ export const verifyToken = (
       .send(ETextResponse.INVALID_AUTH_TOKEN);
   }
 };
+
+/**
+ * Check the JWT token found in the request cookies, if there is one, for
+ * routes that guests can use too
+ * @param req The express request object. The user is left undefined if the
+ * token is missing or invalid
+ * @param res The express response object
+ * @param next The next function to run after checks are performed
+ */
+export const verifyOptionalToken = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  req.user = undefined;
+  if (typeof req.cookies["auth"] !== "string") {
+    return next();
+  }
+  jwt.verify(
+    req.cookies["auth"],
+    process.env.JWT_SECRET as string,
+    (err, decode) => {
+      if (!err) {
+        req.user = decode as TAccountAuth;
+      }
+      next();
+    }
+  );
+};